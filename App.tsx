@@ -1,14 +1,56 @@
 /// <reference types="@react-three/fiber" />
-import React, { useState, Suspense, useEffect, useRef } from 'react';
+import React, { useState, Suspense, useEffect, useRef, useMemo, useCallback } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Html } from '@react-three/drei';
 import { Leva, useControls, button } from 'leva';
 import Earth from './components/Earth';
 import HandController from './components/HandController';
-import { ViewMode, HandGestureState } from './types';
-import { CAMERA_POSITIONS } from './constants';
+import ImportReport from './components/ImportReport';
+import Inspector from './components/Inspector';
+import Timeline, { PLAYBACK_SPEEDS } from './components/Timeline';
+import Legend from './components/Legend';
+import CameraRig from './components/CameraRig';
+import ViewBar from './components/ViewBar';
+import FigureExporter from './components/FigureExporter';
+import ExportStatus from './components/ExportStatus';
+import StatsPanel from './components/StatsPanel';
+import PVLegend from './components/PVLegend';
+import RoiPanel from './components/RoiPanel';
+import LayerPanel from './components/LayerPanel';
+import InputPanel from './components/InputPanel';
+import HelpOverlay from './components/HelpOverlay';
+import SunPanel from './components/SunPanel';
+import QualityGovernor from './components/QualityGovernor';
+import PerformanceHud from './components/PerformanceHud';
+import { ViewMode, HandGestureState, AODLayer, AODRaster, PVStationData, FeatureError, LatLon, LocationQuery, AODTimeSeries, PaletteName, Classification, DEMRaster, PVHeightAttribute, PVColorMode, CameraPosition, CameraBookmark, SceneState, SavedSession, ExportJob, FigureOptions, VideoPath, RegionOfInterest, ROIDraft, ROIDrawMode, MapLayer, LayerData, GestureProfile, InputBindings, InputCommand, HandTrackingMode, PerformanceStats, QualityPreset } from './types';
+import { CAMERA_POSITIONS, CLOCK_RATES, DEFAULT_INPUT_BINDINGS, DETECTION_RATES, DEFAULT_PV_MODEL, EXPORT_SIZES, GLOBE_GROUP_NAME, MOCK_PV_STATIONS, ORBIT_DISTANCE_LIMITS, QUALITY_LEVELS } from './constants';
+import { loadGeoTiffFile } from './utils/geotiff';
+import { loadPVStationsFile } from './utils/geojson';
+import { queryLocation, findStationAt, resolveLocation } from './utils/query';
+import { buildTimeSeries, interpolateFrame, cursorLabel } from './utils/timeseries';
+import { loadDemFile } from './utils/terrain';
+import { computeExtrusion } from './utils/extrusion';
+import { estimateYields, yieldColoring } from './utils/pvYield';
+import { gestureCommands } from './utils/gestures';
+import { loadGestureProfile, loadInputBindings, saveGestureProfile, saveInputBindings } from './utils/inputSettings';
+import { useGamepadInput, useKeyboardInput, useTouchInput } from './utils/inputSources';
+import { dollyCamera, orbitCamera, panCamera } from './utils/navigation';
+import { cameraForLocation } from './utils/flight';
+import { loadBookmarks, saveBookmarks } from './utils/bookmarks';
+import { SCENE_SCHEMA_VERSION, decodeSceneHash, encodeSceneHash, loadSessions, migrateScene, parseSessionFile, saveSessions } from './utils/scene';
+import { downloadJson } from './utils/download';
+import { supportsWebmExport } from './utils/video';
+import { createRoiId, draftRing, loadRoiFile } from './utils/roi';
+import { DEFAULT_LAYERS, LAYER_VISIBILITY_CONTROLS, createRasterLayer, createVectorLayer, moveLayer } from './utils/layers';
+import { parseVectorLayer } from './utils/vectors';
+import { advanceClock, clockDate, clockFromDate, isClockDate, subsolarPoint } from './utils/solar';
+import { PALETTE_NAMES, CLASSIFICATIONS, DEFAULT_PALETTE, LAYER_UNITS, autoRange, createColorScale } from './utils/colormap';
+import { PRESET_LEVELS, QUALITY_PRESETS, qualityDpr } from './utils/quality';
 import * as THREE from 'three';
 
+// Line colours handed out to uploaded vector layers in turn
+const USER_VECTOR_COLORS = ['#f472b6', '#a3e635', '#fb923c', '#c084fc', '#2dd4bf'];
+
 // Simple Error Boundary Component
 class ErrorBoundary extends React.Component<{children: React.ReactNode}, {hasError: boolean, error: string}> {
   constructor(props: {children: React.ReactNode}) {
@@ -39,6 +81,18 @@ class ErrorBoundary extends React.Component<{children: React.ReactNode}, {hasErr
   }
 }
 
+// How often the URL hash is refreshed from the scene (ms)
+const HASH_SYNC_MS = 1000;
+
+// Time-series cursor steps per frame: playback and the interpolated raster move in these
+const CURSOR_STEPS = 20;
+
+// Shortest interval between scene-clock updates while the clock runs
+const SUN_CLOCK_UPDATE_MS = 100;
+
+// ?kiosk: no settings panel and the controls help up front, for gamepad- or touch-only exhibits
+const KIOSK = new URLSearchParams(window.location.search).has('kiosk');
+
 const AppContent: React.FC = () => {
   // Gesture State
   const [gestureState, setGestureState] = useState<HandGestureState>({
@@ -46,9 +100,50 @@ const AppContent: React.FC = () => {
     isFist: false,
     isPinching: false,
     pinchDistance: 0,
-    handPosition: { x: 0.5, y: 0.5 }
+    handPosition: { x: 0.5, y: 0.5 },
+    palmPosition: { x: 0.5, y: 0.5 },
+    handCount: 0,
+    handSpread: null,
+    swipe: null
   });
 
+  // Decoded AOD GeoTIFFs, keyed by layer
+  const [aodRasters, setAodRasters] = useState<Partial<Record<AODLayer, AODRaster>>>({});
+  const [aodSeries, setAodSeries] = useState<AODTimeSeries | null>(null);
+
+  // Regional elevation model for the terrain patch
+  const [dem, setDem] = useState<DEMRaster | undefined>(undefined);
+
+  // Pending camera flight (globe-frame destination) and saved views
+  const [flight, setFlight] = useState<CameraPosition | null>(null);
+  const [bookmarks, setBookmarks] = useState<CameraBookmark[]>(loadBookmarks);
+  const [sessions, setSessions] = useState<SavedSession[]>(loadSessions);
+  const [statsOpen, setStatsOpen] = useState(false);
+  const [exportJob, setExportJob] = useState<ExportJob | null>(null);
+  const [exportProgress, setExportProgress] = useState({ done: 0, total: 0 });
+  const [rois, setRois] = useState<RegionOfInterest[]>([]);
+  const [roiDraft, setRoiDraft] = useState<ROIDraft | null>(null);
+  const [layers, setLayers] = useState<MapLayer[]>(DEFAULT_LAYERS);
+  const [layerData, setLayerData] = useState<LayerData>({});
+  const [layersOpen, setLayersOpen] = useState(false);
+
+  // Gesture calibration profile and per-source input → action bindings, kept per browser
+  const [gestureProfile, setGestureProfile] = useState<GestureProfile | null>(loadGestureProfile);
+  const [inputBindings, setInputBindings] = useState<InputBindings>(loadInputBindings);
+  const [inputOpen, setInputOpen] = useState(false);
+  const [helpOpen, setHelpOpen] = useState(KIOSK);
+  const [calibrating, setCalibrating] = useState(false);
+
+  // Rung the Auto quality governor has settled on, and the HUD's latest figures
+  const [autoQualityLevel, setAutoQualityLevel] = useState(PRESET_LEVELS.Auto);
+  const [perfStats, setPerfStats] = useState<PerformanceStats | null>(null);
+
+  // PV stations (demo set until a GeoJSON is uploaded)
+  const [pvStations, setPvStations] = useState<PVStationData[]>(MOCK_PV_STATIONS);
+  const [selectedStationId, setSelectedStationId] = useState<string | null>(null);
+  const [query, setQuery] = useState<LocationQuery | null>(null);
+  const [importReport, setImportReport] = useState<{ fileName: string; loadedCount: number; errors: FeatureError[] } | null>(null);
+
   // UI Controls (Leva)
   const [controls, setControls] = useControls(() => ({
     viewMode: {
@@ -57,7 +152,7 @@ const AppContent: React.FC = () => {
       label: 'Region Focus'
     },
     activeLayer: {
-      options: ['Mean', 'Slope'],
+      options: ['Mean', 'Slope', 'Time Series'],
       value: 'Mean',
       label: 'AOD Data Layer'
     },
@@ -66,141 +161,1086 @@ const AppContent: React.FC = () => {
       editable: false
     },
     autoRotate: { value: true, label: 'Auto Rotate' },
-    demStrength: { value: 1.5, min: 0, max: 5, label: 'Terrain Exaggeration' },
+    demStrength: { value: 25, min: 0, max: 100, step: 1, label: 'Terrain Exaggeration (×)' },
     pvScale: { value: 0.1, min: 0, max: 1, label: 'PV Height' },
+    pvHeightBy: {
+      options: ['None', 'Area', 'Capacity', 'AOD Change'],
+      value: 'Area',
+      label: 'PV Height By'
+    },
     particlesEnabled: { value: true, label: 'Show AOD Overlay' },
+    showGraticule: { value: true, label: 'Graticule' },
+    showBorders: { value: true, label: 'Borders' },
+    showRivers: { value: true, label: 'Rivers' },
+    showDesertOutline: { value: true, label: 'Desert Outline' },
+    showLabels: { value: true, label: 'Place Labels' },
     'Colors': {
       value: '',
       editable: false
     },
     highlightColor: { value: '#00ffcc', label: 'Highlight' },
     pvColor: { value: '#0066cc', label: 'PV Panels' },
+    pvColorBy: {
+      options: ['Uniform', 'Type', 'Yield', 'Aerosol Loss'],
+      value: 'Uniform',
+      label: 'PV Color By'
+    },
     'Data Upload': {
       value: '',
       editable: false
     },
     'Upload AOD Mean': button(() => document.getElementById('file-aod-mean')?.click()),
+    'Upload AOD Slope': button(() => document.getElementById('file-aod-slope')?.click()),
+    'Upload AOD Series': button(() => document.getElementById('file-aod-series')?.click()),
     'Upload GeoJSON': button(() => document.getElementById('file-geojson')?.click()),
+    'Upload DEM': button(() => document.getElementById('file-dem')?.click()),
+    'Station Statistics': button(() => setStatsOpen(true)),
+    'Layers': button(() => setLayersOpen(true)),
+    'Input Bindings': button(() => setInputOpen(true)),
+    'Controls Help': button(() => setHelpOpen(true)),
+  }));
+
+  // Time Series folder; rebuilt when the number of frames changes
+  const frameCount = aodSeries?.frames.length ?? 0;
+  const [timeControls, setTimeControls] = useControls('Time Series', () => ({
+    timeCursor: { value: 0, min: 0, max: Math.max(1, frameCount - 1), step: 0.01, label: 'Time Cursor' },
+    playing: { value: false, label: 'Play' },
+    playSpeed: { value: 1, options: PLAYBACK_SPEEDS, label: 'Frames / s' },
+  }), [frameCount]);
+
+  // Sun folder: the scene clock that places the sun, starting at the current time
+  const [sunControls, setSunControls] = useControls('Sun', () => ({
+    date: { value: clockFromDate(new Date()).date, label: 'Date (UTC)' },
+    timeUtc: { value: clockFromDate(new Date()).timeUtc, min: 0, max: 24, step: 0.01, label: 'Time (UTC h)' },
+    clockRate: { options: CLOCK_RATES, value: 0, label: 'Clock' },
+    cityLights: { value: true, label: 'City Lights' },
+    'Now': button(() => setSunControlsRef.current(clockFromDate(new Date()))),
+  }));
+
+  // PV Model folder: inputs of the annual yield estimator
+  const [pvModelControls, setPvModelControls] = useControls('PV Model', () => ({
+    year: { value: DEFAULT_PV_MODEL.year, min: 1990, max: 2100, step: 1, label: 'Year' },
+    efficiency: { value: DEFAULT_PV_MODEL.efficiency, min: 0.05, max: 0.4, step: 0.01, label: 'Module Efficiency' },
+    performanceRatio: { value: DEFAULT_PV_MODEL.performanceRatio, min: 0.5, max: 1, step: 0.01, label: 'Performance Ratio' },
+    groundCoverage: { value: DEFAULT_PV_MODEL.groundCoverage, min: 0.1, max: 1, step: 0.01, label: 'Ground Coverage' },
+    angstromFactor: { value: DEFAULT_PV_MODEL.angstromFactor, min: 0.3, max: 1.5, step: 0.05, label: 'Broadband / 550 nm' },
+    forwardScatter: { value: DEFAULT_PV_MODEL.forwardScatter, min: 0, max: 1, step: 0.05, label: 'Forward Scatter' },
+    fallbackAod: { value: DEFAULT_PV_MODEL.fallbackAod, min: 0, max: 2, step: 0.01, label: 'Fallback AOD' },
+  }));
+
+  // Color Ramp folder; applies to the active layer
+  const [rampControls, setRampControls] = useControls('Color Ramp', () => ({
+    palette: { options: PALETTE_NAMES, value: DEFAULT_PALETTE.Mean, label: 'Palette' },
+    autoRange: { value: true, label: 'Auto Range' },
+    rangeMin: { value: 0, step: 0.001, label: 'Min' },
+    rangeMax: { value: 1, step: 0.001, label: 'Max' },
+    center: { value: 0, step: 0.001, label: 'Diverging Centre' },
+    classification: { options: CLASSIFICATIONS, value: 'linear', label: 'Classification' },
+    classes: { value: 5, min: 2, max: 10, step: 1, label: 'Classes' },
   }));
 
+  // Camera folder: fly to a station id or "lat, lon"
+  useControls('Camera', () => ({
+    flyTarget: { value: '', label: 'Station / Lat, Lon' },
+    'Fly To': button(get => flyToTextRef.current(get('Camera.flyTarget'))),
+  }));
+
+  // ROI folder: draw or load regions, and clip the AOD overlay to them
+  const [roiControls, setRoiControls] = useControls('ROI', () => ({
+    'Draw Polygon': button(() => startDrawingRef.current('Polygon')),
+    'Draw Rectangle': button(() => startDrawingRef.current('Rectangle')),
+    'Load Boundary': button(() => document.getElementById('file-roi')?.click()),
+    clipToRoi: { value: false, label: 'Clip AOD to ROIs' },
+    'Clear ROIs': button(() => {
+      setRois([]);
+      setRoiDraft(null);
+    }),
+  }));
+
+  // Hand Tracking folder: where detection runs and how often
+  const [handTrackingControls] = useControls('Hand Tracking', () => ({
+    trackingMode: { options: ['Worker', 'Main Thread'], value: 'Worker', label: 'Run Detection In' },
+    detectionRate: { options: DETECTION_RATES, value: 30, label: 'Detection Rate (Hz)' },
+  }));
+
+  // Quality folder: a fixed preset, or Auto to hold the target frame rate
+  const [qualityControls] = useControls('Quality', () => ({
+    preset: { options: QUALITY_PRESETS, value: 'Auto', label: 'Preset' },
+    targetFps: { value: 50, min: 20, max: 60, step: 5, label: 'Target FPS (Auto)' },
+    hud: { value: false, label: 'Performance HUD' },
+  }));
+
+  // Export folder: high-resolution figures and frame-by-frame WebM
+  const [exportControls] = useControls('Export', () => ({
+    size: { options: Object.keys(EXPORT_SIZES), value: '4K UHD', label: 'Size' },
+    transparent: { value: false, label: 'Transparent BG' },
+    legend: { value: true, label: 'Legend' },
+    scaleBar: { value: true, label: 'Scale Bar' },
+    northArrow: { value: true, label: 'North Arrow' },
+    attribution: { value: 'Hobq Desert AOD 3D Visualizer', label: 'Attribution' },
+    'Export PNG': button(() => startExportRef.current('image')),
+    videoPath: { options: ['Orbit', 'Bookmarks', 'Time Series'], value: 'Orbit', label: 'Video Path' },
+    videoDuration: { value: 8, min: 1, max: 60, step: 1, label: 'Duration (s)' },
+    videoFps: { options: [24, 30, 60], value: 30, label: 'FPS' },
+    'Record WebM': button(() => startExportRef.current('video')),
+  }));
+
+  // Session folder: saved scenes, JSON files and shareable links
+  const sessionNames = sessions.map(s => s.name);
+  useControls('Session', () => ({
+    ...(sessionNames.length > 0 ? { session: { options: sessionNames, value: sessionNames[sessionNames.length - 1], label: 'Saved' } } : {}),
+    'Load Session': button(get => handleSessionActionRef.current('load', get('Session.session'))),
+    'Delete Session': button(get => handleSessionActionRef.current('delete', get('Session.session'))),
+    'Save Session': button(() => handleSessionActionRef.current('save')),
+    'Export JSON': button(get => handleSessionActionRef.current('export', get('Session.session'))),
+    'Import JSON': button(() => document.getElementById('file-session')?.click()),
+    'Copy Link': button(() => handleSessionActionRef.current('copy')),
+  }), [sessionNames.join('\n')]);
+
   const controlsRef = useRef<any>(null);
+  const sceneRef = useRef<THREE.Scene | null>(null);
   const controlsValuesRef = useRef(controls);
   controlsValuesRef.current = controls;
+  const timeControlsRef = useRef(timeControls);
+  timeControlsRef.current = timeControls;
+  const sunControlsRef = useRef(sunControls);
+  sunControlsRef.current = sunControls;
+  const setSunControlsRef = useRef(setSunControls);
+  setSunControlsRef.current = setSunControls;
+  const inputBindingsRef = useRef(inputBindings);
+  inputBindingsRef.current = inputBindings;
+
+  const isTimeMode = controls.activeLayer === 'Time Series' && aodSeries !== null;
 
-  // Gesture Logic
+  // Playback: advance the cursor in real time and loop at the end
   useEffect(() => {
-    const currentControls = controlsValuesRef.current;
-    
-    // 1. Rotation Control
-    if (gestureState.isPalmOpen) {
-       if (!currentControls.autoRotate) {
-           setControls({ autoRotate: true });
-       }
-    } else if (gestureState.isFist) {
-       if (currentControls.autoRotate) {
-           setControls({ autoRotate: false });
-       }
-    }
-
-    // 2. Pinch to Scale PV
-    if (gestureState.isPinching) {
-        const newScale = Math.min(1, Math.max(0, currentControls.pvScale + 0.02));
-        if (Math.abs(newScale - currentControls.pvScale) > 0.01) {
-          setControls({ pvScale: newScale });
-        }
+    if (!timeControls.playing || !aodSeries) return;
+    let frame = 0;
+    let last = performance.now();
+    // Exact playhead, the value last written to the panel and the panel value last read
+    let cursor = timeControlsRef.current.timeCursor;
+    let shown = cursor;
+    let seen = cursor;
+    const tick = (now: number) => {
+      const dt = (now - last) / 1000;
+      last = now;
+      const { timeCursor, playSpeed } = timeControlsRef.current;
+      // A drag on the panel slider moves the playhead
+      if (timeCursor !== seen) {
+        if (timeCursor !== shown) cursor = timeCursor;
+        seen = timeCursor;
+      }
+      const span = aodSeries.frames.length - 1;
+      cursor += dt * playSpeed;
+      if (cursor > span) cursor = 0;
+      // Re-render only when the displayed step changes, not every frame
+      const step = Math.round(cursor * CURSOR_STEPS) / CURSOR_STEPS;
+      if (step !== shown) {
+        shown = step;
+        setTimeControls({ timeCursor: step });
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [timeControls.playing, aodSeries, setTimeControls]);
+
+  // Scene clock: advance at the chosen rate, rolling over midnight
+  useEffect(() => {
+    if (!sunControls.clockRate) return;
+    let frame = 0;
+    let last = performance.now();
+    let lastShown = 0;
+    // Exact clock, the value last written to the panel and the panel value last read
+    let clock = { date: sunControlsRef.current.date, timeUtc: sunControlsRef.current.timeUtc };
+    let shown = clock;
+    let seen = clock;
+    const same = (a: typeof clock, b: typeof clock) => a.date === b.date && a.timeUtc === b.timeUtc;
+    const tick = (now: number) => {
+      const dt = (now - last) / 1000;
+      last = now;
+      const { date, timeUtc, clockRate } = sunControlsRef.current;
+      // An edit in the panel sets the running clock
+      if (!same({ date, timeUtc }, seen)) {
+        if (!same({ date, timeUtc }, shown)) clock = { date, timeUtc };
+        seen = { date, timeUtc };
+      }
+      if (isClockDate(clock.date)) clock = advanceClock(clock.date, clock.timeUtc, dt * clockRate);
+      // Publish at the panel's resolution, and at most every SUN_CLOCK_UPDATE_MS
+      const display = { date: clock.date, timeUtc: Math.round(clock.timeUtc * 100) / 100 };
+      if (now - lastShown >= SUN_CLOCK_UPDATE_MS && !same(display, shown)) {
+        shown = display;
+        lastShown = now;
+        setSunControls(display);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [sunControls.clockRate, setSunControls]);
+
+  // Sun position for the clock; the date field keeps its last valid value while being edited
+  const clockDayRef = useRef(sunControls.date);
+  if (isClockDate(sunControls.date)) clockDayRef.current = sunControls.date;
+  const sceneTime = clockDate(clockDayRef.current, sunControls.timeUtc);
+  const subsolar = useMemo(() => subsolarPoint(sceneTime), [sceneTime.getTime()]);
+
+  // Interpolated frame, regenerated in 1/CURSOR_STEPS-frame steps to bound texture rebuilds
+  const quantizedCursor = Math.round(timeControls.timeCursor * CURSOR_STEPS) / CURSOR_STEPS;
+  const layerRasters = useMemo(() => (
+    aodSeries ? { ...aodRasters, 'Time Series': interpolateFrame(aodSeries, quantizedCursor) } : aodRasters
+  ), [aodRasters, aodSeries, quantizedCursor]);
+
+  // Each layer starts from its own palette and the raster's range, unless a
+  // restored scene brought its own ramp along with the layer switch
+  const pendingRampRef = useRef<SceneState['ramp'] | null>(null);
+  useEffect(() => {
+    const pending = pendingRampRef.current;
+    pendingRampRef.current = null;
+    setRampControls(pending ?? { palette: DEFAULT_PALETTE[controls.activeLayer as AODLayer], autoRange: true, center: 0 });
+  }, [controls.activeLayer, setRampControls]);
+
+  const activeLayer = controls.activeLayer as AODLayer;
+  const activeRaster = layerRasters[activeLayer];
+  const palette = rampControls.palette as PaletteName;
+  const fitted = autoRange(activeRaster, palette, rampControls.center);
+  const rangeMin = rampControls.autoRange ? fitted.min : rampControls.rangeMin;
+  const rangeMax = rampControls.autoRange ? fitted.max : rampControls.rangeMax;
+
+  // Mirror the fitted range into the panel so switching Auto Range off starts from it
+  useEffect(() => {
+    // Tolerance matches the input step, which Leva may round to
+    const moved = Math.abs(fitted.min - rampControls.rangeMin) > 1e-3 || Math.abs(fitted.max - rampControls.rangeMax) > 1e-3;
+    if (rampControls.autoRange && moved) {
+      setRampControls({ rangeMin: fitted.min, rangeMax: fitted.max });
+    }
+  }, [rampControls.autoRange, fitted.min, fitted.max, rampControls.rangeMin, rampControls.rangeMax, setRampControls]);
+
+  const colorScale = useMemo(() => createColorScale({
+    palette,
+    min: rangeMin,
+    max: rangeMax,
+    center: rampControls.center,
+    classification: rampControls.classification as Classification,
+    classes: rampControls.classes,
+  }, activeRaster), [palette, rangeMin, rangeMax, rampControls.center, rampControls.classification, rampControls.classes, activeRaster]);
+
+  // Per-station heights for the chosen attribute
+  const pvHeightBy = controls.pvHeightBy as PVHeightAttribute;
+  const pvExtrusion = useMemo(
+    () => computeExtrusion(pvStations, pvHeightBy, aodRasters.Slope, aodSeries),
+    [pvStations, pvHeightBy, aodRasters.Slope, aodSeries]
+  );
+
+  // Annual yield per station under its local AOD, and the colours for the estimate modes
+  const pvModel = {
+    year: pvModelControls.year,
+    efficiency: pvModelControls.efficiency,
+    performanceRatio: pvModelControls.performanceRatio,
+    groundCoverage: pvModelControls.groundCoverage,
+    angstromFactor: pvModelControls.angstromFactor,
+    forwardScatter: pvModelControls.forwardScatter,
+    fallbackAod: pvModelControls.fallbackAod,
+  };
+  const pvModelKey = Object.values(pvModel).join();
+  const pvYields = useMemo(
+    () => estimateYields(pvStations, aodRasters.Mean, aodSeries, pvModel),
+    [pvStations, aodRasters.Mean, aodSeries, pvModelKey]
+  );
+  const pvColorBy = controls.pvColorBy as PVColorMode;
+  const pvYieldColoring = useMemo(() => yieldColoring(pvYields, pvColorBy), [pvYields, pvColorBy]);
+
+  // Layer stack with Leva-toggled built-ins taking their visibility from the toggle
+  const controlValues = controls as unknown as Record<string, unknown>;
+  const visibilityKey = Object.values(LAYER_VISIBILITY_CONTROLS).map(key => String(controlValues[key!])).join();
+  const stackLayers = useMemo(() => layers.map(layer => {
+    const key = LAYER_VISIBILITY_CONTROLS[layer.kind];
+    return key ? { ...layer, visible: controlValues[key] as boolean } : layer;
+  }), [layers, visibilityKey]);
+
+  // Fly back to the preset of the current region
+  const resetCamera = useCallback(() => {
+    setFlight(CAMERA_POSITIONS[controlsValuesRef.current.viewMode as ViewMode]);
+  }, []);
+
+  // Command bus: keyboard, touch, gamepad and hand gestures all act on the scene through here
+  const runCommand = (command: InputCommand) => {
+    const orbit = controlsRef.current;
+    const span = aodSeries ? aodSeries.frames.length - 1 : 0;
+    const { timeCursor, playing } = timeControlsRef.current;
+    switch (command.type) {
+      case 'orbit':
+      case 'pan':
+      case 'zoom':
+        if (!orbit) return;
+        // Any navigation takes over from a running flight
+        setFlight(null);
+        if (command.type === 'orbit') orbitCamera(orbit.object, orbit.target, command.azimuth, command.polar);
+        else if (command.type === 'pan') panCamera(orbit.object, orbit.target, command.dx, command.dy);
+        else dollyCamera(orbit.object, orbit.target, command.scale, ORBIT_DISTANCE_LIMITS.min, ORBIT_DISTANCE_LIMITS.max);
+        orbit.update();
+        break;
+      case 'resetCamera':
+        resetCamera();
+        break;
+      case 'toggleRotate':
+        setControls({ autoRotate: !controlsValuesRef.current.autoRotate });
+        break;
+      case 'nextView':
+      case 'previousView': {
+        const modes = Object.values(ViewMode);
+        const step = command.type === 'nextView' ? 1 : -1;
+        const current = modes.indexOf(controlsValuesRef.current.viewMode as ViewMode);
+        setControls({ viewMode: modes[(current + step + modes.length) % modes.length] });
+        break;
+      }
+      case 'stepTime':
+        if (aodSeries) setTimeControls({ playing: false, timeCursor: Math.min(span, Math.max(0, Math.round(timeCursor) + command.step)) });
+        break;
+      case 'scrub':
+        if (aodSeries) setTimeControls({ playing: false, timeCursor: command.position * span });
+        break;
+      case 'togglePlay':
+        if (aodSeries) setTimeControls({ playing: !playing });
+        break;
+      case 'setPlaying':
+        if (aodSeries && playing !== command.playing) setTimeControls({ playing: command.playing });
+        break;
+      case 'selectStation': {
+        if (pvStations.length === 0) break;
+        const current = pvStations.findIndex(s => s.id === selectedStationId);
+        const index = current < 0
+          ? (command.step > 0 ? 0 : pvStations.length - 1)
+          : (current + command.step + pvStations.length) % pvStations.length;
+        setSelectedStationId(pvStations[index].id);
+        setFlight(cameraForLocation(pvStations[index]));
+        break;
+      }
+      case 'clearSelection':
+        setSelectedStationId(null);
+        break;
+      case 'toggleLayer': {
+        const layer = stackLayers.find(l => l.id === command.layerId);
+        if (layer) updateLayer(layer.id, { visible: !layer.visible });
+        break;
+      }
+      case 'screenshot':
+        startExportRef.current('image');
+        break;
+      case 'toggleHelp':
+        setHelpOpen(open => !open);
+        break;
     }
-  }, [gestureState, setControls]);
+  };
+  const runCommandRef = useRef(runCommand);
+  runCommandRef.current = runCommand;
+  const dispatchCommand = useCallback((command: InputCommand) => runCommandRef.current(command), []);
+
+  // Input sources
+  const sceneElementRef = useRef<HTMLDivElement>(null);
+  useKeyboardInput(dispatchCommand, inputBindings.keyboard);
+  useTouchInput(sceneElementRef, dispatchCommand, inputBindings.touch);
+  const gamepad = useGamepadInput(dispatchCommand, inputBindings.gamepad);
 
-  // Camera Transition Logic
+  // Hand gestures become commands on the change since the previous update
+  const lastGestureRef = useRef(gestureState);
   useEffect(() => {
-    const targetConfig = CAMERA_POSITIONS[controls.viewMode as ViewMode];
-    if (controlsRef.current && controlsRef.current.object && targetConfig) {
-        controlsRef.current.object.position.set(...targetConfig.position);
-        controlsRef.current.target.set(...targetConfig.target);
-        controlsRef.current.update();
+    const prev = lastGestureRef.current;
+    lastGestureRef.current = gestureState;
+    gestureCommands(prev, gestureState, inputBindingsRef.current.gesture, isTimeMode).forEach(dispatchCommand);
+  }, [gestureState, isTimeMode, dispatchCommand]);
+
+  // Camera Transition Logic (a restored scene's camera wins over the preset)
+  const pendingCameraRef = useRef<CameraPosition | null>(null);
+  useEffect(() => {
+    const pending = pendingCameraRef.current;
+    pendingCameraRef.current = null;
+    if (pending) setFlight(pending);
+    else resetCamera();
+  }, [controls.viewMode, resetCamera]);
+
+  const handleRasterUpload = (layer: AODLayer) => async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    if (!file) return;
+    try {
+      const raster = await loadGeoTiffFile(file);
+      setAodRasters(prev => ({ ...prev, [layer]: raster }));
+      setControls({ activeLayer: layer });
+    } catch (err: any) {
+      console.error("GeoTIFF load failed:", err);
+      alert(`Could not load ${file.name}: ${err.message}`);
+    } finally {
+      // Allow re-selecting the same file
+      input.value = '';
     }
-  }, [controls.viewMode]);
+  };
 
-  const handleFileUpload = (type: string) => (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      alert(`Loaded ${file.name}. The visualizer is currently using the demo 'Mean20' style. In a production build, this would replace the overlay texture.`);
+  const handleSeriesUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const files = Array.from(input.files ?? []);
+    if (files.length === 0) return;
+    try {
+      const rasters = await Promise.all(files.map(loadGeoTiffFile));
+      setAodSeries(buildTimeSeries(rasters));
+      setTimeControls({ timeCursor: 0, playing: false });
+      setControls({ activeLayer: 'Time Series' });
+    } catch (err: any) {
+      console.error("Time series load failed:", err);
+      alert(`Could not load time series: ${err.message}`);
+    } finally {
+      input.value = '';
     }
   };
 
+  const handleDemUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    if (!file) return;
+    try {
+      setDem(await loadDemFile(file));
+    } catch (err: any) {
+      console.error("DEM load failed:", err);
+      alert(`Could not load ${file.name}: ${err.message}`);
+    } finally {
+      input.value = '';
+    }
+  };
+
+  const handleStationUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    if (!file) return;
+    try {
+      const { stations, errors } = await loadPVStationsFile(file);
+      if (stations.length > 0) {
+        setPvStations(stations);
+        setSelectedStationId(null);
+        setQuery(null);
+      }
+      setImportReport(errors.length > 0 ? { fileName: file.name, loadedCount: stations.length, errors } : null);
+    } catch (err: any) {
+      console.error("GeoJSON load failed:", err);
+      alert(`Could not load ${file.name}: ${err.message}`);
+    } finally {
+      input.value = '';
+    }
+  };
+
+  const handleLocationPick = (latLon: LatLon, screen: { x: number; y: number }) => {
+    // While drawing, clicks place ROI vertices instead of querying
+    if (roiDraft) {
+      const draft = { ...roiDraft, points: [...roiDraft.points, latLon] };
+      if (draft.mode === 'Rectangle' && draft.points.length === 2) finishDraft(draft);
+      else setRoiDraft(draft);
+      return;
+    }
+    setQuery(queryLocation(latLon, screen, layerRasters, pvStations));
+    // Clicking inside a polygon footprint selects that station
+    const hit = findStationAt(pvStations, latLon);
+    if (hit) setSelectedStationId(hit.id);
+  };
+
+  const updateLayer = (id: string, patch: Partial<MapLayer>) => {
+    const layer = layers.find(l => l.id === id);
+    const key = layer && LAYER_VISIBILITY_CONTROLS[layer.kind];
+    if (key && patch.visible !== undefined) setControls({ [key]: patch.visible });
+    setLayers(layers.map(l => (l.id === id ? { ...l, ...patch } : l)));
+  };
+
+  const updateInputBindings = (next: InputBindings) => {
+    setInputBindings(next);
+    saveInputBindings(next);
+  };
+
+  const removeLayer = (id: string) => {
+    setLayers(layers.filter(l => l.id !== id));
+    setLayerData(({ [id]: _, ...rest }) => rest);
+  };
+
+  const handleLayerUpload = (kind: 'raster' | 'vector') => async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    if (!file) return;
+    try {
+      const name = file.name.replace(/\.[^.]+$/, '');
+      const userLayers = layers.filter(l => l.kind === kind).length;
+      const layer = kind === 'raster'
+        ? createRasterLayer(name, 'Viridis')
+        : createVectorLayer(name, USER_VECTOR_COLORS[userLayers % USER_VECTOR_COLORS.length]);
+      const data = kind === 'raster' ? await loadGeoTiffFile(file) : parseVectorLayer(JSON.parse(await file.text()), layer.id);
+      if ('lines' in data && data.lines.length === 0) throw new Error('no line or polygon geometry found');
+      setLayerData(prev => ({ ...prev, [layer.id]: data }));
+      // New layers go just below the labels, which stay on top
+      const labels = layers.findIndex(l => l.kind === 'labels');
+      setLayers(labels < 0 ? [...layers, layer] : [...layers.slice(0, labels), layer, ...layers.slice(labels)]);
+    } catch (err: any) {
+      console.error("Layer load failed:", err);
+      alert(`Could not load ${file.name}: ${err.message}`);
+    } finally {
+      input.value = '';
+    }
+  };
+
+  const startDrawing = (mode: ROIDrawMode) => {
+    setQuery(null);
+    setRoiDraft({ mode, points: [] });
+  };
+  const startDrawingRef = useRef(startDrawing);
+  startDrawingRef.current = startDrawing;
+
+  const finishDraft = (draft: ROIDraft) => {
+    const ring = draftRing(draft);
+    if (!ring) return;
+    setRois(prev => [...prev, { id: createRoiId(), name: `ROI ${prev.length + 1}`, polygons: [[ring]] }]);
+    setRoiDraft(null);
+  };
+
+  const handleRoiUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    if (!file) return;
+    try {
+      setRois([...rois, ...await loadRoiFile(file)]);
+    } catch (err: any) {
+      console.error("Boundary load failed:", err);
+      alert(`Could not load ${file.name}: ${err.message}`);
+    } finally {
+      input.value = '';
+    }
+  };
+
+  const flyToText = (text: string) => {
+    const target = resolveLocation(text, pvStations);
+    if (!target) {
+      alert(`"${text}" is not a station id or a "lat, lon" pair`);
+      return;
+    }
+    setFlight(cameraForLocation(target));
+  };
+  const flyToTextRef = useRef(flyToText);
+  flyToTextRef.current = flyToText;
+
+  const handlePreset = (mode: ViewMode) => {
+    // Re-selecting the current region flies back to its preset
+    if (mode === controls.viewMode) resetCamera();
+    else setControls({ viewMode: mode });
+  };
+
+  const updateBookmarks = (next: CameraBookmark[]) => {
+    setBookmarks(next);
+    saveBookmarks(next);
+  };
+
+  // Camera pose in the globe frame, so it survives the globe's spin
+  const captureCameraPose = (): CameraPosition | null => {
+    const orbit = controlsRef.current;
+    if (!orbit) return null;
+    const globe = sceneRef.current?.getObjectByName(GLOBE_GROUP_NAME);
+    const toGlobe = globe ? globe.matrixWorld.clone().invert() : new THREE.Matrix4();
+    return {
+      position: orbit.object.position.clone().applyMatrix4(toGlobe).toArray(),
+      target: orbit.target.clone().applyMatrix4(toGlobe).toArray(),
+      fov: orbit.object.fov,
+    };
+  };
+
+  const handleSaveBookmark = () => {
+    const pose = captureCameraPose();
+    if (!pose) return;
+    const name = window.prompt('Bookmark name', `View ${bookmarks.length + 1}`)?.trim();
+    if (!name) return;
+    updateBookmarks([...bookmarks.filter(b => b.name !== name), { name, pose }]);
+  };
+
+  const captureScene = (): SceneState => ({
+    version: SCENE_SCHEMA_VERSION,
+    controls: {
+      viewMode: controls.viewMode as ViewMode,
+      activeLayer: controls.activeLayer as AODLayer,
+      autoRotate: controls.autoRotate,
+      demStrength: controls.demStrength,
+      pvScale: controls.pvScale,
+      pvHeightBy: controls.pvHeightBy as PVHeightAttribute,
+      particlesEnabled: controls.particlesEnabled,
+      showGraticule: controls.showGraticule,
+      showBorders: controls.showBorders,
+      showRivers: controls.showRivers,
+      showDesertOutline: controls.showDesertOutline,
+      showLabels: controls.showLabels,
+      highlightColor: controls.highlightColor,
+      pvColor: controls.pvColor,
+      pvColorBy: controls.pvColorBy as PVColorMode,
+    },
+    ramp: {
+      palette: rampControls.palette as PaletteName,
+      autoRange: rampControls.autoRange,
+      rangeMin: rampControls.rangeMin,
+      rangeMax: rampControls.rangeMax,
+      center: rampControls.center,
+      classification: rampControls.classification as Classification,
+      classes: rampControls.classes,
+    },
+    time: { timeCursor: timeControls.timeCursor, playSpeed: timeControls.playSpeed },
+    pvModel,
+    sun: { date: clockDayRef.current, timeUtc: sunControls.timeUtc, clockRate: sunControls.clockRate, cityLights: sunControls.cityLights },
+    camera: captureCameraPose(),
+    selectedStationId,
+    rois,
+    clipToRoi: roiControls.clipToRoi,
+    layers: stackLayers,
+  });
+  const captureSceneRef = useRef(captureScene);
+  captureSceneRef.current = captureScene;
+
+  // Restore settings, selection and camera; data layers are not part of a scene
+  const applyScene = (scene: SceneState) => {
+    if (scene.controls.activeLayer !== controls.activeLayer) pendingRampRef.current = scene.ramp;
+    else setRampControls(scene.ramp);
+    if (scene.controls.viewMode !== controls.viewMode) pendingCameraRef.current = scene.camera;
+    else if (scene.camera) setFlight(scene.camera);
+    setControls(scene.controls);
+    setTimeControls({ ...scene.time, playing: false });
+    setSunControls(scene.sun);
+    setPvModelControls(scene.pvModel);
+    setSelectedStationId(scene.selectedStationId);
+    setRois(scene.rois);
+    setRoiControls({ clipToRoi: scene.clipToRoi });
+    setRoiDraft(null);
+    setLayers(scene.layers);
+  };
+  const applySceneRef = useRef(applyScene);
+  applySceneRef.current = applyScene;
+
+  const updateSessions = (next: SavedSession[]) => {
+    setSessions(next);
+    saveSessions(next);
+  };
+
+  const copyLink = async () => {
+    const hash = encodeSceneHash(captureScene());
+    if (!hash) {
+      alert('This scene is too large to share as a link. Save it as a session or export it as JSON instead.');
+      return;
+    }
+    lastHashRef.current = hash;
+    history.replaceState(null, '', hash);
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+    } catch {
+      window.prompt('Copy this link', window.location.href);
+    }
+  };
+
+  const handleSessionAction = (action: 'save' | 'load' | 'delete' | 'export' | 'copy', name?: string) => {
+    const session = sessions.find(s => s.name === name);
+    switch (action) {
+      case 'save': {
+        const newName = window.prompt('Session name', name ?? `Session ${sessions.length + 1}`)?.trim();
+        if (!newName) return;
+        const saved: SavedSession = { name: newName, savedAt: new Date().toISOString(), scene: captureScene() };
+        updateSessions([...sessions.filter(s => s.name !== newName), saved]);
+        break;
+      }
+      case 'load':
+        if (!session) return;
+        try {
+          applyScene(migrateScene(session.scene, captureScene()));
+        } catch (err: any) {
+          console.error("Session load failed:", err);
+          alert(`Could not load session "${session.name}": ${err.message}`);
+        }
+        break;
+      case 'delete':
+        if (session) updateSessions(sessions.filter(s => s !== session));
+        break;
+      case 'export': {
+        // The selected saved session, or the current scene when nothing is saved
+        const exported = session ?? { name: 'Current view', savedAt: new Date().toISOString(), scene: captureScene() };
+        downloadJson(exported, `${exported.name.replace(/[^\w-]+/g, '_')}.hobq-session.json`);
+        break;
+      }
+      case 'copy':
+        copyLink();
+        break;
+    }
+  };
+  const handleSessionActionRef = useRef(handleSessionAction);
+  handleSessionActionRef.current = handleSessionAction;
+
+  const handleSessionImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    if (!file) return;
+    try {
+      const session = await parseSessionFile(file, captureScene());
+      updateSessions([...sessions.filter(s => s.name !== session.name), session]);
+      applyScene(session.scene);
+    } catch (err: any) {
+      console.error("Session import failed:", err);
+      alert(`Could not import ${file.name}: ${err.message}`);
+    } finally {
+      input.value = '';
+    }
+  };
+
+  // Open the scene in the URL hash (on load, and when a link is pasted into this tab)
+  const lastHashRef = useRef('');
+  const [linkTooLong, setLinkTooLong] = useState(false);
+  useEffect(() => {
+    const openHash = () => {
+      if (!window.location.hash || window.location.hash === lastHashRef.current) return;
+      try {
+        const scene = decodeSceneHash(window.location.hash, captureSceneRef.current());
+        if (scene) applySceneRef.current(scene);
+      } catch (err: any) {
+        console.error("Scene link could not be read:", err);
+        alert(`Could not open the scene in this link: ${err.message}`);
+      }
+    };
+    openHash();
+    window.addEventListener('hashchange', openHash);
+    return () => window.removeEventListener('hashchange', openHash);
+  }, []);
+
+  // Keep the hash in step with the scene; replaceState so history is not flooded
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const hash = encodeSceneHash(captureSceneRef.current());
+      setLinkTooLong(!hash);
+      if (!hash) {
+        // Drop the hash rather than leave an older scene in the URL
+        if (window.location.hash) history.replaceState(null, '', window.location.pathname + window.location.search);
+        lastHashRef.current = '';
+      } else if (hash !== lastHashRef.current) {
+        lastHashRef.current = hash;
+        history.replaceState(null, '', hash);
+      }
+    }, HASH_SYNC_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const startExport = (kind: ExportJob['kind']) => {
+    if (exportJob) return;
+    const size = EXPORT_SIZES[exportControls.size];
+    const figure: FigureOptions = {
+      ...size,
+      transparent: exportControls.transparent,
+      legend: exportControls.legend,
+      scaleBar: exportControls.scaleBar,
+      northArrow: exportControls.northArrow,
+      attribution: exportControls.attribution,
+    };
+    if (kind === 'image') {
+      setExportProgress({ done: 0, total: 1 });
+      setExportJob({ kind, figure });
+      return;
+    }
+    const path = exportControls.videoPath as VideoPath;
+    if (!supportsWebmExport()) {
+      alert('WebM export needs WebCodecs (a recent Chrome or Edge)');
+      return;
+    }
+    if (path === 'Bookmarks' && bookmarks.length === 0) {
+      alert('Save at least one view bookmark to record a bookmark tour');
+      return;
+    }
+    if (path === 'Time Series' && !aodSeries) {
+      alert('Upload an AOD series to record a time-series animation');
+      return;
+    }
+    if (path === 'Time Series') setControls({ activeLayer: 'Time Series' });
+    setExportProgress({ done: 0, total: Math.round(exportControls.videoFps * exportControls.videoDuration) });
+    setExportJob({ kind, figure: { ...figure, dpi: null }, video: { path, fps: exportControls.videoFps, duration: exportControls.videoDuration } });
+  };
+  const startExportRef = useRef(startExport);
+  startExportRef.current = startExport;
+
+  const selectedStation = pvStations.find(s => s.id === selectedStationId) ?? null;
+
+  const autoQuality = qualityControls.preset === 'Auto';
+  const qualityLevel = autoQuality ? autoQualityLevel : PRESET_LEVELS[qualityControls.preset as QualityPreset];
+  const quality = QUALITY_LEVELS[qualityLevel];
+
   return (
     <div className="relative w-full h-full bg-black overflow-hidden">
-      <input type="file" id="file-aod-mean" className="hidden" accept="image/*" onChange={handleFileUpload('AOD')} />
-      <input type="file" id="file-geojson" className="hidden" accept=".json,.geojson" onChange={handleFileUpload('GEO')} />
-
-      <Canvas 
-        shadows 
-        dpr={[1, 2]} 
-        gl={{ antialias: true, alpha: false, toneMapping: THREE.ACESFilmicToneMapping, outputColorSpace: THREE.SRGBColorSpace }} 
-        camera={{ position: [0, 40, 150], fov: 45 }}
-        onCreated={({ gl }) => { gl.setClearColor(new THREE.Color('#000000')) }}
-      >
-        <ambientLight intensity={0.4} />
-        {/* Sun Light */}
-        <directionalLight position={[100, 20, 50]} intensity={3} castShadow />
-        {/* Backlight for atmosphere */}
-        <spotLight position={[-50, 50, -50]} intensity={1} color="#4444ff" />
-
-        <Suspense fallback={<Html center><div className="text-white font-mono text-lg animate-pulse">Loading High-Res Earth...</div></Html>}>
-          <Earth 
-            viewMode={controls.viewMode as ViewMode}
-            autoRotate={controls.autoRotate}
-            highlightColor={controls.highlightColor}
-            demStrength={controls.demStrength}
-            pvScale={controls.pvScale}
-            pvColor={controls.pvColor}
-            particlesEnabled={controls.particlesEnabled}
-            activeLayer={controls.activeLayer as 'Mean' | 'Slope'}
+      <input type="file" id="file-aod-mean" className="hidden" accept=".tif,.tiff" onChange={handleRasterUpload('Mean')} />
+      <input type="file" id="file-aod-slope" className="hidden" accept=".tif,.tiff" onChange={handleRasterUpload('Slope')} />
+      <input type="file" id="file-aod-series" className="hidden" accept=".tif,.tiff" multiple onChange={handleSeriesUpload} />
+      <input type="file" id="file-dem" className="hidden" accept=".tif,.tiff,.png" onChange={handleDemUpload} />
+      <input type="file" id="file-geojson" className="hidden" accept=".json,.geojson" onChange={handleStationUpload} />
+      <input type="file" id="file-session" className="hidden" accept=".json" onChange={handleSessionImport} />
+      <input type="file" id="file-layer-raster" className="hidden" accept=".tif,.tiff" onChange={handleLayerUpload('raster')} />
+      <input type="file" id="file-layer-vector" className="hidden" accept=".json,.geojson" onChange={handleLayerUpload('vector')} />
+      <input type="file" id="file-roi" className="hidden" accept=".json,.geojson,.shp" onChange={handleRoiUpload} />
+
+      <div ref={sceneElementRef} className="absolute inset-0">
+        <Canvas 
+          shadows={quality.shadows}
+          dpr={qualityDpr(quality)}
+          gl={{ antialias: true, alpha: true, toneMapping: THREE.ACESFilmicToneMapping, outputColorSpace: THREE.SRGBColorSpace }} 
+          camera={{ position: [0, 40, 150], fov: 45 }}
+          onCreated={({ gl, scene }) => { gl.setClearColor(new THREE.Color('#000000')); sceneRef.current = scene; }}
+        >
+          {/* Low ambient so the night side reads as night; the sun light lives with the globe */}
+          <ambientLight intensity={0.15} />
+          {/* Backlight for atmosphere */}
+          <spotLight position={[-50, 50, -50]} intensity={1} color="#4444ff" />
+
+          <Suspense fallback={<Html center><div className="text-white font-mono text-lg animate-pulse">Loading High-Res Earth...</div></Html>}>
+            <Earth 
+              viewMode={controls.viewMode as ViewMode}
+              autoRotate={controls.autoRotate}
+              highlightColor={controls.highlightColor}
+              demStrength={controls.demStrength}
+              dem={dem}
+              pvScale={controls.pvScale}
+              pvColor={controls.pvColor}
+              pvColorMode={controls.pvColorBy as PVColorMode}
+              pvExtrusion={pvExtrusion}
+              pvYieldColoring={pvYieldColoring}
+              layers={stackLayers}
+              layerData={layerData}
+              activeLayer={activeLayer}
+              aodRasters={layerRasters}
+              colorScale={colorScale}
+              pvStations={pvStations}
+              selectedStationId={selectedStationId}
+              rois={rois}
+              roiDraft={roiDraft}
+              clipToRoi={roiControls.clipToRoi}
+              subsolar={subsolar}
+              cityLights={sunControls.cityLights}
+              quality={quality}
+              onLocationPick={handleLocationPick}
+              onStationPick={station => setSelectedStationId(station.id)}
+            />
+          </Suspense>
+
+          <OrbitControls 
+            ref={controlsRef}
+            enablePan={false} 
+            enableZoom={true} 
+            minDistance={ORBIT_DISTANCE_LIMITS.min} 
+            maxDistance={ORBIT_DISTANCE_LIMITS.max}
+            autoRotate={controls.autoRotate && controls.viewMode === ViewMode.GLOBAL && !flight}
+            autoRotateSpeed={0.5}
+            touches={{}} // touch goes through the command bus
+            makeDefault
           />
-        </Suspense>
-
-        <OrbitControls 
-          ref={controlsRef}
-          enablePan={false} 
-          enableZoom={true} 
-          minDistance={15} 
-          maxDistance={300}
-          autoRotate={controls.autoRotate && controls.viewMode === ViewMode.GLOBAL}
-          autoRotateSpeed={0.5}
-          makeDefault
-        />
-      </Canvas>
+          <QualityGovernor
+            auto={autoQuality}
+            level={qualityLevel}
+            targetFps={qualityControls.targetFps}
+            paused={exportJob !== null}
+            onLevel={setAutoQualityLevel}
+            onStats={qualityControls.hud ? setPerfStats : undefined}
+          />
+          <CameraRig flight={flight} onFinish={() => setFlight(null)} />
+          <FigureExporter
+            job={exportJob}
+            legend={controls.particlesEnabled ? { title: `AOD ${activeLayer}`, units: LAYER_UNITS[activeLayer], scale: colorScale } : null}
+            tourPoses={bookmarks.map(b => b.pose)}
+            seriesSpan={aodSeries ? aodSeries.frames.length - 1 : 0}
+            onTimeCursor={timeCursor => setTimeControls({ timeCursor, playing: false })}
+            onProgress={(done, total) => setExportProgress({ done, total })}
+            onFinish={() => setExportJob(null)}
+          />
+        </Canvas>
+      </div>
 
       {/* Hand Tracking Overlay - Bottom Right */}
-      <HandController onGestureUpdate={setGestureState} />
+      <HandController
+        onGestureUpdate={setGestureState}
+        profile={gestureProfile}
+        calibrating={calibrating}
+        onCalibrated={profile => {
+          setGestureProfile(profile);
+          saveGestureProfile(profile);
+          setCalibrating(false);
+        }}
+        onCalibrationEnd={() => setCalibrating(false)}
+        trackingMode={handTrackingControls.trackingMode as HandTrackingMode}
+        detectionRate={handTrackingControls.detectionRate}
+      />
 
       {/* Status UI - Top Left */}
       <div className="absolute top-4 left-4 z-40 p-4 rounded-xl bg-black/40 backdrop-blur-md border border-white/10 text-white font-mono text-sm pointer-events-none select-none">
         <h3 className="text-blue-400 font-bold mb-2 uppercase tracking-widest text-xs">Gesture Control</h3>
         <div className="flex flex-col gap-1 text-xs">
           <div className="flex justify-between w-40">
-            <span>Palm (Rotate):</span>
+            <span>{isTimeMode ? 'Palm (Play):' : 'Palm (Orbit):'}</span>
             <span className={gestureState.isPalmOpen ? "text-green-400 font-bold" : "text-gray-500"}>{gestureState.isPalmOpen ? "ACTIVE" : "OFF"}</span>
           </div>
           <div className="flex justify-between w-40">
-            <span>Fist (Stop):</span>
+            <span>{isTimeMode ? 'Fist (Pause):' : 'Fist:'}</span>
             <span className={gestureState.isFist ? "text-red-400 font-bold" : "text-gray-500"}>{gestureState.isFist ? "ACTIVE" : "OFF"}</span>
           </div>
           <div className="flex justify-between w-40">
-            <span>Pinch (Extrude):</span>
+            <span>{isTimeMode ? 'Pinch (Scrub):' : 'Pinch (Pan):'}</span>
             <span className={gestureState.isPinching ? "text-yellow-400 font-bold" : "text-gray-500"}>{gestureState.isPinching ? "ACTIVE" : "OFF"}</span>
           </div>
+          <div className="flex justify-between w-40">
+            <span>Hands (Zoom):</span>
+            <span className={gestureState.handCount > 1 ? "text-blue-400 font-bold" : "text-gray-500"}>{gestureState.handCount > 1 ? "ACTIVE" : "OFF"}</span>
+          </div>
+          {!isTimeMode && (
+            <div className="text-gray-500 text-[10px] mt-1 w-40">
+              Swipe ← {inputBindings.gesture['Swipe Left'].action} · → {inputBindings.gesture['Swipe Right'].action}<br />
+              Fist: {inputBindings.gesture.Fist.action}
+            </div>
+          )}
         </div>
+        {isTimeMode && aodSeries && (
+          <div className="flex justify-between w-40 mt-2 pt-2 border-t border-white/10 text-xs">
+            <span>Date:</span>
+            <span className="text-blue-300 font-bold">{cursorLabel(aodSeries, timeControls.timeCursor)}</span>
+          </div>
+        )}
       </div>
 
+      <SunPanel time={sceneTime} />
+
+      {qualityControls.hud && (
+        <PerformanceHud stats={perfStats} level={quality} auto={autoQuality} dpr={qualityDpr(quality)} />
+      )}
+
+      {isTimeMode && aodSeries && (
+        <Timeline
+          series={aodSeries}
+          cursor={timeControls.timeCursor}
+          playing={timeControls.playing}
+          speed={timeControls.playSpeed}
+          onCursorChange={timeCursor => setTimeControls({ timeCursor, playing: false })}
+          onPlayingChange={playing => setTimeControls({ playing })}
+          onSpeedChange={playSpeed => setTimeControls({ playSpeed })}
+        />
+      )}
+
+      <Inspector
+        query={query}
+        station={selectedStation}
+        estimate={selectedStation ? pvYields[pvStations.indexOf(selectedStation)] : null}
+        highlightColor={controls.highlightColor}
+        onCloseQuery={() => setQuery(null)}
+        onCloseStation={() => setSelectedStationId(null)}
+        onFlyTo={latLon => setFlight(cameraForLocation(latLon))}
+      />
+
+      <ViewBar
+        viewMode={controls.viewMode as ViewMode}
+        bookmarks={bookmarks}
+        onPreset={handlePreset}
+        onBookmark={bookmark => setFlight(bookmark.pose)}
+        onSaveBookmark={handleSaveBookmark}
+        onDeleteBookmark={name => updateBookmarks(bookmarks.filter(b => b.name !== name))}
+      />
+
+      {layersOpen && (
+        <LayerPanel
+          layers={stackLayers}
+          layerData={layerData}
+          onChange={updateLayer}
+          onMove={(id, delta) => setLayers(moveLayer(layers, id, delta))}
+          onRemove={removeLayer}
+          onAddRaster={() => document.getElementById('file-layer-raster')?.click()}
+          onAddVector={() => document.getElementById('file-layer-vector')?.click()}
+          onClose={() => setLayersOpen(false)}
+        />
+      )}
+
+      {inputOpen && !calibrating && (
+        <InputPanel
+          bindings={inputBindings}
+          profile={gestureProfile}
+          layers={stackLayers}
+          gamepad={gamepad}
+          onBindingsChange={updateInputBindings}
+          onResetBindings={() => updateInputBindings(DEFAULT_INPUT_BINDINGS)}
+          onCalibrate={() => setCalibrating(true)}
+          onResetProfile={() => {
+            setGestureProfile(null);
+            saveGestureProfile(null);
+          }}
+          onClose={() => setInputOpen(false)}
+        />
+      )}
+
+      {helpOpen && (
+        <HelpOverlay bindings={inputBindings} layers={stackLayers} gamepad={gamepad} onClose={() => setHelpOpen(false)} />
+      )}
+
+      {(rois.length > 0 || roiDraft) && (
+        <RoiPanel
+          rois={rois}
+          draft={roiDraft}
+          raster={activeRaster}
+          layerLabel={activeLayer}
+          onRename={(id, name) => setRois(rois.map(r => (r.id === id ? { ...r, name } : r)))}
+          onDelete={id => setRois(rois.filter(r => r.id !== id))}
+          onFlyTo={latLon => setFlight(cameraForLocation(latLon))}
+          onFinishDraft={() => roiDraft && finishDraft(roiDraft)}
+          onUndoPoint={() => roiDraft && setRoiDraft({ ...roiDraft, points: roiDraft.points.slice(0, -1) })}
+          onCancelDraft={() => setRoiDraft(null)}
+        />
+      )}
+
+      {importReport && (
+        <ImportReport {...importReport} onClose={() => setImportReport(null)} />
+      )}
+
       <div className="absolute top-4 right-4 z-50">
-         <Leva fill flat />
+         <Leva fill flat hidden={KIOSK} />
       </div>
       
+      {controls.particlesEnabled && (
+        <Legend title={`AOD ${activeLayer}`} units={LAYER_UNITS[activeLayer]} scale={colorScale} />
+      )}
+
+      {statsOpen && (
+        <StatsPanel
+          stations={pvStations}
+          rasters={aodRasters}
+          selectedId={selectedStationId}
+          highlightColor={controls.highlightColor}
+          onSelectStation={station => setSelectedStationId(station.id)}
+          onClose={() => setStatsOpen(false)}
+        />
+      )}
+
+      {exportJob && (
+        <ExportStatus
+          label={exportJob.kind === 'image' ? 'Exporting PNG' : 'Recording WebM'}
+          done={exportProgress.done}
+          total={exportProgress.total}
+          onCancel={() => setExportJob(null)}
+        />
+      )}
+
+      <PVLegend extrusion={pvExtrusion} colorMode={pvColorBy} color={controls.pvColor} yieldColoring={pvYieldColoring} />
+
       {/* Upload Instructions - Bottom Left */}
       <div className="absolute bottom-4 left-4 z-40 text-left text-gray-500 text-[10px] pointer-events-none">
-        <p>AOD Mean/Slope Data: Visualized on Hobq (40°N, 108°E)</p>
-        <p>Terrain: 4x Exaggerated DEM</p>
+        {activeRaster ? (
+          <p>
+            AOD {controls.activeLayer}: {activeRaster.name} ({activeRaster.width}×{activeRaster.height} px,
+            {' '}{activeRaster.bounds.south.toFixed(2)}–{activeRaster.bounds.north.toFixed(2)}°N,
+            {' '}{activeRaster.bounds.west.toFixed(2)}–{activeRaster.bounds.east.toFixed(2)}°E,
+            {' '}range {activeRaster.min.toFixed(3)} – {activeRaster.max.toFixed(3)})
+          </p>
+        ) : (
+          <p>AOD Mean/Slope Data: Demo overlay on Hobq (40°N, 108°E) — upload a GeoTIFF to replace</p>
+        )}
+        {dem ? (
+          <p>
+            Terrain: {dem.name}, {dem.min.toFixed(0)}–{dem.max.toFixed(0)} m, {controls.demStrength}× vertical exaggeration
+          </p>
+        ) : (
+          <p>Terrain: no DEM loaded (flat globe) — upload a GeoTIFF or terrain-RGB PNG</p>
+        )}
+        {linkTooLong && (
+          <p className="text-amber-400">Scene too large for the link — save it as a session or export JSON to share it</p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,46 @@
+import React from 'react';
+
+export type CalibrationStep = 'open' | 'fist' | 'failed';
+
+interface CalibrationWizardProps {
+  step: CalibrationStep;
+  progress: number; // 0–1 of the current hold
+  handSeen: boolean;
+  error: string | null;
+  onRetry: () => void;
+  onCancel: () => void;
+}
+
+const INSTRUCTIONS: Record<Exclude<CalibrationStep, 'failed'>, { title: string; text: string }> = {
+  open: { title: 'Step 1 of 2 · Open hand', text: 'Hold one hand up, fingers spread, palm facing the camera.' },
+  fist: { title: 'Step 2 of 2 · Fist', text: 'Now close the same hand into a fist and hold it.' },
+};
+
+// Guides the user through the two held poses the gesture profile is measured from
+const CalibrationWizard: React.FC<CalibrationWizardProps> = ({ step, progress, handSeen, error, onRetry, onCancel }) => (
+  <div className="absolute top-20 left-1/2 -translate-x-1/2 z-50 w-96 p-4 rounded-xl bg-black/80 backdrop-blur-md border border-white/20 text-white font-mono text-xs shadow-2xl">
+    <div className="flex items-center justify-between mb-3">
+      <span className="text-blue-400 font-bold uppercase tracking-widest text-[10px]">Gesture Calibration</span>
+      <button onClick={onCancel} className="text-gray-400 hover:text-white">✕</button>
+    </div>
+    {step === 'failed' ? (
+      <>
+        <p className="text-red-300 mb-3">{error}</p>
+        <button onClick={onRetry} className="w-full py-1 rounded border border-white/20 hover:border-white/50">Try again</button>
+      </>
+    ) : (
+      <>
+        <p className="font-bold mb-1">{INSTRUCTIONS[step].title}</p>
+        <p className="text-gray-300 mb-3">{INSTRUCTIONS[step].text}</p>
+        <div className="h-2 rounded bg-white/10 overflow-hidden">
+          <div className="h-full bg-green-400 transition-[width] duration-100" style={{ width: `${Math.round(progress * 100)}%` }} />
+        </div>
+        <p className="mt-2 text-[10px] text-gray-500">
+          {handSeen ? 'Hold still…' : 'Waiting for exactly one hand in view'}
+        </p>
+      </>
+    )}
+  </div>
+);
+
+export default CalibrationWizard;
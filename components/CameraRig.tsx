@@ -0,0 +1,88 @@
+/// <reference types="@react-three/fiber" />
+import React, { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { useFrame, useThree } from '@react-three/fiber';
+import { CameraPosition } from '../types';
+import { GLOBE_GROUP_NAME } from '../constants';
+import { easeInOutCubic, flightDuration, interpolateCameraPose } from '../utils/flight';
+
+interface CameraRigProps {
+  flight: CameraPosition | null; // destination in the globe frame
+  onFinish: () => void; // arrived or interrupted
+}
+
+interface ActiveFlight {
+  from: CameraPosition;
+  to: CameraPosition;
+  start: number;
+  duration: number;
+}
+
+// The default (drei) OrbitControls, typed as far as the rig needs it
+type OrbitLike = THREE.EventDispatcher<any> & { target: THREE.Vector3; update: () => void };
+
+/**
+ * Animates the default camera and OrbitControls target along eased
+ * great-circle flights. Poses are in the globe frame and re-projected every
+ * frame, so a flight lands on the right place even while the globe spins.
+ * Any pointer/wheel input on the controls interrupts the flight.
+ */
+const CameraRig: React.FC<CameraRigProps> = ({ flight, onFinish }) => {
+  const camera = useThree(state => state.camera) as THREE.PerspectiveCamera;
+  const controls = useThree(state => state.controls) as OrbitLike | null;
+  const scene = useThree(state => state.scene);
+  const clock = useThree(state => state.clock);
+  const activeRef = useRef<ActiveFlight | null>(null);
+  const onFinishRef = useRef(onFinish);
+  onFinishRef.current = onFinish;
+
+  const globeMatrix = () => scene.getObjectByName(GLOBE_GROUP_NAME)?.matrixWorld ?? new THREE.Matrix4();
+
+  // Start from wherever the camera is now, expressed in the globe frame
+  useEffect(() => {
+    if (!flight || !controls) {
+      activeRef.current = null;
+      return;
+    }
+    const toGlobe = globeMatrix().clone().invert();
+    const from: CameraPosition = {
+      position: camera.position.clone().applyMatrix4(toGlobe).toArray() as [number, number, number],
+      target: controls.target.clone().applyMatrix4(toGlobe).toArray() as [number, number, number],
+      fov: camera.fov,
+    };
+    activeRef.current = { from, to: flight, start: clock.elapsedTime, duration: flightDuration(from, flight) };
+  }, [flight, controls]);
+
+  // User input takes over immediately
+  useEffect(() => {
+    if (!controls) return;
+    const interrupt = () => {
+      if (!activeRef.current) return;
+      activeRef.current = null;
+      onFinishRef.current();
+    };
+    controls.addEventListener('start', interrupt);
+    return () => controls.removeEventListener('start', interrupt);
+  }, [controls]);
+
+  useFrame(() => {
+    const active = activeRef.current;
+    if (!active || !controls) return;
+    const t = Math.min(1, (clock.elapsedTime - active.start) / active.duration);
+    const pose = interpolateCameraPose(active.from, active.to, easeInOutCubic(t));
+    const matrix = globeMatrix();
+    camera.position.fromArray(pose.position).applyMatrix4(matrix);
+    controls.target.fromArray(pose.target).applyMatrix4(matrix);
+    camera.fov = pose.fov;
+    camera.updateProjectionMatrix();
+    controls.update();
+    if (t >= 1) {
+      activeRef.current = null;
+      onFinishRef.current();
+    }
+  });
+
+  return null;
+};
+
+export default CameraRig;
@@ -0,0 +1,35 @@
+/// <reference types="@react-three/fiber" />
+import React, { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { LatLon, MapLayer } from '../types';
+import { layerMaterial } from '../utils/layers';
+import { drapedLinePositions } from '../utils/vectors';
+
+interface DrapedLinesProps {
+  lines: LatLon[][];
+  radius: number;
+  color: string;
+  layer?: Pick<MapLayer, 'opacity' | 'blend'>;
+  renderOrder?: number;
+  stepDeg?: number;
+}
+
+const DEFAULT_STYLE: Pick<MapLayer, 'opacity' | 'blend'> = { opacity: 0.95, blend: 'Normal' };
+
+// Polylines laid on a sphere of the given radius, in the globe frame
+const DrapedLines: React.FC<DrapedLinesProps> = ({ lines, radius, color, layer = DEFAULT_STYLE, renderOrder = 0, stepDeg }) => {
+  const geometry = useMemo(() => {
+    const geom = new THREE.BufferGeometry();
+    geom.setAttribute('position', new THREE.BufferAttribute(drapedLinePositions(lines, radius, stepDeg), 3));
+    return geom;
+  }, [lines, radius, stepDeg]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <lineSegments geometry={geometry} renderOrder={renderOrder}>
+      <lineBasicMaterial key={layer.blend} color={color} {...layerMaterial(layer)} />
+    </lineSegments>
+  );
+};
+
+export default DrapedLines;
@@ -1,196 +1,321 @@
 /// <reference types="@react-three/fiber" />
-import React, { useRef, useMemo, Suspense, useEffect, useState } from 'react';
-import { useFrame, useLoader } from '@react-three/fiber';
-import { TextureLoader, Vector3, DoubleSide, AdditiveBlending, CanvasTexture, Color } from 'three';
+import React, { useRef, useMemo, useEffect, useState } from 'react';
+import { useFrame, ThreeEvent } from '@react-three/fiber';
+import { Vector3, DoubleSide } from 'three';
 import * as THREE from 'three';
 import { Sphere, Stars } from '@react-three/drei';
 import SolarPanels from './SolarPanels';
-import { EARTH_RADIUS, HOBQ_CENTER, TEXTURES } from '../constants';
-import { ViewMode } from '../types';
+import RasterPatch from './RasterPatch';
+import RoiLayer from './RoiLayer';
+import { ReferenceLabels, ReferenceLines } from './ReferenceLayers';
+import DrapedLines from './DrapedLines';
+import { DEMO_AOD_RASTER, EARTH_RADIUS, GLOBE_GROUP_NAME, STARS_OBJECT_NAME, SUN_LIGHT_DISTANCE } from '../constants';
+import { ViewMode, AODLayer, AODRaster, PVStationData, LatLon, DEMRaster, PVColorMode, PVExtrusion, RegionOfInterest, ROIDraft, MapLayer, LayerData, QualityLevel } from '../types';
+import { ColorScale, autoRange, createColorScale } from '../utils/colormap';
+import { layerMaterial } from '../utils/layers';
+import { buildTerrainGeometry, maxTerrainLift } from '../utils/terrain';
+import { useAssetTexture } from '../utils/assets';
+import { GLOBE_MESH_ROTATION, latLonToVector3, vector3ToLatLon } from '../utils/geodesy';
+import { nightLightsHook } from '../utils/nightLights';
+import { YieldColoring } from '../utils/pvYield';
 
 interface EarthProps {
   viewMode: ViewMode;
   autoRotate: boolean;
   highlightColor: string;
   demStrength: number;
+  dem?: DEMRaster;
   pvScale: number;
   pvColor: string;
-  particlesEnabled: boolean;
-  activeLayer: 'Mean' | 'Slope';
+  pvColorMode: PVColorMode;
+  pvExtrusion: PVExtrusion;
+  pvYieldColoring: YieldColoring | null;
+  layers: MapLayer[]; // drawn bottom to top
+  layerData: LayerData;
+  activeLayer: AODLayer;
+  aodRasters: Partial<Record<AODLayer, AODRaster>>;
+  colorScale: ColorScale;
+  pvStations: PVStationData[];
+  selectedStationId: string | null;
+  rois: RegionOfInterest[];
+  roiDraft: ROIDraft | null;
+  clipToRoi: boolean;
+  subsolar: LatLon; // where the sun is overhead at the scene clock
+  cityLights: boolean;
+  quality: QualityLevel; // geometry detail, shadows and star count
+  onLocationPick: (latLon: LatLon, screen: { x: number; y: number }) => void;
+  onStationPick: (station: PVStationData) => void;
 }
 
-// 1. Realistic Earth Surface with DEM
-const RealisticSurface: React.FC<{ demStrength: number }> = ({ demStrength }) => {
-  const [colorMap, normalMap, specularMap] = useLoader(TextureLoader, [
-    TEXTURES.color,
-    TEXTURES.normal,
-    TEXTURES.specular
-  ]);
+// 1. Realistic Earth Surface (relief comes from the regional DEM patch below)
+// Plain ocean-blue globe while textures load or when they are missing
+const FALLBACK_SURFACE_COLOR = '#1e3a8a';
+
+// Maps may arrive one by one (or never); remount the material when the set changes
+const textureKey = (...maps: (THREE.Texture | null)[]) => maps.map(m => (m ? 1 : 0)).join('');
+
+// City lights for the night side, or null when off or the texture is missing
+type NightLighting = { map: THREE.Texture, sunDirection: { value: THREE.Vector3 } } | null;
+
+const nightHook = (night: NightLighting) => (night ? nightLightsHook(night.map, night.sunDirection) : undefined);
+
+const RealisticSurface: React.FC<{ night: NightLighting }> = ({ night }) => {
+  const colorMap = useAssetTexture('color');
+  const normalMap = useAssetTexture('normal');
+  const specularMap = useAssetTexture('specular');
+  const onBeforeCompile = useMemo(() => nightHook(night), [night]);
+
+  if (!colorMap) return <meshStandardMaterial color={FALLBACK_SURFACE_COLOR} />;
 
   return (
     <meshStandardMaterial 
+        key={textureKey(colorMap, normalMap, specularMap, night?.map ?? null)}
+        onBeforeCompile={onBeforeCompile}
         map={colorMap} 
-        normalMap={normalMap}
+        normalMap={normalMap ?? undefined}
         normalScale={new THREE.Vector2(1, 1)}
-        roughnessMap={specularMap}
+        roughnessMap={specularMap ?? undefined}
         roughness={0.8}
         metalness={0.1}
-        displacementMap={normalMap} // Using topology as height map
-        displacementScale={demStrength * 2} // Exaggerate terrain
     />
   );
 };
 
+// 1b. High-resolution DEM patch, exaggerated in true metres and faded into the sphere
+const TerrainPatch: React.FC<{ dem: DEMRaster, exaggeration: number, night: NightLighting }> = ({ dem, exaggeration, night }) => {
+  const colorMap = useAssetTexture('color');
+  const specularMap = useAssetTexture('specular');
+  // The hook samples the lights with the colour map's UVs
+  const onBeforeCompile = useMemo(() => (colorMap ? nightHook(night) : undefined), [colorMap, night]);
+  const geometry = useMemo(() => buildTerrainGeometry(dem, exaggeration), [dem, exaggeration]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <mesh geometry={geometry} receiveShadow castShadow>
+      <meshStandardMaterial
+        key={textureKey(colorMap, specularMap, night?.map ?? null)}
+        onBeforeCompile={onBeforeCompile}
+        color={colorMap ? '#ffffff' : FALLBACK_SURFACE_COLOR}
+        map={colorMap ?? undefined}
+        roughnessMap={specularMap ?? undefined}
+        roughness={0.8}
+        metalness={0.1}
+      />
+    </mesh>
+  );
+};
+
+type LayerStyle = Pick<MapLayer, 'opacity' | 'blend'>;
+
 // 2. Clouds Layer
-const Clouds: React.FC = () => {
-    const cloudMap = useLoader(TextureLoader, TEXTURES.clouds);
+const Clouds: React.FC<{ layer: LayerStyle, renderOrder: number, segments: number }> = ({ layer, renderOrder, segments }) => {
+    const cloudMap = useAssetTexture('clouds');
     const meshRef = useRef<THREE.Mesh>(null);
     
     useFrame(() => {
         if(meshRef.current) meshRef.current.rotation.y += 0.0001;
     });
 
+    if (!cloudMap) return null;
+
     return (
-        <mesh ref={meshRef}>
-            <sphereGeometry args={[EARTH_RADIUS + 0.2, 64, 64]} />
+        <mesh ref={meshRef} renderOrder={renderOrder}>
+            <sphereGeometry args={[EARTH_RADIUS + 0.2, segments, segments]} />
             <meshStandardMaterial 
+                key={layer.blend}
                 map={cloudMap} 
-                transparent 
-                opacity={0.8} 
-                blending={AdditiveBlending} 
                 side={DoubleSide}
-                depthWrite={false}
+                {...layerMaterial(layer)}
             />
         </mesh>
     )
 }
 
-// 3. Procedural AOD Data Overlay (Simulating the User's Map)
-const HobqDataOverlay: React.FC<{ activeLayer: 'Mean' | 'Slope', opacity: number }> = ({ activeLayer, opacity }) => {
-    const texture = useMemo(() => {
-        const canvas = document.createElement('canvas');
-        canvas.width = 512;
-        canvas.height = 256;
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-            // Create a gradient that matches the PDF screenshots
-            // Mean: Green -> Yellow -> Red
-            // Slope: Diverging Green -> Grey -> Red
-            const grad = ctx.createLinearGradient(0, 0, 512, 0);
-            
-            if (activeLayer === 'Mean') {
-                grad.addColorStop(0, '#558b2f'); // Dark Green (Low AOD)
-                grad.addColorStop(0.3, '#d4e157'); // Light Green
-                grad.addColorStop(0.6, '#ffee58'); // Yellow
-                grad.addColorStop(0.8, '#ff7043'); // Orange
-                grad.addColorStop(1, '#8d6e63'); // Brown/Red (High AOD)
-            } else {
-                // Slope Trend
-                grad.addColorStop(0, '#1b5e20'); // Significant Decrease
-                grad.addColorStop(0.4, '#a5d6a7'); // Slight Decrease
-                grad.addColorStop(0.5, '#eeeeee'); // No Change
-                grad.addColorStop(0.6, '#ffccbc'); // Slight Increase
-                grad.addColorStop(1, '#b71c1c'); // Significant Increase
-            }
-
-            ctx.fillStyle = grad;
-            ctx.fillRect(0, 0, 512, 256);
-
-            // Add some "noise" to simulate the irregular desert shape
-            ctx.globalCompositeOperation = 'destination-in';
-            const noise = ctx.createRadialGradient(256, 128, 20, 256, 128, 200);
-            noise.addColorStop(0, 'rgba(0,0,0,1)');
-            noise.addColorStop(0.8, 'rgba(0,0,0,0.8)');
-            noise.addColorStop(1, 'rgba(0,0,0,0)');
-            ctx.fillStyle = noise;
-            ctx.fillRect(0,0, 512, 256);
-        }
-        return new CanvasTexture(canvas);
-    }, [activeLayer]);
-
-    // Position this overlay exactly over Hobq (40.2N, 108.5E)
-    const position = useMemo(() => {
-        const phi = (90 - HOBQ_CENTER.lat) * (Math.PI / 180);
-        const theta = (HOBQ_CENTER.lon + 180) * (Math.PI / 180);
-        const r = EARTH_RADIUS + 0.3; // Slightly above terrain
-        return new Vector3(
-            -(r * Math.sin(phi) * Math.cos(theta)),
-            (r * Math.cos(phi)),
-            (r * Math.sin(phi) * Math.sin(theta))
-        );
-    }, []);
-
-    // Rotate to align with the surface
-    const quaternion = useMemo(() => {
-        const up = new Vector3(0, 1, 0);
-        const target = position.clone().normalize();
-        return new THREE.Quaternion().setFromUnitVectors(up, target);
-    }, [position]);
+// 3. AOD Data Overlay: the active layer, or the demo raster until a GeoTIFF is loaded
+const HobqDataOverlay: React.FC<{ raster?: AODRaster, colorScale: ColorScale, layer: LayerStyle, renderOrder: number, dem?: DEMRaster, demStrength: number, clip?: RegionOfInterest[] }> = ({ raster, clip, ...rest }) =>
+    // The demo has no real pixels, so it is never clipped
+    raster ? <RasterPatch raster={raster} clip={clip} {...rest} /> : <RasterPatch raster={DEMO_AOD_RASTER} {...rest} />;
 
-    return (
-        <mesh position={position} quaternion={quaternion}>
-            {/* A curved plane segment representing the region */}
-            <planeGeometry args={[6, 3, 64, 64]} /> 
-            <meshStandardMaterial 
-                map={texture} 
-                transparent 
-                opacity={opacity} 
-                side={DoubleSide}
-                displacementMap={texture} // Use the data color intensity as height too!
-                displacementScale={1.5}
-                emissiveMap={texture}
-                emissiveIntensity={0.5}
-                emissive={new Color(0xffffff)}
-            />
-        </mesh>
+// User-added raster, stretched over its own value range with the layer's palette
+const UserRasterPatch: React.FC<{ raster: AODRaster, layer: MapLayer, renderOrder: number, dem?: DEMRaster, demStrength: number }> = ({ raster, layer, ...rest }) => {
+    const palette = layer.palette ?? 'Viridis';
+    const colorScale = useMemo(
+        () => createColorScale({ palette, ...autoRange(raster, palette, 0), center: 0, classification: 'linear', classes: 5 }, raster),
+        [raster, palette]
     );
+    return <RasterPatch raster={raster} colorScale={colorScale} layer={layer} {...rest} />;
 };
 
+// Kinds drawn outside the spinning globe group
+const SKY_LAYERS = new Set<MapLayer['kind']>(['stars', 'atmosphere', 'clouds']);
+
+// Sun shadow frustum: the whole globe plus exaggerated relief (three's default spans ±5 units)
+const SHADOW_EXTENT = EARTH_RADIUS * 1.2;
+const SHADOW_MAP_SIZE = 2048;
+// About two shadow-map texels, which keeps the sphere from shadowing itself
+const SHADOW_NORMAL_BIAS = (4 * SHADOW_EXTENT) / SHADOW_MAP_SIZE;
+
 const Earth: React.FC<EarthProps> = ({ 
-  viewMode, autoRotate, highlightColor, demStrength, pvScale, pvColor, particlesEnabled, activeLayer
+  viewMode, autoRotate, highlightColor, demStrength, dem, pvScale, pvColor, pvColorMode, pvExtrusion, pvYieldColoring, layers, layerData, activeLayer, aodRasters, colorScale, pvStations,
+  selectedStationId, rois, roiDraft, clipToRoi, subsolar, cityLights, quality, onLocationPick, onStationPick
 }) => {
   const earthRef = useRef<THREE.Mesh>(null);
   const groupRef = useRef<THREE.Group>(null);
+  // Everything placed by lat/lon lives in this group so it spins with the surface
+  const globeRef = useRef<THREE.Group>(null);
+  const sunRef = useRef<THREE.DirectionalLight>(null);
+
+  // World-space direction to the sun, shared by the night-lights shaders
+  const sunDirection = useMemo(() => ({ value: new THREE.Vector3(1, 0, 0) }), []);
+  const nightMap = useAssetTexture('night');
+  const night = useMemo<NightLighting>(() => (cityLights && nightMap ? { map: nightMap, sunDirection } : null), [cityLights, nightMap, sunDirection]);
   
   useFrame((state) => {
-    if (earthRef.current && autoRotate && viewMode === ViewMode.GLOBAL) {
-      earthRef.current.rotation.y += 0.0005;
+    if (!globeRef.current) return;
+    if (viewMode !== ViewMode.GLOBAL) {
+      // Camera presets are defined in the unrotated globe frame
+      globeRef.current.rotation.y = 0;
+    } else if (autoRotate) {
+      globeRef.current.rotation.y += 0.0005;
     }
+    sunRef.current?.getWorldPosition(sunDirection.value).normalize();
   });
 
+  // Draped layers sit slightly above terrain, including the highest exaggerated DEM peak
+  const overlayLift = Math.max(0.3, maxTerrainLift(dem, demStrength) + 0.05);
+
+  // Clicks on the surface or overlay, converted back to lat/lon in the globe frame
+  const handleGlobeClick = (e: ThreeEvent<MouseEvent>) => {
+    if (e.delta > 4 || !globeRef.current) return; // ignore orbit drags
+    e.stopPropagation();
+    const local = globeRef.current.worldToLocal(e.point.clone());
+    onLocationPick(vector3ToLatLon(local), { x: e.nativeEvent.clientX, y: e.nativeEvent.clientY });
+  };
+
+  // The frustum is not a prop R3F can apply: the projection has to be rebuilt after it changes
+  useEffect(() => {
+    const shadow = sunRef.current?.shadow;
+    if (!shadow) return;
+    const camera = shadow.camera;
+    camera.left = camera.bottom = -SHADOW_EXTENT;
+    camera.right = camera.top = SHADOW_EXTENT;
+    camera.near = SUN_LIGHT_DISTANCE - SHADOW_EXTENT;
+    camera.far = SUN_LIGHT_DISTANCE + SHADOW_EXTENT;
+    camera.updateProjectionMatrix();
+    shadow.mapSize.set(SHADOW_MAP_SIZE, SHADOW_MAP_SIZE);
+    shadow.normalBias = SHADOW_NORMAL_BIAS;
+  }, []);
+
+  const shown = (kind: MapLayer['kind']) => layers.some(l => l.kind === kind && l.visible);
+
+  // One registry entry as scene content; `order` is its place in the stack
+  const renderLayer = (layer: MapLayer, order: number) => {
+    switch (layer.kind) {
+      case 'stars':
+        return (
+          <group key={layer.id} name={STARS_OBJECT_NAME}>
+            <Stars radius={300} depth={50} count={quality.stars} factor={4} saturation={0} fade speed={1} />
+          </group>
+        );
+      case 'atmosphere':
+        return (
+          <Sphere key={layer.id} args={[EARTH_RADIUS + 2, quality.skySegments, quality.skySegments]} renderOrder={order}>
+            <meshPhongMaterial key={layer.blend} color={0x4488ff} side={DoubleSide} {...layerMaterial(layer)} />
+          </Sphere>
+        );
+      case 'clouds':
+        return <Clouds key={layer.id} layer={layer} renderOrder={order} segments={quality.skySegments} />;
+      case 'aod':
+        return (
+          <HobqDataOverlay
+            key={layer.id}
+            raster={aodRasters[activeLayer]}
+            colorScale={colorScale}
+            layer={layer}
+            renderOrder={order}
+            dem={dem}
+            demStrength={demStrength}
+            clip={clipToRoi && rois.length > 0 ? rois : undefined}
+          />
+        );
+      case 'raster': {
+        const raster = layerData[layer.id];
+        return raster && 'data' in raster
+          ? <UserRasterPatch key={layer.id} raster={raster} layer={layer} renderOrder={order} dem={dem} demStrength={demStrength} />
+          : null;
+      }
+      case 'vector': {
+        const vector = layerData[layer.id];
+        return vector && 'lines' in vector
+          ? <DrapedLines key={layer.id} lines={vector.lines} radius={EARTH_RADIUS + overlayLift + 0.01} color={layer.color ?? '#ffffff'} layer={layer} renderOrder={order} />
+          : null;
+      }
+      case 'graticule':
+      case 'borders':
+      case 'rivers':
+      case 'desertOutline':
+        return (
+          <ReferenceLines key={layer.id} kind={layer.kind} layer={layer} viewMode={viewMode} radius={EARTH_RADIUS + overlayLift + 0.01} renderOrder={order} />
+        );
+      case 'labels':
+        return (
+          <ReferenceLabels
+            key={layer.id}
+            layer={layer}
+            viewMode={viewMode}
+            radius={EARTH_RADIUS + overlayLift + 0.01}
+            graticule={shown('graticule')}
+            rivers={shown('rivers')}
+          />
+        );
+      case 'roi':
+        return <RoiLayer key={layer.id} rois={rois} draft={roiDraft} lift={overlayLift + 0.02} layer={layer} renderOrder={order} />;
+      case 'pv':
+        return (
+          <SolarPanels
+            key={layer.id}
+            stations={pvStations}
+            extrusion={pvExtrusion}
+            scaleMultiplier={pvScale}
+            color={pvColor}
+            colorMode={pvColorMode}
+            yieldColoring={pvYieldColoring}
+            highlightColor={highlightColor}
+            selectedId={selectedStationId}
+            onSelect={onStationPick}
+            dem={dem}
+            demStrength={demStrength}
+          />
+        );
+    }
+  };
+
+  const stack = layers.map((layer, i) => ({ layer, order: i + 1 })).filter(({ layer }) => layer.visible);
+
   return (
     <group ref={groupRef}>
-      {/* 1. Base Earth with DEM */}
-      <Sphere ref={earthRef} args={[EARTH_RADIUS, 128, 128]} rotation={[0, -Math.PI / 2, 0]}>
-        <Suspense fallback={<meshStandardMaterial color="#1e3a8a" />}>
-            <RealisticSurface demStrength={demStrength} />
-        </Suspense>
-      </Sphere>
-
-      {/* 2. Clouds Layer */}
-      <Suspense fallback={null}>
-         <Clouds />
-      </Suspense>
-
-      {/* 3. Atmosphere Glow */}
-      <Sphere args={[EARTH_RADIUS + 2, 64, 64]}>
-         <meshPhongMaterial
-            color={0x4488ff}
-            transparent
-            opacity={0.1}
-            side={DoubleSide}
-            blending={AdditiveBlending}
-            depthWrite={false}
-         />
-      </Sphere>
-
-      <Stars radius={300} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
-
-      {/* 4. AOD Data Visualization Overlay */}
-      <HobqDataOverlay activeLayer={activeLayer} opacity={particlesEnabled ? 0.9 : 0} />
-
-      {/* 5. PV Stations */}
-      <SolarPanels scaleMultiplier={pvScale} color={pvColor} />
+      <group ref={globeRef} name={GLOBE_GROUP_NAME} onClick={handleGlobeClick}>
+        {/* Base Earth with DEM, always at the bottom of the stack */}
+        <Sphere ref={earthRef} args={[EARTH_RADIUS, quality.globeSegments, quality.globeSegments]} rotation={GLOBE_MESH_ROTATION}>
+          <RealisticSurface night={night} />
+        </Sphere>
+
+        {dem && <TerrainPatch dem={dem} exaggeration={demStrength} night={night} />}
+
+        {/* The sun sits over the subsolar point, so day and night follow the globe as it spins */}
+        <directionalLight
+          ref={sunRef}
+          position={latLonToVector3(subsolar.lat, subsolar.lon, SUN_LIGHT_DISTANCE)}
+          intensity={3}
+          castShadow={quality.shadows}
+        />
+
+        {/* Everything placed by lat/lon, in layer order */}
+        {stack.filter(({ layer }) => !SKY_LAYERS.has(layer.kind)).map(({ layer, order }) => renderLayer(layer, order))}
+      </group>
+
+      {/* Clouds, atmosphere and stars do not spin with the globe */}
+      {stack.filter(({ layer }) => SKY_LAYERS.has(layer.kind)).map(({ layer, order }) => renderLayer(layer, order))}
     </group>
   );
 };
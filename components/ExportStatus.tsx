@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface ExportStatusProps {
+  label: string;
+  done: number;
+  total: number;
+  onCancel: () => void;
+}
+
+// Progress for a running figure/video export
+const ExportStatus: React.FC<ExportStatusProps> = ({ label, done, total, onCancel }) => (
+  <div className="absolute top-20 left-1/2 -translate-x-1/2 z-50 w-80 p-3 rounded-xl bg-black/70 backdrop-blur-md border border-white/20 text-white font-mono text-[11px]">
+    <div className="flex items-center justify-between mb-2">
+      <span className="text-blue-400 font-bold uppercase tracking-widest text-[10px]">{label}</span>
+      <button onClick={onCancel} className="text-gray-400 hover:text-white">Cancel</button>
+    </div>
+    <div className="h-1.5 rounded bg-white/10 overflow-hidden">
+      <div className="h-full bg-blue-500" style={{ width: `${total > 0 ? (done / total) * 100 : 0}%` }} />
+    </div>
+    <div className="mt-1 text-gray-400">{total > 1 ? `Frame ${done} / ${total}` : 'Rendering…'}</div>
+  </div>
+);
+
+export default ExportStatus;
@@ -0,0 +1,121 @@
+/// <reference types="@react-three/fiber" />
+import React, { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { useThree } from '@react-three/fiber';
+import { CameraPosition, ExportJob } from '../types';
+import { GLOBE_GROUP_NAME } from '../constants';
+import { FigureLegend, canvasToPng, renderFigure } from '../utils/figure';
+import { createWebmWriter } from '../utils/video';
+import { orbitPose, tourPose } from '../utils/flight';
+import { downloadBlob } from '../utils/download';
+
+interface FigureExporterProps {
+  job: ExportJob | null;
+  legend: FigureLegend | null;
+  tourPoses: CameraPosition[]; // bookmark poses for the 'Bookmarks' path
+  seriesSpan: number; // last time cursor value, 0 without a series
+  onTimeCursor: (cursor: number) => void;
+  onProgress: (done: number, total: number) => void;
+  onFinish: () => void; // done, failed or cancelled
+}
+
+type OrbitLike = { target: THREE.Vector3; enabled: boolean; update: () => void };
+
+// Let React commit state changes (time cursor) and rebuild textures before the next frame
+const nextPaint = () => new Promise<void>(resolve => requestAnimationFrame(() => requestAnimationFrame(() => resolve())));
+
+const timestamp = () => new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+/**
+ * Renders export jobs from inside the Canvas. Videos are rendered frame by
+ * frame with the render loop paused, so every frame shows exactly the
+ * scripted camera/time state regardless of how long it takes to draw.
+ */
+const FigureExporter: React.FC<FigureExporterProps> = ({ job, legend, tourPoses, seriesSpan, onTimeCursor, onProgress, onFinish }) => {
+  const { gl, scene, camera, setFrameloop } = useThree();
+  const controls = useThree(state => state.controls) as unknown as OrbitLike | null;
+  const legendRef = useRef(legend);
+  legendRef.current = legend;
+  const callbacksRef = useRef({ onTimeCursor, onProgress, onFinish });
+  callbacksRef.current = { onTimeCursor, onProgress, onFinish };
+
+  useEffect(() => {
+    if (!job || !controls) return;
+    let cancelled = false;
+    const perspective = camera as THREE.PerspectiveCamera;
+    const target = () => ({ gl, scene, camera: perspective, target: controls.target });
+    const { onTimeCursor, onProgress, onFinish } = callbacksRef.current;
+
+    const run = async () => {
+      if (job.kind === 'image') {
+        const canvas = renderFigure(target(), job.figure, legendRef.current);
+        const png = await canvasToPng(canvas, job.figure.dpi);
+        downloadBlob(png, `hobq-aod-${timestamp()}.png`);
+        return;
+      }
+
+      const { figure, video } = job;
+      const total = Math.max(1, Math.round(video.fps * video.duration));
+      const globe = scene.getObjectByName(GLOBE_GROUP_NAME)?.matrixWorld ?? new THREE.Matrix4();
+      const toGlobe = globe.clone().invert();
+      const start: CameraPosition = {
+        position: perspective.position.clone().applyMatrix4(toGlobe).toArray() as [number, number, number],
+        target: controls.target.clone().applyMatrix4(toGlobe).toArray() as [number, number, number],
+        fov: perspective.fov,
+      };
+      const applyPose = (pose: CameraPosition) => {
+        perspective.position.fromArray(pose.position).applyMatrix4(globe);
+        controls.target.fromArray(pose.target).applyMatrix4(globe);
+        perspective.fov = pose.fov;
+        perspective.lookAt(controls.target);
+        perspective.updateProjectionMatrix();
+        perspective.updateMatrixWorld();
+      };
+
+      const writer = await createWebmWriter(figure.width, figure.height, video.fps);
+      setFrameloop('never');
+      controls.enabled = false;
+      try {
+        for (let i = 0; i < total && !cancelled; i++) {
+          if (video.path === 'Orbit') {
+            // Stop one step short of a full turn so the clip loops cleanly
+            applyPose(orbitPose(start, (2 * Math.PI * i) / total));
+          } else if (video.path === 'Bookmarks') {
+            applyPose(tourPose([start, ...tourPoses], total > 1 ? i / (total - 1) : 0));
+          } else {
+            onTimeCursor(total > 1 ? (i / (total - 1)) * seriesSpan : 0);
+          }
+          await nextPaint();
+          if (cancelled) break;
+          await writer.addFrame(renderFigure(target(), figure, legendRef.current), i);
+          onProgress(i + 1, total);
+        }
+        if (cancelled) {
+          writer.abort();
+        } else {
+          downloadBlob(await writer.finish(), `hobq-aod-${video.path.toLowerCase().replace(' ', '-')}-${timestamp()}.webm`);
+        }
+      } finally {
+        applyPose(start);
+        controls.enabled = true;
+        controls.update();
+        setFrameloop('always');
+      }
+    };
+
+    run()
+      .catch((err: any) => {
+        console.error("Export failed:", err);
+        alert(`Export failed: ${err.message}`);
+      })
+      .finally(() => {
+        if (!cancelled) onFinish();
+      });
+
+    return () => { cancelled = true; };
+  }, [job, controls]);
+
+  return null;
+};
+
+export default FigureExporter;
@@ -1,31 +1,142 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
-import { HandGestureState } from '../types';
+import { GestureProfile, HandGestureState, HandTrackingMode, LandmarkFrame, LandmarkRecording } from '../types';
+import { ASSET_MODE } from '../utils/assets';
+import { downloadBlob } from '../utils/download';
+import { TrackerState, buildProfile, createTracker, gestureChanged, handSpan, idleGesture, parseRecording, recordFrame, thresholdsFor, trackHands } from '../utils/gestures';
+import { HandTracker, createHandTracker } from '../utils/handTracking';
+import CalibrationWizard, { CalibrationStep } from './CalibrationWizard';
+
+// How long each calibration pose must be held with one hand in view
+const CALIBRATION_HOLD_MS = 2000;
+
+// Timing readout: refresh interval, and the weight of each new sample in its running average
+const TIMING_REFRESH_MS = 500;
+const TIMING_SMOOTHING = 0.2;
 
 interface HandControllerProps {
   onGestureUpdate: (state: HandGestureState) => void;
+  profile: GestureProfile | null; // calibrated thresholds, or the defaults when null
+  calibrating: boolean;
+  onCalibrated: (profile: GestureProfile) => void;
+  onCalibrationEnd: () => void; // finished or cancelled
+  trackingMode: HandTrackingMode; // preferred; the main thread is the fallback
+  detectionRate: number; // Hz
+}
+
+interface TrackingTiming {
+  rate: number; // detections per second achieved
+  detectMs: number; // landmarker time per frame
+  latencyMs: number; // frame capture to gesture update
 }
 
-const HandController: React.FC<HandControllerProps> = ({ onGestureUpdate }) => {
+interface CalibrationRun {
+  step: CalibrationStep;
+  start: number | null; // when the current hold began
+  open: number[];
+  fist: number[];
+}
+
+const HandController: React.FC<HandControllerProps> = ({
+  onGestureUpdate, profile, calibrating, onCalibrated, onCalibrationEnd, trackingMode, detectionRate,
+}) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [status, setStatus] = useState<string>('Initializing System...');
   const [isError, setIsError] = useState(false);
   const [cameraReady, setCameraReady] = useState(false);
   
   const lastVideoTimeRef = useRef<number>(-1);
-  const requestRef = useRef<number>(0);
-  const landmarkerRef = useRef<HandLandmarker | null>(null);
+  const handTrackerRef = useRef<HandTracker | null>(null);
+  const [trackerMode, setTrackerMode] = useState<HandTrackingMode | null>(null);
+
+  // Running averages behind the timing readout, and the readout itself
+  const timingRef = useRef({ frames: 0, detectMs: 0, latencyMs: 0 });
+  const [timing, setTiming] = useState<TrackingTiming | null>(null);
   
   // Keep track of the stream to stop it properly
   const streamRef = useRef<MediaStream | null>(null);
 
-  const previousStateRef = useRef<HandGestureState>({
-    isPalmOpen: false,
-    isFist: false,
-    isPinching: false,
-    pinchDistance: 0,
-    handPosition: { x: 0.5, y: 0.5 }
-  });
+  const previousStateRef = useRef<HandGestureState>(idleGesture());
+  const trackerRef = useRef<TrackerState>(createTracker());
+
+  // Landmark recording (frames so far, or null when not recording) and file replay
+  const recordingRef = useRef<{ start: number; frames: LandmarkFrame[] } | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [replay, setReplay] = useState<{ name: string; recording: LandmarkRecording } | null>(null);
+  const [replayFrame, setReplayFrame] = useState(0);
+  const replayingRef = useRef(false);
+  replayingRef.current = replay !== null;
+
+  const thresholdsRef = useRef(thresholdsFor(profile));
+  thresholdsRef.current = thresholdsFor(profile);
+
+  // Calibration samples (read per detection) and what the wizard shows
+  const calibrationRef = useRef<CalibrationRun | null>(null);
+  const [calibrationView, setCalibrationView] = useState<{ step: CalibrationStep; progress: number; handSeen: boolean; error: string | null } | null>(null);
+  const onCalibratedRef = useRef(onCalibrated);
+  onCalibratedRef.current = onCalibrated;
+
+  const startCalibration = useCallback(() => {
+    calibrationRef.current = { step: 'open', start: null, open: [], fist: [] };
+    setCalibrationView({ step: 'open', progress: 0, handSeen: false, error: null });
+  }, []);
+
+  useEffect(() => {
+    if (calibrating) startCalibration();
+    else {
+      calibrationRef.current = null;
+      setCalibrationView(null);
+    }
+  }, [calibrating, startCalibration]);
+
+  // One detection during calibration: each pose is sampled over an unbroken one-hand hold
+  const sampleCalibration = (run: CalibrationRun, hands: { x: number; y: number }[][], now: number) => {
+    if (run.step === 'failed') return;
+    const samples = run.step === 'open' ? run.open : run.fist;
+    if (hands.length !== 1) {
+      run.start = null;
+      samples.length = 0;
+      setCalibrationView({ step: run.step, progress: 0, handSeen: false, error: null });
+      return;
+    }
+    run.start ??= now;
+    samples.push(handSpan(hands[0]));
+    const progress = Math.min(1, (now - run.start) / CALIBRATION_HOLD_MS);
+    if (progress < 1) {
+      setCalibrationView({ step: run.step, progress, handSeen: true, error: null });
+    } else if (run.step === 'open') {
+      run.step = 'fist';
+      run.start = null;
+      setCalibrationView({ step: 'fist', progress: 0, handSeen: true, error: null });
+    } else {
+      try {
+        onCalibratedRef.current(buildProfile(run.open, run.fist));
+      } catch (err: any) {
+        run.step = 'failed';
+        setCalibrationView({ step: 'failed', progress: 0, handSeen: true, error: err.message });
+      }
+    }
+  };
+
+  // Classify one detection and pass the state on when it changed enough to matter
+  const emitHands = useCallback((hands: { x: number; y: number }[][], now: number) => {
+    // Poses held for calibration should not drive the scene
+    if (calibrationRef.current) {
+      sampleCalibration(calibrationRef.current, hands, now);
+      return;
+    }
+    const newState = trackHands(trackerRef.current, hands, now, thresholdsRef.current);
+    if (gestureChanged(previousStateRef.current, newState)) {
+      previousStateRef.current = newState;
+      onGestureUpdate(newState);
+    }
+  }, [onGestureUpdate]);
+
+  // Start from no hands, so a replay (or the camera after one) behaves like a fresh session
+  const resetTracking = useCallback(() => {
+    trackerRef.current = createTracker();
+    previousStateRef.current = idleGesture();
+    onGestureUpdate(previousStateRef.current);
+  }, [onGestureUpdate]);
 
   const stopCamera = useCallback(() => {
     if (streamRef.current) {
@@ -97,36 +208,29 @@ const HandController: React.FC<HandControllerProps> = ({ onGestureUpdate }) => {
   useEffect(() => {
     let isMounted = true;
 
-    const initLandmarker = async () => {
+    const initTracker = async () => {
       try {
-        console.log("Loading MediaPipe WASM...");
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm"
-        );
-        
-        if (!isMounted) return;
-
-        console.log("Creating Landmarker...");
-        const landmarker = await HandLandmarker.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-            delegate: "GPU"
+        const tracker = await createHandTracker(
+          trackingMode,
+          status => {
+            if (isMounted) setStatus(status);
           },
-          runningMode: "VIDEO",
-          numHands: 1,
-          minHandDetectionConfidence: 0.5,
-          minHandPresenceConfidence: 0.5,
-          minTrackingConfidence: 0.5
-        });
-
+          // The worker died mid-session and the main thread took over
+          mode => {
+            if (!isMounted) return;
+            setTrackerMode(mode);
+            setStatus('Active: Tracking Hands');
+          }
+        );
         if (!isMounted) {
-            landmarker.close();
+            tracker.close();
             return;
         }
 
-        landmarkerRef.current = landmarker;
-        console.log("Landmarker Ready. Starting Camera...");
-        
+        handTrackerRef.current = tracker;
+        setTrackerMode(tracker.mode);
+        console.log(`Hand tracker ready (${tracker.mode}). Starting Camera...`);
+
         // Only start camera once AI is ready
         startCamera();
 
@@ -134,114 +238,135 @@ const HandController: React.FC<HandControllerProps> = ({ onGestureUpdate }) => {
         console.error("AI Init Failed:", e);
         if (isMounted) {
             setIsError(true);
-            setStatus(`AI Init Failed: ${e.message}`);
+            setStatus(`AI Init Failed (${ASSET_MODE} assets): ${e.message}`);
         }
       }
     };
 
-    initLandmarker();
+    initTracker();
 
     return () => {
       isMounted = false;
       stopCamera();
-      if (requestRef.current) {
-        cancelAnimationFrame(requestRef.current);
-      }
-      if (landmarkerRef.current) {
-          landmarkerRef.current.close();
-      }
+      setCameraReady(false);
+      setTrackerMode(null);
+      handTrackerRef.current?.close();
+      handTrackerRef.current = null;
     };
-  }, [stopCamera]);
-
-  // Detection Loop
-  const predictWebcam = useCallback(() => {
-    const video = videoRef.current;
-    const landmarker = landmarkerRef.current;
-
-    if (cameraReady && video && landmarker && !video.paused && !video.ended) {
-      // Ensure video dimensions are valid
-      if (video.videoWidth > 0 && video.videoHeight > 0) {
-        if (video.currentTime !== lastVideoTimeRef.current) {
-            lastVideoTimeRef.current = video.currentTime;
-            const startTimeMs = performance.now();
-            
-            try {
-            const result = landmarker.detectForVideo(video, startTimeMs);
-
-            let newState: HandGestureState;
-
-            if (result.landmarks && result.landmarks.length > 0) {
-                const landmarks = result.landmarks[0];
-                
-                const thumbTip = landmarks[4];
-                const indexTip = landmarks[8];
-                const pinkyTip = landmarks[20];
-                const wrist = landmarks[0];
-
-                // Gesture Logic
-                const pinchDist = Math.hypot(thumbTip.x - indexTip.x, thumbTip.y - indexTip.y);
-                const isPinching = pinchDist < 0.08;
-
-                const dIndex = Math.hypot(indexTip.x - wrist.x, indexTip.y - wrist.y);
-                const dPinky = Math.hypot(pinkyTip.x - wrist.x, pinkyTip.y - wrist.y);
-                
-                // Fist: Tips close to wrist
-                const isFist = dIndex < 0.15 && dPinky < 0.15; 
-                // Palm: Tips far from wrist
-                const isPalmOpen = !isFist && !isPinching && dIndex > 0.2;
-
-                // Invert X for mirroring
-                const cursorX = 1 - indexTip.x; 
-                const cursorY = indexTip.y;
-
-                newState = {
-                    isPalmOpen,
-                    isFist,
-                    isPinching,
-                    pinchDistance: pinchDist,
-                    handPosition: { x: cursorX, y: cursorY }
-                };
-            } else {
-                newState = {
-                    isPalmOpen: false,
-                    isFist: false,
-                    isPinching: false,
-                    pinchDistance: 0,
-                    handPosition: { x: 0.5, y: 0.5 }
-                };
-            }
-
-            // Throttle updates
-            const prev = previousStateRef.current;
-            const hasChanged = 
-                prev.isPalmOpen !== newState.isPalmOpen ||
-                prev.isFist !== newState.isFist ||
-                prev.isPinching !== newState.isPinching ||
-                Math.abs(prev.pinchDistance - newState.pinchDistance) > 0.05;
-
-            if (hasChanged) {
-                previousStateRef.current = newState;
-                onGestureUpdate(newState);
-            }
-            } catch (err) {
-                console.warn("Detection Loop Error:", err);
-            }
+  }, [trackingMode, stopCamera]);
+
+  // Detection loop at the configured rate, independent of rendering, with one
+  // frame in flight at a time (paused while a recording is replayed)
+  useEffect(() => {
+    if (!cameraReady) return;
+    let cancelled = false;
+    let timer = 0;
+    const interval = 1000 / detectionRate;
+
+    const step = async () => {
+      const captured = performance.now();
+      const video = videoRef.current;
+      const tracker = handTrackerRef.current;
+      if (
+        video && tracker && !video.paused && !video.ended && !replayingRef.current &&
+        video.videoWidth > 0 && video.videoHeight > 0 && video.currentTime !== lastVideoTimeRef.current
+      ) {
+        lastVideoTimeRef.current = video.currentTime;
+        try {
+          const { hands, detectMs } = await tracker.detect(video, captured);
+          if (cancelled) return;
+          const rec = recordingRef.current;
+          if (rec) rec.frames.push(recordFrame(captured - rec.start, hands));
+          emitHands(hands, captured);
+
+          const t = timingRef.current;
+          const latencyMs = performance.now() - captured;
+          t.detectMs = t.frames === 0 ? detectMs : t.detectMs + TIMING_SMOOTHING * (detectMs - t.detectMs);
+          t.latencyMs = t.frames === 0 ? latencyMs : t.latencyMs + TIMING_SMOOTHING * (latencyMs - t.latencyMs);
+          t.frames++;
+        } catch (err) {
+          console.warn("Detection Loop Error:", err);
         }
       }
+      if (!cancelled) timer = window.setTimeout(step, Math.max(0, interval - (performance.now() - captured)));
+    };
+    step();
+
+    // Publish the averages a couple of times a second rather than per detection
+    let lastFrames = timingRef.current.frames;
+    const refresh = window.setInterval(() => {
+      const t = timingRef.current;
+      setTiming({ rate: ((t.frames - lastFrames) * 1000) / TIMING_REFRESH_MS, detectMs: t.detectMs, latencyMs: t.latencyMs });
+      lastFrames = t.frames;
+    }, TIMING_REFRESH_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      clearInterval(refresh);
+      setTiming(null);
+    };
+  }, [cameraReady, detectionRate, emitHands]);
+
+  const toggleRecording = () => {
+    const rec = recordingRef.current;
+    if (!rec) {
+      recordingRef.current = { start: performance.now(), frames: [] };
+      setRecording(true);
+      return;
     }
-    requestRef.current = requestAnimationFrame(predictWebcam);
-  }, [cameraReady, onGestureUpdate]);
+    recordingRef.current = null;
+    setRecording(false);
+    const file: LandmarkRecording = { version: 1, recordedAt: new Date().toISOString(), frames: rec.frames };
+    downloadBlob(new Blob([JSON.stringify(file)], { type: 'application/json' }), `gestures-${file.recordedAt.replace(/[:.]/g, '-')}.json`);
+  };
 
+  const handleReplayFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const input = event.target;
+    const file = input.files?.[0];
+    if (!file) return;
+    try {
+      const parsed = parseRecording(JSON.parse(await file.text()));
+      if (parsed.frames.length === 0) throw new Error('The recording has no frames');
+      setReplay({ name: file.name, recording: parsed });
+    } catch (err: any) {
+      console.error("Gesture replay failed:", err);
+      alert(`Could not replay ${file.name}: ${err.message}`);
+    } finally {
+      input.value = '';
+    }
+  };
+
+  // Replay: feed recorded frames through the classifier at their original pace
   useEffect(() => {
-      if (cameraReady) {
-          requestRef.current = requestAnimationFrame(predictWebcam);
+    if (!replay) return;
+    const { frames } = replay.recording;
+    resetTracking();
+    let next = 0;
+    let frame = 0;
+    const start = performance.now();
+    const tick = (now: number) => {
+      const elapsed = now - start;
+      while (next < frames.length && frames[next].t <= elapsed) {
+        emitHands(frames[next].hands, frames[next].t);
+        next++;
       }
-      return () => {
-          if (requestRef.current) cancelAnimationFrame(requestRef.current);
-      }
-  }, [cameraReady, predictWebcam]);
+      setReplayFrame(next);
+      if (next < frames.length) frame = requestAnimationFrame(tick);
+      else setReplay(null);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(frame);
+      resetTracking();
+    };
+  }, [replay, emitHands, resetTracking]);
 
   return (
+    <>
+    {calibrationView && (
+      <CalibrationWizard {...calibrationView} onRetry={startCalibration} onCancel={onCalibrationEnd} />
+    )}
     <div className="absolute bottom-4 right-4 z-50 flex flex-col items-end">
        {/* Status Panel */}
        <div className={`mb-2 p-2 rounded text-[10px] font-mono border backdrop-blur-md transition-colors duration-300 ${
@@ -250,8 +375,39 @@ const HandController: React.FC<HandControllerProps> = ({ onGestureUpdate }) => {
            'bg-blue-900/60 border-blue-500 text-blue-200'
        }`}>
            <div className="flex items-center gap-2 mb-1">
-               <div className={`w-2 h-2 rounded-full ${cameraReady ? 'bg-green-500 animate-pulse' : 'bg-yellow-500'}`} />
-               <span className="font-bold">{status}</span>
+               <div className={`w-2 h-2 rounded-full ${recording ? 'bg-red-500 animate-pulse' : cameraReady ? 'bg-green-500 animate-pulse' : 'bg-yellow-500'}`} />
+               <span className="font-bold">
+                 {replay ? `Replaying ${replay.name} (${replayFrame}/${replay.recording.frames.length})` : status}
+               </span>
+           </div>
+           {trackerMode && (
+             <div className="text-gray-400">
+               {trackerMode}
+               {timing && ` · ${timing.rate.toFixed(0)} Hz · detect ${timing.detectMs.toFixed(1)} ms · latency ${timing.latencyMs.toFixed(0)} ms`}
+             </div>
+           )}
+
+           {/* Landmark recording and replay, which also works without a camera */}
+           <input type="file" id="file-gesture-replay" className="hidden" accept=".json" onChange={handleReplayFile} />
+           <div className="flex gap-1 mt-1">
+               <button
+                onClick={toggleRecording}
+                disabled={!cameraReady || replay !== null}
+                className="px-2 py-0.5 rounded border border-white/20 hover:border-white/50 disabled:opacity-30"
+               >
+                   {recording ? '■ Stop & Save' : '● Record'}
+               </button>
+               {replay ? (
+                 <button onClick={() => setReplay(null)} className="px-2 py-0.5 rounded border border-white/20 hover:border-white/50">■ Stop Replay</button>
+               ) : (
+                 <button
+                  onClick={() => document.getElementById('file-gesture-replay')?.click()}
+                  disabled={recording}
+                  className="px-2 py-0.5 rounded border border-white/20 hover:border-white/50 disabled:opacity-30"
+                 >
+                     Replay…
+                 </button>
+               )}
            </div>
            
            {isError && (
@@ -280,6 +436,7 @@ const HandController: React.FC<HandControllerProps> = ({ onGestureUpdate }) => {
         )}
       </div>
     </div>
+    </>
   );
 };
 
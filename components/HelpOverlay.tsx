@@ -0,0 +1,47 @@
+import React from 'react';
+import { ActionBinding, InputBindings, MapLayer } from '../types';
+import { INPUT_SOURCES, bindingLabel } from '../utils/inputSettings';
+
+interface HelpOverlayProps {
+  bindings: InputBindings;
+  layers: MapLayer[];
+  gamepad: string | null;
+  onClose: () => void;
+}
+
+// Every source's controls at a glance, for visitors who only have a gamepad or a touchscreen
+const HelpOverlay: React.FC<HelpOverlayProps> = ({ bindings, layers, gamepad, onClose }) => (
+  <div className="absolute inset-0 z-[60] flex items-center justify-center bg-black/50" onClick={onClose}>
+    <div
+      className="w-[56rem] max-w-[95vw] max-h-[85vh] overflow-auto p-5 rounded-xl bg-black/80 backdrop-blur-md border border-white/20 text-white font-mono text-xs shadow-2xl"
+      onClick={e => e.stopPropagation()}
+    >
+      <div className="flex items-center mb-4">
+        <span className="text-blue-400 font-bold uppercase tracking-widest text-[10px] mr-auto">Controls</span>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-5">
+        {INPUT_SOURCES.map(({ source, label, continuous }) => {
+          const bound = Object.entries(bindings[source] as Record<string, ActionBinding>).filter(([, b]) => b.action !== 'None');
+          return (
+            <div key={source}>
+              <h4 className="font-bold mb-1">
+                {label}
+                {source === 'gamepad' && <span className={`ml-2 text-[10px] font-normal ${gamepad ? 'text-green-400' : 'text-gray-500'}`}>{gamepad ? '● connected' : '○ none'}</span>}
+              </h4>
+              <p className="text-gray-400 mb-2">{continuous}</p>
+              {bound.map(([trigger, binding]) => (
+                <div key={trigger} className="flex justify-between gap-2 border-t border-white/5 py-0.5">
+                  <span className="text-amber-300">{trigger}</span>
+                  <span className="text-right">{bindingLabel(binding, layers)}</span>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  </div>
+);
+
+export default HelpOverlay;
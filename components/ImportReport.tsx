@@ -0,0 +1,36 @@
+import React from 'react';
+import { FeatureError } from '../types';
+
+interface ImportReportProps {
+  fileName: string;
+  loadedCount: number;
+  errors: FeatureError[];
+  onClose: () => void;
+}
+
+// Lists features rejected by the GeoJSON loader so the source file can be fixed
+const ImportReport: React.FC<ImportReportProps> = ({ fileName, loadedCount, errors, onClose }) => {
+  return (
+    <div className="absolute bottom-16 left-4 z-50 w-96 max-h-72 flex flex-col rounded-xl bg-black/70 backdrop-blur-md border border-red-500/40 text-white font-mono text-xs">
+      <div className="flex items-center justify-between p-3 border-b border-white/10">
+        <div>
+          <h3 className="text-red-400 font-bold uppercase tracking-widest text-[10px]">Import Report</h3>
+          <p className="text-gray-400">
+            {fileName}: {loadedCount} loaded, {errors.length} rejected
+          </p>
+        </div>
+        <button onClick={onClose} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20">Close</button>
+      </div>
+      <ul className="overflow-y-auto p-3 flex flex-col gap-1">
+        {errors.map(err => (
+          <li key={err.index}>
+            <span className="text-yellow-400">Feature #{err.index}{err.id ? ` (${err.id})` : ''}:</span>{' '}
+            <span className="text-gray-300">{err.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ImportReport;
@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { ActionBinding, GestureProfile, InputAction, InputBindings, InputSource, MapLayer } from '../types';
+import { INPUT_ACTIONS, keyName } from '../utils/commands';
+import { GAMEPAD_BUTTONS, GESTURE_TRIGGERS, INPUT_SOURCES, TOUCH_TRIGGERS } from '../utils/inputSettings';
+
+interface InputPanelProps {
+  bindings: InputBindings;
+  profile: GestureProfile | null;
+  layers: MapLayer[]; // targets for 'Toggle Layer'
+  gamepad: string | null; // id of the connected gamepad
+  onBindingsChange: (bindings: InputBindings) => void;
+  onResetBindings: () => void;
+  onCalibrate: () => void;
+  onResetProfile: () => void;
+  onClose: () => void;
+}
+
+// Keys that never make a binding: modifiers alone, and the arrows that navigate
+const UNBINDABLE_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown'];
+
+const selectClass = 'bg-black/60 border border-white/20 rounded px-1 py-0.5';
+const buttonClass = 'px-2 py-0.5 rounded border border-white/20 hover:border-white/50';
+
+// Action select, plus the target layer for 'Toggle Layer'
+const BindingSelect: React.FC<{ binding: ActionBinding; layers: MapLayer[]; onChange: (binding: ActionBinding) => void }> = ({
+  binding, layers, onChange,
+}) => (
+  <div className="flex gap-2">
+    <select
+      value={binding.action}
+      onChange={e => {
+        const action = e.target.value as InputAction;
+        onChange(action === 'Toggle Layer' ? { action, layerId: binding.layerId ?? layers[0]?.id } : { action });
+      }}
+      className={selectClass}
+    >
+      {INPUT_ACTIONS.map(action => <option key={action} value={action}>{action}</option>)}
+    </select>
+    {binding.action === 'Toggle Layer' && (
+      <select value={binding.layerId} onChange={e => onChange({ action: 'Toggle Layer', layerId: e.target.value })} className={selectClass}>
+        {layers.map(layer => <option key={layer.id} value={layer.id}>{layer.name}</option>)}
+      </select>
+    )}
+  </div>
+);
+
+// Bindings for every input source, one tab each; gestures also carry the calibration
+const InputPanel: React.FC<InputPanelProps> = ({
+  bindings, profile, layers, gamepad, onBindingsChange, onResetBindings, onCalibrate, onResetProfile, onClose,
+}) => {
+  const [source, setSource] = useState<InputSource>('keyboard');
+  const [capturing, setCapturing] = useState(false);
+
+  const setBinding = (trigger: string, binding: ActionBinding) =>
+    onBindingsChange({ ...bindings, [source]: { ...bindings[source], [trigger]: binding } });
+
+  const removeKey = (key: string) => {
+    const { [key]: _, ...keyboard } = bindings.keyboard;
+    onBindingsChange({ ...bindings, keyboard });
+  };
+
+  // The next key press becomes a new keyboard row (Escape cancels); it does not reach the scene
+  useEffect(() => {
+    if (!capturing) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (UNBINDABLE_KEYS.includes(e.key)) return;
+      setCapturing(false);
+      if (e.key === 'Escape') return;
+      const key = keyName(e);
+      onBindingsChange({ ...bindings, keyboard: { ...bindings.keyboard, [key]: bindings.keyboard[key] ?? { action: 'None' } } });
+    };
+    window.addEventListener('keydown', onKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', onKeyDown, { capture: true });
+  }, [capturing, bindings, onBindingsChange]);
+
+  const triggers: string[] =
+    source === 'keyboard' ? Object.keys(bindings.keyboard)
+    : source === 'touch' ? TOUCH_TRIGGERS
+    : source === 'gamepad' ? GAMEPAD_BUTTONS
+    : GESTURE_TRIGGERS;
+  const info = INPUT_SOURCES.find(s => s.source === source)!;
+
+  return (
+    <div className="absolute top-20 left-1/2 -translate-x-1/2 z-50 w-[32rem] max-w-[90vw] max-h-[75vh] flex flex-col rounded-xl bg-black/75 backdrop-blur-md border border-white/20 text-white font-mono text-[11px] shadow-2xl">
+      <div className="flex items-center gap-3 p-3 border-b border-white/10">
+        <span className="text-blue-400 font-bold uppercase tracking-widest text-[10px] mr-auto">Input Bindings</span>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      <div className="flex border-b border-white/10">
+        {INPUT_SOURCES.map(s => (
+          <button
+            key={s.source}
+            onClick={() => {
+              setSource(s.source);
+              setCapturing(false);
+            }}
+            className={`flex-1 py-1.5 ${s.source === source ? 'text-white border-b-2 border-blue-400' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            {s.label}
+          </button>
+        ))}
+      </div>
+
+      {source === 'gesture' && (
+        <div className="p-3 border-b border-white/10 flex items-center gap-2">
+          <div className="mr-auto">
+            {profile ? (
+              <>
+                <div>Calibrated {profile.calibratedAt.slice(0, 10)}</div>
+                <div className="text-gray-500">Open hand {profile.openSpan.toFixed(2)} · fist {profile.fistSpan.toFixed(2)} palm lengths</div>
+              </>
+            ) : (
+              <div className="text-gray-400">Not calibrated — using default thresholds</div>
+            )}
+          </div>
+          <button onClick={onCalibrate} className={buttonClass}>Calibrate</button>
+          {profile && <button onClick={onResetProfile} className={buttonClass}>Use Defaults</button>}
+        </div>
+      )}
+
+      {source === 'gamepad' && (
+        <div className={`px-3 py-2 border-b border-white/10 ${gamepad ? 'text-green-400' : 'text-gray-500'}`}>
+          {gamepad ? `Connected: ${gamepad}` : 'No gamepad — connect one and press a button'}
+        </div>
+      )}
+
+      <div className="overflow-auto">
+        <table className="w-full text-left">
+          <thead className="sticky top-0 bg-black/90 text-gray-400">
+            <tr>
+              <th className="px-3 py-1 font-normal">{source === 'keyboard' ? 'Key' : source === 'gamepad' ? 'Button' : 'Gesture'}</th>
+              <th className="px-3 py-1 font-normal">Action</th>
+              {source === 'keyboard' && <th />}
+            </tr>
+          </thead>
+          <tbody>
+            {triggers.map(trigger => (
+              <tr key={trigger} className="border-t border-white/5">
+                <td className="px-3 py-1">{trigger}</td>
+                <td className="px-3 py-1">
+                  <BindingSelect
+                    binding={(bindings[source] as Record<string, ActionBinding>)[trigger]}
+                    layers={layers}
+                    onChange={binding => setBinding(trigger, binding)}
+                  />
+                </td>
+                {source === 'keyboard' && (
+                  <td className="px-3 py-1 text-right">
+                    <button onClick={() => removeKey(trigger)} className="text-gray-500 hover:text-red-400">✕</button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {source === 'keyboard' && (
+          <button onClick={() => setCapturing(!capturing)} className={`m-3 ${buttonClass} ${capturing ? 'text-amber-300' : ''}`}>
+            {capturing ? 'Press a key… (Esc cancels)' : '+ Add Key'}
+          </button>
+        )}
+      </div>
+
+      <div className="p-2 border-t border-white/10 flex items-center text-gray-500">
+        <span className="mr-auto">{info.continuous}</span>
+        <button onClick={onResetBindings} className="ml-2 px-2 py-0.5 rounded border border-white/20 hover:border-white/50 text-white whitespace-nowrap">Reset</button>
+      </div>
+    </div>
+  );
+};
+
+export default InputPanel;
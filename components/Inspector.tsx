@@ -0,0 +1,97 @@
+import React from 'react';
+import { AODLayer, LatLon, LocationQuery, PVStationData, PVYieldEstimate } from '../types';
+
+interface InspectorProps {
+  query: LocationQuery | null;
+  station: PVStationData | null;
+  estimate: PVYieldEstimate | null; // annual yield of the selected station
+  highlightColor: string;
+  onCloseQuery: () => void;
+  onCloseStation: () => void;
+  onFlyTo: (latLon: LatLon) => void;
+}
+
+const AOD_LAYERS: AODLayer[] = ['Mean', 'Slope', 'Time Series'];
+
+const formatLat = (lat: number) => `${Math.abs(lat).toFixed(3)}°${lat >= 0 ? 'N' : 'S'}`;
+const formatLon = (lon: number) => `${Math.abs(lon).toFixed(3)}°${lon >= 0 ? 'E' : 'W'}`;
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex justify-between gap-4">
+    <span className="text-gray-400">{label}</span>
+    <span className="text-right">{children}</span>
+  </div>
+);
+
+// Tooltip for a clicked globe location
+const QueryTooltip: React.FC<{ query: LocationQuery; onClose: () => void; onFlyTo: () => void }> = ({ query, onClose, onFlyTo }) => {
+  const { latLon, screen, values, nearestStation } = query;
+  return (
+    <div
+      className="absolute z-50 w-60 p-3 rounded-lg bg-black/70 backdrop-blur-md border border-white/20 text-white font-mono text-[11px] shadow-xl"
+      style={{ left: screen.x + 12, top: screen.y + 12 }}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-blue-400 font-bold uppercase tracking-widest text-[10px]">Location</span>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+      <Row label="Lat / Lon">{formatLat(latLon.lat)} {formatLon(latLon.lon)}</Row>
+      {AOD_LAYERS.map(layer => (
+        <Row key={layer} label={`AOD ${layer}`}>
+          {values[layer] === undefined ? <span className="text-gray-500">not loaded</span>
+            : values[layer] === null ? <span className="text-gray-500">no data</span>
+            : values[layer]!.toFixed(layer === 'Slope' ? 4 : 3)}
+        </Row>
+      ))}
+      {nearestStation && (
+        <div className="mt-2 pt-2 border-t border-white/10">
+          <Row label="Nearest PV">{nearestStation.station.id}</Row>
+          <Row label="Type / Area">{nearestStation.station.type} · {nearestStation.station.area.toFixed(2)} km²</Row>
+          <Row label="Distance">{nearestStation.distanceKm.toFixed(1)} km</Row>
+        </div>
+      )}
+      <button onClick={onFlyTo} className="mt-2 w-full py-1 rounded border border-white/20 text-gray-300 hover:text-white hover:border-white/40">Fly here</button>
+    </div>
+  );
+};
+
+// Annual estimate for the station card
+const YieldRows: React.FC<{ estimate: PVYieldEstimate; accent: string }> = ({ estimate, accent }) => (
+  <div className="mt-2 pt-2 border-t border-white/10 flex flex-col gap-1">
+    <span className="font-bold uppercase tracking-widest text-[10px]" style={{ color: accent }}>Annual Yield Estimate</span>
+    <Row label="AOD">{estimate.aod.toFixed(3)} <span className="text-gray-500">({estimate.aodSource.toLowerCase()})</span></Row>
+    <Row label="Clear-sky GHI">{estimate.clearIrradiation.toFixed(0)} kWh/m²</Row>
+    <Row label="With aerosol">{estimate.irradiation.toFixed(0)} kWh/m²</Row>
+    <Row label="Yield">{estimate.yield.toFixed(1)} GWh/yr</Row>
+    <Row label="Aerosol loss">{estimate.loss.toFixed(1)} GWh ({estimate.lossPct.toFixed(1)}%)</Row>
+  </div>
+);
+
+// Detail card for the selected PV station
+const StationCard: React.FC<{ station: PVStationData; estimate: PVYieldEstimate | null; accent: string; onClose: () => void; onFlyTo: () => void }> = ({ station, estimate, accent, onClose, onFlyTo }) => (
+  <div className="absolute top-48 left-4 z-40 w-64 p-4 rounded-xl bg-black/60 backdrop-blur-md border text-white font-mono text-xs" style={{ borderColor: accent }}>
+    <div className="flex items-center justify-between mb-2">
+      <h3 className="font-bold uppercase tracking-widest text-[10px]" style={{ color: accent }}>PV Station {station.id}</h3>
+      <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+    </div>
+    <div className="flex flex-col gap-1">
+      <Row label="Type">{station.type}</Row>
+      <Row label="Area">{station.area.toFixed(2)} km²</Row>
+      {station.capacity !== undefined && <Row label="Capacity">{station.capacity} MW</Row>}
+      {station.year !== undefined && <Row label="Commissioned">{station.year}</Row>}
+      <Row label="Location">{formatLat(station.lat)} {formatLon(station.lon)}</Row>
+      <Row label="Geometry">{station.footprint ? 'Polygon' : 'Point'}</Row>
+    </div>
+    {estimate && <YieldRows estimate={estimate} accent={accent} />}
+    <button onClick={onFlyTo} className="mt-3 w-full py-1 rounded border text-[10px] uppercase tracking-widest hover:bg-white/10" style={{ borderColor: accent, color: accent }}>Fly to station</button>
+  </div>
+);
+
+const Inspector: React.FC<InspectorProps> = ({ query, station, estimate, highlightColor, onCloseQuery, onCloseStation, onFlyTo }) => (
+  <>
+    {query && <QueryTooltip query={query} onClose={onCloseQuery} onFlyTo={() => onFlyTo(query.latLon)} />}
+    {station && <StationCard station={station} estimate={estimate} accent={highlightColor} onClose={onCloseStation} onFlyTo={() => onFlyTo(station)} />}
+  </>
+);
+
+export default Inspector;
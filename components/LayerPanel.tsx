@@ -0,0 +1,123 @@
+import React from 'react';
+import { LayerBlendMode, LayerData, MapLayer, PaletteName } from '../types';
+import { BLEND_MODES, LAYER_CAPABILITIES } from '../utils/layers';
+import { PALETTE_NAMES } from '../utils/colormap';
+
+interface LayerPanelProps {
+  layers: MapLayer[]; // bottom to top
+  layerData: LayerData;
+  onChange: (id: string, patch: Partial<MapLayer>) => void;
+  onMove: (id: string, delta: 1 | -1) => void;
+  onRemove: (id: string) => void;
+  onAddRaster: () => void;
+  onAddVector: () => void;
+  onClose: () => void;
+}
+
+const LayerRow: React.FC<{ layer: MapLayer; index: number; count: number; missing: boolean } & Pick<LayerPanelProps, 'onChange' | 'onMove' | 'onRemove'>> = ({
+  layer, index, count, missing, onChange, onMove, onRemove,
+}) => {
+  const caps = LAYER_CAPABILITIES[layer.kind];
+  return (
+    <tr className="border-t border-white/5">
+      <td className="px-2 py-1">
+        <input type="checkbox" checked={layer.visible} onChange={e => onChange(layer.id, { visible: e.target.checked })} />
+      </td>
+      <td className="px-2 py-1">
+        <input
+          value={layer.name}
+          onChange={e => onChange(layer.id, { name: e.target.value })}
+          className="w-full bg-transparent border-b border-transparent hover:border-white/20 focus:border-white/40 outline-none"
+        />
+        {missing && <div className="text-amber-400 text-[10px]">no data — re-upload the file</div>}
+      </td>
+      <td className="px-2 py-1 whitespace-nowrap">
+        <button onClick={() => onMove(layer.id, 1)} disabled={index === count - 1} className="px-1 text-gray-400 hover:text-white disabled:opacity-30" title="Move up">▲</button>
+        <button onClick={() => onMove(layer.id, -1)} disabled={index === 0} className="px-1 text-gray-400 hover:text-white disabled:opacity-30" title="Move down">▼</button>
+      </td>
+      <td className="px-2 py-1">
+        <input
+          type="range" min={0} max={1} step={0.05}
+          value={layer.opacity}
+          disabled={!caps.opacity}
+          onChange={e => onChange(layer.id, { opacity: Number(e.target.value) })}
+          className="w-20 disabled:opacity-30"
+          title={`Opacity ${layer.opacity.toFixed(2)}`}
+        />
+      </td>
+      <td className="px-2 py-1">
+        <select
+          value={layer.blend}
+          disabled={!caps.blend}
+          onChange={e => onChange(layer.id, { blend: e.target.value as LayerBlendMode })}
+          className="bg-black/60 border border-white/20 rounded px-1 py-0.5 disabled:opacity-30"
+        >
+          {BLEND_MODES.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+        </select>
+      </td>
+      <td className="px-2 py-1">
+        {layer.kind === 'raster' && (
+          <select
+            value={layer.palette}
+            onChange={e => onChange(layer.id, { palette: e.target.value as PaletteName })}
+            className="bg-black/60 border border-white/20 rounded px-1 py-0.5"
+          >
+            {PALETTE_NAMES.map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+        )}
+        {layer.kind === 'vector' && (
+          <input type="color" value={layer.color ?? '#ffffff'} onChange={e => onChange(layer.id, { color: e.target.value })} className="w-8 h-5 bg-transparent" />
+        )}
+      </td>
+      <td className="px-2 py-1 text-right">
+        {caps.removable && <button onClick={() => onRemove(layer.id)} className="text-gray-400 hover:text-white" title="Remove layer">✕</button>}
+      </td>
+    </tr>
+  );
+};
+
+// Layer stack editor, listed top of the stack first
+const LayerPanel: React.FC<LayerPanelProps> = ({ layers, layerData, onChange, onMove, onRemove, onAddRaster, onAddVector, onClose }) => (
+  <div className="absolute top-20 left-1/2 -translate-x-1/2 z-50 w-[40rem] max-w-[90vw] max-h-[75vh] flex flex-col rounded-xl bg-black/75 backdrop-blur-md border border-white/20 text-white font-mono text-[11px] shadow-2xl">
+    <div className="flex items-center gap-3 p-3 border-b border-white/10">
+      <span className="text-blue-400 font-bold uppercase tracking-widest text-[10px] mr-auto">Layers</span>
+      <button onClick={onAddRaster} className="px-2 py-0.5 rounded border border-white/20 hover:border-white/50">+ Raster</button>
+      <button onClick={onAddVector} className="px-2 py-0.5 rounded border border-white/20 hover:border-white/50">+ Vector</button>
+      <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+    </div>
+    <div className="overflow-auto">
+      <table className="w-full text-left">
+        <thead className="sticky top-0 bg-black/90 text-gray-400">
+          <tr>
+            <th className="px-2 py-1 font-normal" />
+            <th className="px-2 py-1 font-normal">Layer</th>
+            <th className="px-2 py-1 font-normal">Order</th>
+            <th className="px-2 py-1 font-normal">Opacity</th>
+            <th className="px-2 py-1 font-normal">Blend</th>
+            <th className="px-2 py-1 font-normal">Style</th>
+            <th className="px-2 py-1 font-normal" />
+          </tr>
+        </thead>
+        <tbody>
+          {layers.map((layer, index) => ({ layer, index })).reverse().map(({ layer, index }) => (
+            <LayerRow
+              key={layer.id}
+              layer={layer}
+              index={index}
+              count={layers.length}
+              missing={LAYER_CAPABILITIES[layer.kind].removable && !layerData[layer.id]}
+              onChange={onChange}
+              onMove={onMove}
+              onRemove={onRemove}
+            />
+          ))}
+        </tbody>
+      </table>
+    </div>
+    <div className="p-2 border-t border-white/10 text-gray-500">
+      The globe surface and terrain always sit at the bottom. Uploaded layer data is not saved with sessions.
+    </div>
+  </div>
+);
+
+export default LayerPanel;
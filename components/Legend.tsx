@@ -0,0 +1,61 @@
+import React from 'react';
+import { ColorScale, paletteGradientCss } from '../utils/colormap';
+
+interface LegendProps {
+  title: string;
+  units: string;
+  scale: ColorScale;
+}
+
+const formatValue = (v: number) => (Math.abs(v) < 0.01 && v !== 0 ? v.toExponential(1) : v.toFixed(3));
+
+const lutColor = (scale: ColorScale, t: number) => {
+  const i = Math.round(Math.min(1, Math.max(0, t)) * 255) * 4;
+  return `rgb(${scale.lut[i]}, ${scale.lut[i + 1]}, ${scale.lut[i + 2]})`;
+};
+
+// Colour bar for the active AOD layer; stepped boxes for quantile classes
+const Legend: React.FC<LegendProps> = ({ title, units, scale }) => {
+  const { min, max, center, classification } = scale.config;
+  const classes = scale.breaks.length - 1;
+
+  let ticks: number[];
+  if (classification === 'log' && min > 0) {
+    ticks = [min, Math.sqrt(min * max), max];
+  } else if (center > min && center < max && scale.normalize(center) === 0.5) {
+    ticks = [min, center, max];
+  } else {
+    ticks = [min, (min + max) / 2, max];
+  }
+
+  return (
+    <div className="absolute bottom-14 left-4 z-40 w-72 p-3 rounded-xl bg-black/50 backdrop-blur-md border border-white/10 text-white font-mono text-[10px] pointer-events-none select-none">
+      <div className="flex justify-between mb-1">
+        <span className="text-blue-400 font-bold uppercase tracking-widest">{title}</span>
+        <span className="text-gray-400">{units}</span>
+      </div>
+      {classes > 0 ? (
+        <>
+          <div className="flex h-3 rounded overflow-hidden">
+            {Array.from({ length: classes }, (_, k) => (
+              <div key={k} className="flex-1" style={{ background: lutColor(scale, scale.normalize((scale.breaks[k] + scale.breaks[k + 1]) / 2)) }} />
+            ))}
+          </div>
+          <div className="flex justify-between mt-1 text-gray-300">
+            {scale.breaks.map((b, k) => <span key={k}>{formatValue(b)}</span>)}
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="h-3 rounded" style={{ background: paletteGradientCss(scale.stops) }} />
+          <div className="flex justify-between mt-1 text-gray-300">
+            {ticks.map((t, k) => <span key={k}>{formatValue(t)}</span>)}
+          </div>
+        </>
+      )}
+      <div className="mt-1 text-gray-500">{scale.config.palette} · {classification}</div>
+    </div>
+  );
+};
+
+export default Legend;
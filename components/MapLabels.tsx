@@ -0,0 +1,141 @@
+/// <reference types="@react-three/fiber" />
+import React, { useEffect, useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import { useFrame, useThree } from '@react-three/fiber';
+import { GLOBE_GROUP_NAME } from '../constants';
+import { LatLon, MapLabel, MapLabelKind } from '../types';
+import { latLonToVector3, vector3ToLatLon } from '../utils/geodesy';
+import { graticuleLabels } from '../utils/vectors';
+
+interface MapLabelsProps {
+  labels: MapLabel[];
+  graticuleStep: number | null; // null hides the degree labels
+  radius: number; // anchor height, matching the draped lines
+  opacity: number;
+}
+
+type OrbitLike = { target: THREE.Vector3 };
+
+interface LabelNode {
+  el: HTMLDivElement;
+  width: number;
+  height: number;
+}
+
+const KIND_CLASS: Record<MapLabelKind, string> = {
+  place: 'text-[11px] text-white font-bold',
+  feature: 'text-[10px] text-sky-300 italic',
+  graticule: 'text-[9px] text-white/60',
+};
+
+// Free space kept around each label when testing overlaps (px)
+const LABEL_PADDING = 4;
+
+const world = new THREE.Vector3();
+const toCamera = new THREE.Vector3();
+const centre = new THREE.Vector3();
+
+/**
+ * DOM labels over the canvas, re-placed every frame: labels on the far side
+ * of the globe or off screen are hidden, and the rest are placed greedily by
+ * priority, skipping any that would overlap a label already placed.
+ */
+const MapLabels: React.FC<MapLabelsProps> = ({ labels, graticuleStep, radius, opacity }) => {
+  const { gl, scene, camera, size } = useThree();
+  const controls = useThree(state => state.controls) as unknown as OrbitLike | null;
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const nodesRef = useRef(new Map<string, LabelNode>());
+  const gridRef = useRef<{ key: string; labels: MapLabel[] }>({ key: '', labels: [] });
+  const sorted = useMemo(() => [...labels].sort((a, b) => b.priority - a.priority), [labels]);
+
+  useEffect(() => {
+    const container = document.createElement('div');
+    container.className = 'absolute inset-0 pointer-events-none overflow-hidden select-none font-mono';
+    gl.domElement.parentElement?.appendChild(container);
+    containerRef.current = container;
+    const nodes = nodesRef.current;
+    return () => {
+      container.remove();
+      containerRef.current = null;
+      nodes.clear();
+    };
+  }, [gl]);
+
+  useEffect(() => {
+    if (containerRef.current) containerRef.current.style.opacity = String(opacity);
+  }, [opacity]);
+
+  const nodeFor = (label: MapLabel): LabelNode => {
+    let node = nodesRef.current.get(label.id);
+    if (!node) {
+      const el = document.createElement('div');
+      el.className = `absolute left-0 top-0 whitespace-nowrap ${KIND_CLASS[label.kind]}`;
+      el.style.textShadow = '0 0 3px #000, 0 0 2px #000';
+      el.textContent = label.text;
+      containerRef.current!.appendChild(el);
+      node = { el, width: el.offsetWidth, height: el.offsetHeight };
+      nodesRef.current.set(label.id, node);
+    }
+    return node;
+  };
+
+  // Degree labels follow the view centre, regenerated only when it crosses a grid line
+  const gridLabels = (globe: THREE.Object3D): MapLabel[] => {
+    if (!graticuleStep) return [];
+    centre.copy(controls && controls.target.lengthSq() > 1e-6 ? controls.target : camera.position);
+    const view: LatLon = vector3ToLatLon(globe.worldToLocal(centre));
+    const key = `${graticuleStep}:${Math.round(view.lat / graticuleStep)}:${Math.round(view.lon / graticuleStep)}`;
+    if (gridRef.current.key !== key) gridRef.current = { key, labels: graticuleLabels(view, graticuleStep) };
+    return gridRef.current.labels;
+  };
+
+  useFrame(() => {
+    const globe = scene.getObjectByName(GLOBE_GROUP_NAME);
+    if (!containerRef.current || !globe) return;
+    const placed: { left: number; top: number; right: number; bottom: number }[] = [];
+    const seen = new Set<string>();
+
+    const hide = (id: string) => {
+      const node = nodesRef.current.get(id);
+      if (node) node.el.style.display = 'none';
+    };
+
+    for (const label of [...sorted, ...gridLabels(globe)]) {
+      seen.add(label.id);
+      latLonToVector3(label.at.lat, label.at.lon, radius, world).applyMatrix4(globe.matrixWorld);
+      // Far side of the globe: the camera is behind the local horizon plane
+      const facing = toCamera.subVectors(camera.position, world).dot(world) > 0;
+      world.project(camera);
+      if (!facing || Math.abs(world.x) > 1 || Math.abs(world.y) > 1 || world.z > 1) {
+        hide(label.id);
+        continue;
+      }
+
+      const node = nodeFor(label);
+      const x = ((world.x + 1) / 2) * size.width;
+      const y = ((1 - world.y) / 2) * size.height;
+      const left = x - node.width / 2;
+      const top = label.kind === 'graticule' ? y - node.height / 2 : y - node.height - 2;
+      const rect = { left: left - LABEL_PADDING, top: top - LABEL_PADDING, right: left + node.width + LABEL_PADDING, bottom: top + node.height + LABEL_PADDING };
+      const blocked = placed.some(p => rect.left < p.right && rect.right > p.left && rect.top < p.bottom && rect.bottom > p.top);
+      if (blocked) {
+        node.el.style.display = 'none';
+        continue;
+      }
+      placed.push(rect);
+      node.el.style.display = '';
+      node.el.style.transform = `translate(${left.toFixed(1)}px, ${top.toFixed(1)}px)`;
+    }
+
+    // Drop nodes for labels that are no longer candidates (layer toggled off, or an old grid)
+    nodesRef.current.forEach((node, id) => {
+      if (seen.has(id)) return;
+      node.el.remove();
+      nodesRef.current.delete(id);
+    });
+  });
+
+  return null;
+};
+
+export default MapLabels;
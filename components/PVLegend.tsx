@@ -0,0 +1,70 @@
+import React from 'react';
+import { PVColorMode, PVExtrusion, PVStationType } from '../types';
+import { PV_TYPE_COLORS } from '../constants';
+import { paletteGradientCss } from '../utils/colormap';
+import { YieldColoring } from '../utils/pvYield';
+
+interface PVLegendProps {
+  extrusion: PVExtrusion;
+  colorMode: PVColorMode;
+  color: string;
+  yieldColoring: YieldColoring | null;
+}
+
+const formatValue = (v: number) => (v !== 0 && (Math.abs(v) < 0.01 || Math.abs(v) >= 1000) ? v.toExponential(1) : v.toPrecision(3));
+
+// Height scale for extruded stations plus type swatches or the estimate ramp for the colour mode
+const PVLegend: React.FC<PVLegendProps> = ({ extrusion, colorMode, color, yieldColoring }) => {
+  const extruded = extrusion.attribute !== 'None';
+  if (!extruded && colorMode !== 'Type' && !yieldColoring) return null;
+
+  return (
+    <div className="absolute bottom-36 left-4 z-40 w-72 p-3 rounded-xl bg-black/50 backdrop-blur-md border border-white/10 text-white font-mono text-[10px] pointer-events-none select-none">
+      {extruded && (
+        <>
+          <div className="flex justify-between mb-1">
+            <span className="text-blue-400 font-bold uppercase tracking-widest">PV Height · {extrusion.attribute}</span>
+            <span className="text-gray-400">{extrusion.units}</span>
+          </div>
+          {extrusion.max > 0 ? (
+            <>
+              <div className="h-3 rounded" style={{ background: `linear-gradient(to right, transparent, ${colorMode === 'Type' ? '#ffffff' : color})` }} />
+              <div className="flex justify-between mt-1 text-gray-300">
+                <span>0</span>
+                <span>{formatValue(extrusion.max / 2)}</span>
+                <span>{formatValue(extrusion.max)}</span>
+              </div>
+            </>
+          ) : (
+            <div className="text-gray-500">No station has a value for this attribute</div>
+          )}
+        </>
+      )}
+      {yieldColoring && (
+        <div className={extruded ? 'mt-2' : ''}>
+          <div className="flex justify-between mb-1">
+            <span className="text-blue-400 font-bold uppercase tracking-widest">PV {colorMode}</span>
+            <span className="text-gray-400">{yieldColoring.units}</span>
+          </div>
+          <div className="h-3 rounded" style={{ background: paletteGradientCss(yieldColoring.scale.stops) }} />
+          <div className="flex justify-between mt-1 text-gray-300">
+            <span>{formatValue(yieldColoring.scale.config.min)}</span>
+            <span>{formatValue(yieldColoring.scale.config.max)}</span>
+          </div>
+        </div>
+      )}
+      {colorMode === 'Type' && (
+        <div className={`flex gap-3 ${extruded ? 'mt-2' : ''}`}>
+          {(Object.keys(PV_TYPE_COLORS) as PVStationType[]).map(type => (
+            <span key={type} className="flex items-center gap-1 text-gray-300">
+              <span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ background: PV_TYPE_COLORS[type] }} />
+              {type}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PVLegend;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { PerformanceStats, QualityLevel } from '../types';
+
+interface PerformanceHudProps {
+  stats: PerformanceStats | null; // null until the first window is measured
+  level: QualityLevel;
+  auto: boolean;
+  dpr: number;
+}
+
+const Row: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className = '' }) => (
+  <div className="flex justify-between"><span className="text-gray-400">{label}</span><span className={className}>{value}</span></div>
+);
+
+// Frame rate and renderer load, top left beside the sun readout
+const PerformanceHud: React.FC<PerformanceHudProps> = ({ stats, level, auto, dpr }) => (
+  <div className="absolute top-4 left-[27rem] z-40 w-40 p-3 rounded-xl bg-black/40 backdrop-blur-md border border-white/10 text-white font-mono text-[10px] pointer-events-none select-none">
+    <h3 className="text-emerald-400 font-bold mb-1 uppercase tracking-widest">Performance</h3>
+    <Row label="FPS" value={stats ? stats.fps.toFixed(0) : '–'} />
+    <Row label="Frame" value={stats ? `${stats.frameMs.toFixed(1)} ms` : '–'} />
+    <Row label="Draw calls" value={stats ? String(stats.drawCalls) : '–'} />
+    <Row label="Triangles" value={stats ? stats.triangles.toLocaleString() : '–'} />
+    <div className="mt-1 pt-1 border-t border-white/10">
+      <Row label="Quality" value={`${level.label}${auto ? ' (Auto)' : ''}`} />
+      <Row label="DPR" value={dpr.toFixed(2)} />
+      <Row label="Shadows" value={level.shadows ? 'on' : 'off'} className={level.shadows ? '' : 'text-gray-500'} />
+    </div>
+  </div>
+);
+
+export default PerformanceHud;
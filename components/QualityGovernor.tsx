@@ -0,0 +1,59 @@
+/// <reference types="@react-three/fiber" />
+import React, { useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { PerformanceStats } from '../types';
+import { createGovernor, governQuality } from '../utils/quality';
+
+interface QualityGovernorProps {
+  auto: boolean; // adapt the rung; otherwise only measure
+  level: number; // rung rendered now
+  targetFps: number;
+  paused: boolean; // e.g. while an export renders off-screen frames
+  onLevel: (level: number) => void;
+  onStats?: (stats: PerformanceStats) => void; // once per window, when a HUD wants it
+}
+
+// Measurement window, and the frame gap treated as a stall (hidden tab, shader compile) rather than load
+const WINDOW_MS = 1000;
+const STALL_MS = 250;
+
+/**
+ * Measures frame times inside the render loop and, in Auto, steps the
+ * quality rung to hold the target frame rate. Renders nothing.
+ */
+const QualityGovernor: React.FC<QualityGovernorProps> = ({ auto, level, targetFps, paused, onLevel, onStats }) => {
+  const governorRef = useRef(createGovernor(level));
+  const windowRef = useRef({ start: 0, last: 0, frames: 0 });
+
+  // Adapt from wherever Auto takes over
+  useEffect(() => {
+    if (auto) governorRef.current = createGovernor(level);
+  }, [auto]);
+
+  useFrame(({ gl }) => {
+    const now = performance.now();
+    const w = windowRef.current;
+    const gap = now - w.last;
+    w.last = now;
+    if (gap > STALL_MS || paused) {
+      w.start = now;
+      w.frames = 0;
+      return;
+    }
+    w.frames++;
+    const elapsed = now - w.start;
+    if (elapsed < WINDOW_MS) return;
+
+    const fps = (w.frames * 1000) / elapsed;
+    w.start = now;
+    w.frames = 0;
+    onStats?.({ fps, frameMs: 1000 / fps, drawCalls: gl.info.render.calls, triangles: gl.info.render.triangles });
+    if (!auto) return;
+    const next = governQuality(governorRef.current, fps, targetFps, now);
+    if (next !== level) onLevel(next);
+  });
+
+  return null;
+};
+
+export default QualityGovernor;
@@ -0,0 +1,90 @@
+/// <reference types="@react-three/fiber" />
+import React, { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { AODRaster, DEMRaster, MapLayer, RegionOfInterest } from '../types';
+import { ColorScale } from '../utils/colormap';
+import { layerMaterial } from '../utils/layers';
+import { RASTER_FRAGMENT_SHADER, RASTER_VERTEX_SHADER, colorScaleUniforms, createDataTexture, createLutTexture } from '../utils/rasterShader';
+import { roiMask } from '../utils/roi';
+import { buildDrapedGeometry } from '../utils/terrain';
+
+interface RasterPatchProps {
+  raster: AODRaster;
+  colorScale: ColorScale;
+  layer: Pick<MapLayer, 'opacity' | 'blend'>;
+  renderOrder: number;
+  dem?: DEMRaster;
+  demStrength: number;
+  clip?: RegionOfInterest[];
+}
+
+// Height above the (exaggerated) ground; polygon offset covers the rest
+const DRAPE_OFFSET = 0.01;
+
+/**
+ * Data raster drawn on the GPU over a patch that follows the globe and
+ * terrain. Ramp changes only touch uniforms and the 256-entry LUT; the data
+ * texture is rebuilt only when the raster or the ROI clip changes.
+ */
+const RasterPatch: React.FC<RasterPatchProps> = ({ raster, colorScale, layer, renderOrder, dem, demStrength, clip }) => {
+  const geometry = useMemo(
+    () => buildDrapedGeometry(raster.bounds, dem, demStrength, DRAPE_OFFSET),
+    [raster.bounds, dem, demStrength]
+  );
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  const dataTexture = useMemo(() => createDataTexture(raster, clip ? roiMask(raster, clip) : undefined), [raster, clip]);
+  useEffect(() => () => dataTexture.dispose(), [dataTexture]);
+
+  const lutTexture = useMemo(() => createLutTexture(colorScale), [colorScale.lut]);
+  useEffect(() => () => lutTexture.dispose(), [lutTexture]);
+
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    vertexShader: RASTER_VERTEX_SHADER,
+    fragmentShader: RASTER_FRAGMENT_SHADER,
+    uniforms: {
+      uData: { value: null },
+      uLut: { value: null },
+      uBounds: { value: new THREE.Vector4() },
+      uMode: { value: 0 },
+      uMin: { value: 0 },
+      uMax: { value: 1 },
+      uCenter: { value: 0 },
+      uBreaks: { value: [] },
+      uBreakCount: { value: 0 },
+      uOpacity: { value: 1 },
+    },
+    polygonOffset: true,
+    polygonOffsetFactor: -4,
+    polygonOffsetUnits: -4,
+  }), []);
+  useEffect(() => () => material.dispose(), [material]);
+
+  // Everything below is a uniform or state update, no shader rebuild
+  const { uniforms } = material;
+  uniforms.uData.value = dataTexture;
+  uniforms.uLut.value = lutTexture;
+  const { west, south, east, north } = raster.bounds;
+  uniforms.uBounds.value.set(west, south, east, north);
+  const scale = colorScaleUniforms(colorScale);
+  uniforms.uMode.value = scale.mode;
+  uniforms.uMin.value = scale.min;
+  uniforms.uMax.value = scale.max;
+  uniforms.uCenter.value = scale.center;
+  uniforms.uBreaks.value = scale.breaks;
+  uniforms.uBreakCount.value = scale.breakCount;
+  uniforms.uOpacity.value = layer.opacity;
+
+  const { blending, premultipliedAlpha, transparent, depthWrite } = layerMaterial(layer);
+  useEffect(() => {
+    material.blending = blending;
+    material.premultipliedAlpha = premultipliedAlpha;
+    material.transparent = transparent;
+    material.depthWrite = depthWrite;
+    material.needsUpdate = true; // premultipliedAlpha is a shader define
+  }, [material, blending, premultipliedAlpha, transparent, depthWrite]);
+
+  return <mesh geometry={geometry} material={material} renderOrder={renderOrder} />;
+};
+
+export default RasterPatch;
@@ -0,0 +1,101 @@
+/// <reference types="@react-three/fiber" />
+import React, { useMemo } from 'react';
+import DrapedLines from './DrapedLines';
+import MapLabels from './MapLabels';
+import { GRATICULE_STEP, HOBQ_OUTLINE, PLACE_LABELS, VECTOR_COLORS } from '../constants';
+import { LatLon, MapLayer, VectorLayerData, ViewMode } from '../types';
+import { VectorKey, useAssetVector } from '../utils/assets';
+import { graticuleLines, parseVectorLayer } from '../utils/vectors';
+
+export type ReferenceLineKind = 'graticule' | 'borders' | 'rivers' | 'desertOutline';
+
+// Natural Earth vertices are already dense; this only splits the rare long edge
+const VECTOR_STEP_DEG = 0.5;
+
+// Label priority bands: places beat river names, which beat degree labels
+const RIVER_LABEL_PRIORITY = 1;
+
+const DESERT_LINES = [HOBQ_OUTLINE];
+
+// Parsed once per file and shared by the line layer and the labels
+const parsed = new Map<VectorKey, VectorLayerData>();
+
+const useReferenceVector = (key: VectorKey, enabled: boolean): VectorLayerData | null => {
+  const json = useAssetVector(key, enabled);
+  return useMemo(() => {
+    if (!json) return null;
+    if (!parsed.has(key)) parsed.set(key, parseVectorLayer(json, key, key === 'rivers' ? RIVER_LABEL_PRIORITY : 1));
+    return parsed.get(key)!;
+  }, [json, key]);
+};
+
+interface ReferenceLinesProps {
+  kind: ReferenceLineKind;
+  layer: MapLayer;
+  viewMode: ViewMode;
+  radius: number;
+  renderOrder: number;
+}
+
+/**
+ * One orientation line layer in the globe frame. Vector files are only
+ * downloaded once their layer is first shown.
+ */
+export const ReferenceLines: React.FC<ReferenceLinesProps> = ({ kind, layer, viewMode, radius, renderOrder }) => {
+  const countries = useReferenceVector('countries', kind === 'borders');
+  const provinces = useReferenceVector('provinces', kind === 'borders');
+  const rivers = useReferenceVector('rivers', kind === 'rivers');
+  const step = GRATICULE_STEP[viewMode];
+  const graticule = useMemo(() => (kind === 'graticule' ? graticuleLines(step) : []), [kind, step]);
+
+  const sets: { lines: LatLon[][]; color: string; stepDeg?: number; fade?: number }[] =
+    kind === 'graticule' ? [{ lines: graticule, color: VECTOR_COLORS.graticule, stepDeg: 1 }]
+    : kind === 'borders' ? [
+      ...(countries ? [{ lines: countries.lines, color: VECTOR_COLORS.countries, stepDeg: VECTOR_STEP_DEG }] : []),
+      // Province lines a little fainter than national borders
+      ...(provinces ? [{ lines: provinces.lines, color: VECTOR_COLORS.provinces, stepDeg: VECTOR_STEP_DEG, fade: 0.75 }] : []),
+    ]
+    : kind === 'rivers' ? (rivers ? [{ lines: rivers.lines, color: VECTOR_COLORS.rivers, stepDeg: VECTOR_STEP_DEG }] : [])
+    : [{ lines: DESERT_LINES, color: VECTOR_COLORS.desert }];
+
+  return (
+    <group>
+      {sets.map((set, i) => (
+        <DrapedLines
+          key={i}
+          lines={set.lines}
+          radius={radius}
+          color={set.color}
+          stepDeg={set.stepDeg}
+          layer={{ opacity: layer.opacity * (set.fade ?? 1), blend: layer.blend }}
+          renderOrder={renderOrder}
+        />
+      ))}
+    </group>
+  );
+};
+
+interface ReferenceLabelsProps {
+  layer: MapLayer;
+  viewMode: ViewMode;
+  radius: number;
+  graticule: boolean; // degree labels follow the graticule layer
+  rivers: boolean; // river names follow the rivers layer
+}
+
+// Place names, river names and degree labels in screen space
+export const ReferenceLabels: React.FC<ReferenceLabelsProps> = ({ layer, viewMode, radius, graticule, rivers }) => {
+  const riverData = useReferenceVector('rivers', rivers);
+  const labels = useMemo(
+    () => [...PLACE_LABELS, ...(rivers && riverData ? riverData.labels : [])],
+    [rivers, riverData]
+  );
+  return (
+    <MapLabels
+      labels={labels}
+      graticuleStep={graticule ? GRATICULE_STEP[viewMode] : null}
+      radius={radius}
+      opacity={layer.opacity}
+    />
+  );
+};
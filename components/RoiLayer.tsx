@@ -0,0 +1,45 @@
+/// <reference types="@react-three/fiber" />
+import React, { useMemo } from 'react';
+import DrapedLines from './DrapedLines';
+import { EARTH_RADIUS, ROI_COLORS } from '../constants';
+import { MapLayer, ROIDraft, RegionOfInterest } from '../types';
+import { latLonToVector3 } from '../utils/geodesy';
+import { draftRing } from '../utils/roi';
+
+interface RoiLayerProps {
+  rois: RegionOfInterest[];
+  draft: ROIDraft | null;
+  lift: number; // height above the sphere, clear of the terrain and AOD patch
+  layer: Pick<MapLayer, 'opacity' | 'blend'>;
+  renderOrder: number;
+}
+
+// Draped ROI outlines; the draft shows its open path until it encloses an area
+const RoiLayer: React.FC<RoiLayerProps> = ({ rois, draft, lift, layer, renderOrder }) => {
+  const radius = EARTH_RADIUS + lift;
+  const savedRings = useMemo(() => rois.flatMap(roi => roi.polygons.flat()), [rois]);
+  const draftRings = useMemo(() => {
+    if (!draft || draft.points.length === 0) return [];
+    return [draftRing(draft) ?? draft.points];
+  }, [draft]);
+
+  const vertices = useMemo(
+    () => (draft?.points ?? []).map(p => latLonToVector3(p.lat, p.lon, radius)),
+    [draft, radius]
+  );
+
+  return (
+    <group>
+      {savedRings.length > 0 && <DrapedLines lines={savedRings} radius={radius} color={ROI_COLORS.saved} layer={layer} renderOrder={renderOrder} />}
+      {draftRings.length > 0 && <DrapedLines lines={draftRings} radius={radius} color={ROI_COLORS.draft} renderOrder={renderOrder} />}
+      {vertices.map((v, i) => (
+        <mesh key={i} position={v}>
+          <sphereGeometry args={[0.05, 8, 8]} />
+          <meshBasicMaterial color={ROI_COLORS.draft} />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+export default RoiLayer;
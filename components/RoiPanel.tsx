@@ -0,0 +1,110 @@
+import React, { useEffect, useMemo } from 'react';
+import { AODRaster, LatLon, ROIDraft, RegionOfInterest } from '../types';
+import { ROI_COLORS } from '../constants';
+import { roiAreaKm2, roiCentre, roiPerimeterKm } from '../utils/roi';
+import { roiZonalStats } from '../utils/stats';
+
+interface RoiPanelProps {
+  rois: RegionOfInterest[];
+  draft: ROIDraft | null;
+  raster?: AODRaster; // active AOD layer, for zonal statistics
+  layerLabel: string;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onFlyTo: (latLon: LatLon) => void;
+  onFinishDraft: () => void;
+  onUndoPoint: () => void;
+  onCancelDraft: () => void;
+}
+
+const fmt = (v: number | null) => (v === null ? '–' : Math.abs(v) < 0.01 ? v.toExponential(2) : v.toFixed(3));
+
+const DraftHelp: React.FC<{ draft: ROIDraft; onFinish: () => void; onUndo: () => void; onCancel: () => void }> = ({ draft, onFinish, onUndo, onCancel }) => {
+  // Enter closes the polygon, Backspace drops the last vertex, Escape abandons it
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement)?.tagName === 'INPUT') return;
+      if (e.key === 'Enter') onFinish();
+      else if (e.key === 'Backspace') onUndo();
+      else if (e.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onFinish, onUndo, onCancel]);
+
+  return (
+    <div className="p-3 border-b border-white/10" style={{ color: ROI_COLORS.draft }}>
+      <div className="mb-2">
+        {draft.mode === 'Rectangle'
+          ? `Click two opposite corners on the globe (${draft.points.length}/2)`
+          : `Click vertices on the globe (${draft.points.length} placed), Enter to close`}
+      </div>
+      <div className="flex gap-2 text-gray-300">
+        {draft.mode === 'Polygon' && (
+          <button onClick={onFinish} disabled={draft.points.length < 3} className="px-2 py-0.5 rounded border border-white/20 hover:border-white/50 disabled:opacity-40">Finish</button>
+        )}
+        <button onClick={onUndo} disabled={draft.points.length === 0} className="px-2 py-0.5 rounded border border-white/20 hover:border-white/50 disabled:opacity-40">Undo</button>
+        <button onClick={onCancel} className="px-2 py-0.5 rounded border border-white/20 hover:border-white/50">Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+const RoiRow: React.FC<{ roi: RegionOfInterest; raster?: AODRaster; onRename: (name: string) => void; onDelete: () => void; onFlyTo: () => void }> = ({ roi, raster, onRename, onDelete, onFlyTo }) => {
+  const area = useMemo(() => roiAreaKm2(roi), [roi]);
+  const perimeter = useMemo(() => roiPerimeterKm(roi), [roi]);
+  const stats = useMemo(() => (raster ? roiZonalStats(roi, raster) : null), [roi, raster]);
+
+  return (
+    <div className="px-3 py-2 border-t border-white/5">
+      <div className="flex items-center gap-2">
+        <input
+          value={roi.name}
+          onChange={e => onRename(e.target.value)}
+          className="flex-1 min-w-0 bg-transparent border-b border-transparent hover:border-white/20 focus:border-white/40 outline-none"
+          style={{ color: ROI_COLORS.saved }}
+        />
+        <button onClick={onFlyTo} className="text-gray-400 hover:text-white" title="Fly to ROI">⌖</button>
+        <button onClick={onDelete} className="text-gray-400 hover:text-white" title="Delete ROI">✕</button>
+      </div>
+      <div className="flex justify-between text-gray-400 mt-1">
+        <span>{area.toFixed(2)} km²</span>
+        <span>{perimeter.toFixed(2)} km perimeter</span>
+      </div>
+      {stats && stats.count > 0 && (
+        <div className="flex justify-between mt-1" title={`${stats.count} pixels`}>
+          <span>mean {fmt(stats.mean)}</span>
+          <span>median {fmt(stats.median)}</span>
+          <span>std {fmt(stats.std)}</span>
+        </div>
+      )}
+      {stats && stats.count === 0 && <div className="text-gray-500">No AOD pixels inside</div>}
+    </div>
+  );
+};
+
+// Saved regions of interest with their size and AOD statistics, plus drawing help
+const RoiPanel: React.FC<RoiPanelProps> = ({ rois, draft, raster, layerLabel, onRename, onDelete, onFlyTo, onFinishDraft, onUndoPoint, onCancelDraft }) => (
+  <div className="absolute bottom-72 right-4 z-40 w-72 max-h-[40vh] flex flex-col rounded-xl bg-black/60 backdrop-blur-md border border-white/10 text-white font-mono text-[11px]">
+    <div className="flex items-center justify-between p-3 border-b border-white/10">
+      <span className="text-blue-400 font-bold uppercase tracking-widest text-[10px]">Regions of Interest</span>
+      <span className="text-gray-500">{raster ? `AOD ${layerLabel}` : 'no AOD raster'}</span>
+    </div>
+    {draft && <DraftHelp draft={draft} onFinish={onFinishDraft} onUndo={onUndoPoint} onCancel={onCancelDraft} />}
+    <div className="overflow-auto">
+      {rois.map(roi => (
+        <RoiRow
+          key={roi.id}
+          roi={roi}
+          raster={raster}
+          onRename={name => onRename(roi.id, name)}
+          onDelete={() => onDelete(roi.id)}
+          onFlyTo={() => onFlyTo(roiCentre(roi))}
+        />
+      ))}
+      {rois.length === 0 && !draft && <div className="p-3 text-gray-500">No regions yet</div>}
+    </div>
+  </div>
+);
+
+export default RoiPanel;
@@ -1,71 +1,209 @@
 /// <reference types="@react-three/fiber" />
-import React, { useRef, useLayoutEffect } from 'react';
+import React, { useRef, useLayoutEffect, useMemo, useEffect } from 'react';
 import * as THREE from 'three';
-import { useFrame } from '@react-three/fiber';
-import { MOCK_PV_STATIONS, EARTH_RADIUS } from '../constants';
+import { useFrame, ThreeEvent } from '@react-three/fiber';
+import { EARTH_RADIUS, PV_MAX_EXTRUSION, PV_TYPE_COLORS } from '../constants';
+import { LatLon, PVStationData, DEMRaster, PVExtrusion, PVColorMode } from '../types';
+import { latLonToVector3, tangentFrameQuaternion } from '../utils/geodesy';
+import { terrainLift } from '../utils/terrain';
+import { YieldColoring } from '../utils/pvYield';
 
 interface SolarPanelsProps {
+  stations: PVStationData[];
+  extrusion: PVExtrusion;
   scaleMultiplier: number;
   color: string;
+  colorMode: PVColorMode;
+  yieldColoring: YieldColoring | null; // set for the estimator colour modes
+  highlightColor: string;
+  selectedId: string | null;
+  onSelect: (station: PVStationData) => void;
+  dem?: DEMRaster;
+  demStrength: number;
 }
 
-const SolarPanels: React.FC<SolarPanelsProps> = ({ scaleMultiplier, color }) => {
+// Pointer travel (px) above which a click is treated as an orbit drag
+const CLICK_DRAG_TOLERANCE = 4;
+
+// Max angular step between outline vertices, so long edges follow the curvature
+const OUTLINE_STEP_DEG = 0.05;
+
+type SurfaceRadius = (lat: number, lon: number) => number;
+
+// Build line-segment pairs for every footprint ring, subdividing each edge
+const buildOutlinePositions = (stations: PVStationData[], radiusAt: SurfaceRadius): Float32Array => {
+  const points: number[] = [];
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+
+  const pushEdge = (from: LatLon, to: LatLon) => {
+    const steps = Math.max(1, Math.ceil(Math.hypot(to.lat - from.lat, to.lon - from.lon) / OUTLINE_STEP_DEG));
+    for (let s = 0; s < steps; s++) {
+      const t0 = s / steps;
+      const t1 = (s + 1) / steps;
+      const lat0 = from.lat + (to.lat - from.lat) * t0;
+      const lon0 = from.lon + (to.lon - from.lon) * t0;
+      const lat1 = from.lat + (to.lat - from.lat) * t1;
+      const lon1 = from.lon + (to.lon - from.lon) * t1;
+      latLonToVector3(lat0, lon0, radiusAt(lat0, lon0), a);
+      latLonToVector3(lat1, lon1, radiusAt(lat1, lon1), b);
+      points.push(a.x, a.y, a.z, b.x, b.y, b.z);
+    }
+  };
+
+  stations.forEach(station => {
+    station.footprint?.forEach(ring => {
+      for (let i = 0; i < ring.length - 1; i++) pushEdge(ring[i], ring[i + 1]);
+    });
+  });
+  return new Float32Array(points);
+};
+
+const StationOutlines: React.FC<{ stations: PVStationData[], color: string, radiusAt: SurfaceRadius }> = ({ stations, color, radiusAt }) => {
+  const geometry = useMemo(() => {
+    const geom = new THREE.BufferGeometry();
+    geom.setAttribute('position', new THREE.BufferAttribute(buildOutlinePositions(stations, radiusAt), 3));
+    return geom;
+  }, [stations, radiusAt]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <lineSegments geometry={geometry}>
+      <lineBasicMaterial color={color} transparent opacity={0.9} depthWrite={false} />
+    </lineSegments>
+  );
+};
+
+// Footprint width (scene units) of each station marker by size class
+const TYPE_SIZE: Record<PVStationData['type'], number> = { Small: 0.1, Medium: 0.2, Large: 0.3 };
+
+// Panel thickness relative to its width when nothing is extruded
+const PANEL_THICKNESS = 0.1;
+
+const SolarPanels: React.FC<SolarPanelsProps> = ({
+  stations, extrusion, scaleMultiplier, color, colorMode, yieldColoring, highlightColor, selectedId, onSelect, dem, demStrength
+}) => {
   const meshRef = useRef<THREE.InstancedMesh>(null);
-  const dummy = new THREE.Object3D();
+  const heightsRef = useRef<Float32Array>(new Float32Array(0));
 
+  // Unit box with its base on the origin, so scaling Y extrudes away from the ground
+  const geometry = useMemo(() => new THREE.BoxGeometry(1, 1, 1).translate(0, 0.5, 0), []);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // Ground level including the DEM patch, so stations sit on the terrain
+  const groundAt = useMemo<SurfaceRadius>(
+    () => (lat, lon) => EARTH_RADIUS + terrainLift(dem, lat, lon, demStrength),
+    [dem, demStrength]
+  );
+  const outlineAt = useMemo<SurfaceRadius>(() => (lat, lon) => groundAt(lat, lon) + 0.06, [groundAt]);
+  const selectedOutlineAt = useMemo<SurfaceRadius>(() => (lat, lon) => groundAt(lat, lon) + 0.08, [groundAt]);
+
+  // Polygon stations keep their outlines; their instance is only shown as a bar when extruded
+  const polygonStations = useMemo(() => stations.filter(s => s.footprint), [stations]);
+
+  // Position and tangent orientation of every station on the ground
+  const placements = useMemo(() => stations.map(station => ({
+    position: latLonToVector3(station.lat, station.lon, groundAt(station.lat, station.lon) + 0.01),
+    quaternion: tangentFrameQuaternion(station.lat, station.lon),
+    size: TYPE_SIZE[station.type],
+  })), [stations, groundAt]);
+
+  // Target height per instance; 0 hides the instance
+  const targetHeights = useMemo(() => {
+    const maxHeight = scaleMultiplier * PV_MAX_EXTRUSION;
+    return Float32Array.from(stations, (station, i) => {
+      const value = extrusion.values[i];
+      const panel = station.footprint ? 0 : placements[i].size * PANEL_THICKNESS;
+      if (value === null || value === undefined || extrusion.max === 0) return panel;
+      return Math.max(panel, 0.01) + (Math.abs(value) / extrusion.max) * maxHeight;
+    });
+  }, [stations, extrusion, scaleMultiplier, placements]);
+
+  const writeMatrices = (heights: Float32Array) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const matrix = new THREE.Matrix4();
+    const scale = new THREE.Vector3();
+    placements.forEach((p, i) => {
+      const h = heights[i];
+      scale.set(h > 0 ? p.size : 0, h, h > 0 ? p.size : 0);
+      mesh.setMatrixAt(i, matrix.compose(p.position, p.quaternion, scale));
+    });
+    mesh.instanceMatrix.needsUpdate = true;
+    mesh.computeBoundingSphere();
+  };
+
+  // Placement changes snap; height changes are animated in useFrame
   useLayoutEffect(() => {
-    if (!meshRef.current) return;
+    if (heightsRef.current.length !== stations.length) {
+      heightsRef.current = Float32Array.from(targetHeights);
+    }
+    writeMatrices(heightsRef.current);
+  }, [placements]);
 
-    MOCK_PV_STATIONS.forEach((station, i) => {
-      // Convert Lat/Lon to Vector3
-      const phi = (90 - station.lat) * (Math.PI / 180);
-      const theta = (station.lon + 180) * (Math.PI / 180);
-
-      const r = EARTH_RADIUS + 0.05; // Slightly above ground
-      
-      dummy.position.x = -(r * Math.sin(phi) * Math.cos(theta));
-      dummy.position.z = (r * Math.sin(phi) * Math.sin(theta));
-      dummy.position.y = (r * Math.cos(phi));
-
-      dummy.lookAt(0, 0, 0); // Face center
-      
-      // Orient correctly on surface (tangent)
-      const up = new THREE.Vector3(0, 1, 0);
-      const quaternion = new THREE.Quaternion();
-      quaternion.setFromUnitVectors(up, dummy.position.clone().normalize());
-      dummy.quaternion.copy(quaternion);
-      
-      // Scale based on station size
-      const size = station.type === 'Large' ? 0.3 : station.type === 'Medium' ? 0.2 : 0.1;
-      dummy.scale.set(size, size, size);
-
-      dummy.updateMatrix();
-      meshRef.current!.setMatrixAt(i, dummy.matrix);
+  // Per-instance colour: by type, estimate or uniform, the selected station takes the highlight colour
+  useLayoutEffect(() => {
+    if (!meshRef.current) return;
+    const base = new THREE.Color(color);
+    const highlight = new THREE.Color(highlightColor);
+    const instanceColor = new THREE.Color();
+    stations.forEach((station, i) => {
+      let c = base;
+      if (station.id === selectedId) c = highlight;
+      else if (yieldColoring) {
+        const k = Math.round(yieldColoring.scale.normalize(yieldColoring.values[i]) * 255) * 4;
+        const lut = yieldColoring.scale.lut;
+        c = instanceColor.setRGB(lut[k] / 255, lut[k + 1] / 255, lut[k + 2] / 255, THREE.SRGBColorSpace);
+      } else if (colorMode === 'Type') c = instanceColor.set(PV_TYPE_COLORS[station.type]);
+      meshRef.current!.setColorAt(i, c);
     });
-    meshRef.current.instanceMatrix.needsUpdate = true;
-  }, []);
+    if (meshRef.current.instanceColor) meshRef.current.instanceColor.needsUpdate = true;
+  }, [stations, color, colorMode, yieldColoring, highlightColor, selectedId]);
+
+  const selectedPolygon = useMemo(
+    () => polygonStations.filter(s => s.id === selectedId),
+    [polygonStations, selectedId]
+  );
+
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    if (e.delta > CLICK_DRAG_TOLERANCE || e.instanceId === undefined) return;
+    e.stopPropagation();
+    onSelect(stations[e.instanceId]);
+  };
 
   useFrame(() => {
-     if (meshRef.current) {
-        // Dynamic scaling based on gesture
-        const currentScale = meshRef.current.scale;
-        const targetScale = 1 + scaleMultiplier * 2;
-        currentScale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), 0.1);
-     }
+    // Ease each instance towards its target height (gesture/slider driven)
+    const heights = heightsRef.current;
+    if (heights.length !== targetHeights.length) return;
+    let moving = false;
+    for (let i = 0; i < heights.length; i++) {
+      const delta = targetHeights[i] - heights[i];
+      if (Math.abs(delta) > 1e-4) {
+        heights[i] += delta * 0.1;
+        moving = true;
+      } else {
+        heights[i] = targetHeights[i];
+      }
+    }
+    if (moving) writeMatrices(heights);
   });
 
   return (
-    <instancedMesh ref={meshRef} args={[undefined, undefined, MOCK_PV_STATIONS.length]}>
-      <boxGeometry args={[1, 0.1, 1]} />
-      <meshStandardMaterial 
-        color={color} 
-        roughness={0.2} 
-        metalness={0.8}
-        emissive={color}
-        emissiveIntensity={0.2}
-      />
-    </instancedMesh>
+    <group>
+      {/* Instance count is fixed at creation, so remount when the station count changes */}
+      <instancedMesh key={stations.length} ref={meshRef} args={[geometry, undefined, stations.length]} onClick={handleClick}>
+        <meshStandardMaterial
+          color="#ffffff" // tinted per instance
+          roughness={0.2}
+          metalness={0.8}
+          emissive={color}
+          emissiveIntensity={0.2}
+        />
+      </instancedMesh>
+      {polygonStations.length > 0 && <StationOutlines stations={polygonStations} color={color} radiusAt={outlineAt} />}
+      {selectedPolygon.length > 0 && <StationOutlines stations={selectedPolygon} color={highlightColor} radiusAt={selectedOutlineAt} />}
+    </group>
   );
 };
 
-export default SolarPanels;
\ No newline at end of file
+export default SolarPanels;
@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import { AODLayer, AODRaster, PVStationData, StationZoneStats, ZoneStats } from '../types';
+import { DEFAULT_BUFFERS_KM, computeZoneStats, parseBuffers, poolZones, zoneStatsToCsv } from '../utils/stats';
+import { downloadBlob } from '../utils/download';
+
+interface StatsPanelProps {
+  stations: PVStationData[];
+  rasters: Partial<Record<AODLayer, AODRaster>>;
+  selectedId: string | null;
+  highlightColor: string;
+  onSelectStation: (station: PVStationData) => void;
+  onClose: () => void;
+}
+
+const STAT_LAYERS: AODLayer[] = ['Mean', 'Slope'];
+
+const CHART_W = 320;
+const CHART_H = 120;
+
+const fmt = (v: number | null, layer: AODLayer) => (v === null ? '–' : v.toFixed(layer === 'Slope' ? 4 : 3));
+
+// Pooled station means per zone, with a ±1 std whisker
+const ZoneChart: React.FC<{ zones: ZoneStats[]; layer: AODLayer }> = ({ zones, layer }) => {
+  const valid = zones.filter(z => z.mean !== null);
+  if (valid.length === 0) return <div className="text-gray-500">No pixels in any zone</div>;
+  // The axis always spans zero, so differenced or anomaly layers plot below it
+  const lo = Math.min(0, ...valid.map(z => z.mean! - (z.std ?? 0)));
+  const hi = Math.max(0, ...valid.map(z => z.mean! + (z.std ?? 0)));
+  const span = hi - lo || 1;
+  // Room below the axis for the zone names, and for value labels under negative bars
+  const bottom = lo < 0 ? 24 : 14;
+  const y = (v: number) => CHART_H - bottom - ((v - lo) / span) * (CHART_H - bottom - 10);
+  const slot = CHART_W / zones.length;
+  return (
+    <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full">
+      <line x1={0} x2={CHART_W} y1={y(0)} y2={y(0)} stroke="#ffffff33" />
+      {zones.map((z, k) => z.mean !== null && (
+        <g key={z.zone}>
+          <rect x={k * slot + slot * 0.2} width={slot * 0.6} y={Math.min(y(z.mean), y(0))} height={Math.abs(y(z.mean) - y(0))} fill={k === 0 ? '#f59e0b' : '#3b82f6'} />
+          {z.std !== null && (
+            <line x1={k * slot + slot / 2} x2={k * slot + slot / 2} y1={y(z.mean - z.std)} y2={y(z.mean + z.std)} stroke="#ffffffaa" />
+          )}
+          <text x={k * slot + slot / 2} y={z.mean < 0 ? y(z.mean) + 9 : y(z.mean) - 4} fill="#e5e7eb" fontSize={8} textAnchor="middle">{fmt(z.mean, layer)}</text>
+          <text x={k * slot + slot / 2} y={CHART_H - 3} fill="#9ca3af" fontSize={8} textAnchor="middle">{z.zone}</text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+// Footprint mean minus outermost ring mean, one bar per station, sorted
+const ContrastChart: React.FC<{ rows: StationZoneStats[]; selectedId: string | null; highlightColor: string; onSelect: (s: PVStationData) => void }> = ({ rows, selectedId, highlightColor, onSelect }) => {
+  const diffs = rows
+    .map(r => ({ station: r.station, inside: r.zones[0].mean, outside: r.zones[r.zones.length - 1].mean }))
+    .filter((d): d is { station: PVStationData; inside: number; outside: number } => d.inside !== null && d.outside !== null)
+    .map(d => ({ station: d.station, diff: d.inside - d.outside }))
+    .sort((a, b) => a.diff - b.diff);
+  if (diffs.length === 0) return <div className="text-gray-500">No station has both footprint and outer-ring pixels</div>;
+  const span = Math.max(...diffs.map(d => Math.abs(d.diff))) || 1;
+  const mid = CHART_H / 2;
+  const w = CHART_W / diffs.length;
+  return (
+    <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full">
+      <line x1={0} x2={CHART_W} y1={mid} y2={mid} stroke="#ffffff33" />
+      {diffs.map((d, k) => {
+        const h = (Math.abs(d.diff) / span) * (mid - 6);
+        return (
+          <rect
+            key={d.station.id}
+            x={k * w + w * 0.1}
+            width={Math.max(0.5, w * 0.8)}
+            y={d.diff >= 0 ? mid - h : mid}
+            height={Math.max(0.5, h)}
+            fill={d.station.id === selectedId ? highlightColor : d.diff >= 0 ? '#ef4444' : '#3b82f6'}
+            className="cursor-pointer"
+            onClick={() => onSelect(d.station)}
+          >
+            <title>{`${d.station.id}: ${d.diff.toExponential(2)}`}</title>
+          </rect>
+        );
+      })}
+      <text x={2} y={9} fill="#9ca3af" fontSize={8}>+{span.toExponential(1)}</text>
+      <text x={2} y={CHART_H - 2} fill="#9ca3af" fontSize={8}>−{span.toExponential(1)}</text>
+    </svg>
+  );
+};
+
+// Per-station AOD summaries in the footprint and concentric buffer rings
+const StatsPanel: React.FC<StatsPanelProps> = ({ stations, rasters, selectedId, highlightColor, onSelectStation, onClose }) => {
+  const available = STAT_LAYERS.filter(l => rasters[l]);
+  const [layer, setLayer] = useState<AODLayer>(available[0] ?? 'Mean');
+  const [buffersText, setBuffersText] = useState(DEFAULT_BUFFERS_KM.join(', '));
+  const buffers = useMemo(() => parseBuffers(buffersText), [buffersText]);
+  const raster = rasters[layer];
+
+  const rows = useMemo(
+    () => (raster && buffers.length > 0 ? computeZoneStats(stations, raster, layer, buffers) : []),
+    [stations, raster, layer, buffers]
+  );
+  const pooled = useMemo(() => poolZones(rows), [rows]);
+
+  const exportCsv = () =>
+    downloadBlob(new Blob([zoneStatsToCsv(rows)], { type: 'text/csv' }), `hobq-pv-aod-${layer.toLowerCase()}-zones.csv`);
+
+  return (
+    <div className="absolute top-20 left-1/2 -translate-x-1/2 z-50 w-[46rem] max-w-[90vw] max-h-[75vh] flex flex-col rounded-xl bg-black/75 backdrop-blur-md border border-white/20 text-white font-mono text-[11px] shadow-2xl">
+      <div className="flex items-center gap-3 p-3 border-b border-white/10">
+        <span className="text-blue-400 font-bold uppercase tracking-widest text-[10px] mr-auto">PV Station AOD Statistics</span>
+        <select value={layer} onChange={e => setLayer(e.target.value as AODLayer)} className="bg-black/60 border border-white/20 rounded px-1 py-0.5">
+          {STAT_LAYERS.map(l => <option key={l} value={l} disabled={!rasters[l]}>{l}</option>)}
+        </select>
+        <label className="flex items-center gap-1 text-gray-400">
+          Buffers (km)
+          <input value={buffersText} onChange={e => setBuffersText(e.target.value)} className="w-24 bg-black/60 border border-white/20 rounded px-1 py-0.5 text-white" />
+        </label>
+        <button onClick={exportCsv} disabled={rows.length === 0} className="px-2 py-0.5 rounded border border-white/20 hover:border-white/50 disabled:opacity-40">Export CSV</button>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      {!raster ? (
+        <div className="p-4 text-gray-400">Upload an AOD Mean or Slope GeoTIFF to compute station statistics.</div>
+      ) : buffers.length === 0 ? (
+        <div className="p-4 text-gray-400">Enter one or more buffer distances, e.g. 1, 5, 10.</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 p-3 border-b border-white/10">
+            <div>
+              <div className="text-gray-400 mb-1">Mean of station means by zone (±1 std)</div>
+              <ZoneChart zones={pooled} layer={layer} />
+            </div>
+            <div>
+              <div className="text-gray-400 mb-1">Inside − outside ({pooled[pooled.length - 1]?.zone}) per station</div>
+              <ContrastChart rows={rows} selectedId={selectedId} highlightColor={highlightColor} onSelect={onSelectStation} />
+            </div>
+          </div>
+          <div className="overflow-auto">
+            <table className="w-full text-left">
+              <thead className="sticky top-0 bg-black/90 text-gray-400">
+                <tr>
+                  <th className="px-3 py-1 font-normal">Station</th>
+                  {rows[0]?.zones.map(z => <th key={z.zone} className="px-2 py-1 font-normal text-right">{z.zone}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(r => (
+                  <tr
+                    key={r.station.id}
+                    onClick={() => onSelectStation(r.station)}
+                    className="cursor-pointer hover:bg-white/5 border-t border-white/5"
+                    style={r.station.id === selectedId ? { color: highlightColor } : undefined}
+                  >
+                    <td className="px-3 py-1">{r.station.id} <span className="text-gray-500">{r.station.type}</span></td>
+                    {r.zones.map(z => (
+                      <td key={z.zone} className="px-2 py-1 text-right" title={`median ${fmt(z.median, layer)} · std ${fmt(z.std, layer)}`}>
+                        {fmt(z.mean, layer)} <span className="text-gray-500">({z.count})</span>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StatsPanel;
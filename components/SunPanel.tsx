@@ -0,0 +1,35 @@
+import React from 'react';
+import { HOBQ_CENTER } from '../constants';
+import { clearSkyIrradiance, solarEphemeris, solarPosition } from '../utils/solar';
+
+interface SunPanelProps {
+  time: Date; // scene clock
+}
+
+const formatHours = (hours: number) => {
+  const minutes = Math.floor(hours * 60) % 1440;
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+// Sun over the Hobq at the scene clock, top left beside the gesture status
+const SunPanel: React.FC<SunPanelProps> = ({ time }) => {
+  const sun = solarPosition(time, HOBQ_CENTER);
+  const irradiance = clearSkyIrradiance(sun.elevation, solarEphemeris(time).distance);
+  const utc = time.getUTCHours() + time.getUTCMinutes() / 60;
+
+  return (
+    <div className="absolute top-4 left-56 z-40 w-48 p-3 rounded-xl bg-black/40 backdrop-blur-md border border-white/10 text-white font-mono text-[10px] pointer-events-none select-none">
+      <h3 className="text-amber-400 font-bold mb-1 uppercase tracking-widest">Sun · Hobq</h3>
+      <div className="flex justify-between"><span className="text-gray-400">UTC</span><span>{time.toISOString().slice(0, 10)} {formatHours(utc)}</span></div>
+      <div className="flex justify-between"><span className="text-gray-400">Solar time</span><span>{formatHours(sun.solarTime)}</span></div>
+      <div className="flex justify-between"><span className="text-gray-400">Elevation</span><span className={sun.elevation > 0 ? '' : 'text-gray-500'}>{sun.elevation.toFixed(1)}°</span></div>
+      <div className="flex justify-between"><span className="text-gray-400">Azimuth</span><span>{sun.azimuth.toFixed(1)}°</span></div>
+      <div className="mt-1 pt-1 border-t border-white/10 text-gray-400">Clear-sky irradiance (W/m²)</div>
+      <div className="flex justify-between"><span className="text-gray-400">GHI</span><span>{irradiance.ghi.toFixed(0)}</span></div>
+      <div className="flex justify-between"><span className="text-gray-400">DNI</span><span>{irradiance.dni.toFixed(0)}</span></div>
+      <div className="flex justify-between"><span className="text-gray-400">DHI</span><span>{irradiance.dhi.toFixed(0)}</span></div>
+    </div>
+  );
+};
+
+export default SunPanel;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { AODTimeSeries } from '../types';
+import { cursorLabel } from '../utils/timeseries';
+
+interface TimelineProps {
+  series: AODTimeSeries;
+  cursor: number;
+  playing: boolean;
+  speed: number; // frames per second
+  onCursorChange: (cursor: number) => void;
+  onPlayingChange: (playing: boolean) => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+// Scrubber for the AOD time series, bottom centre
+const Timeline: React.FC<TimelineProps> = ({
+  series, cursor, playing, speed, onCursorChange, onPlayingChange, onSpeedChange
+}) => {
+  const last = series.frames.length - 1;
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-40 w-[36rem] max-w-[60vw] p-3 rounded-xl bg-black/50 backdrop-blur-md border border-white/10 text-white font-mono text-xs">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => onPlayingChange(!playing)}
+          className="w-16 px-2 py-1 rounded bg-blue-600 hover:bg-blue-500 font-bold"
+        >
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={last}
+          step={0.01}
+          value={cursor}
+          onChange={e => onCursorChange(Number(e.target.value))}
+          className="flex-1 accent-blue-400"
+        />
+        <span className="w-16 text-right text-blue-300 font-bold">{cursorLabel(series, cursor)}</span>
+        <select
+          value={speed}
+          onChange={e => onSpeedChange(Number(e.target.value))}
+          className="bg-black/60 border border-white/20 rounded px-1 py-0.5"
+        >
+          {PLAYBACK_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+        </select>
+      </div>
+      <div className="flex justify-between mt-1 text-[10px] text-gray-500">
+        <span>{series.frames[0].label}</span>
+        <span>{series.frames.length} {series.resolution} frames</span>
+        <span>{series.frames[last].label}</span>
+      </div>
+    </div>
+  );
+};
+
+export default Timeline;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { CameraBookmark, ViewMode } from '../types';
+
+interface ViewBarProps {
+  viewMode: ViewMode;
+  bookmarks: CameraBookmark[];
+  onPreset: (mode: ViewMode) => void;
+  onBookmark: (bookmark: CameraBookmark) => void;
+  onSaveBookmark: () => void;
+  onDeleteBookmark: (name: string) => void;
+}
+
+const chip = 'px-2 py-1 rounded border transition-colors';
+
+// Built-in region presets followed by the user's saved views
+const ViewBar: React.FC<ViewBarProps> = ({ viewMode, bookmarks, onPreset, onBookmark, onSaveBookmark, onDeleteBookmark }) => (
+  <div className="absolute top-4 left-1/2 -translate-x-1/2 z-40 max-w-[50vw] flex flex-wrap items-center justify-center gap-1 p-2 rounded-xl bg-black/40 backdrop-blur-md border border-white/10 text-white font-mono text-[10px] select-none">
+    {Object.values(ViewMode).map(mode => (
+      <button
+        key={mode}
+        onClick={() => onPreset(mode)}
+        className={`${chip} ${mode === viewMode ? 'border-blue-400 text-blue-300' : 'border-white/10 text-gray-300 hover:border-white/40'}`}
+      >
+        {mode}
+      </button>
+    ))}
+    {bookmarks.length > 0 && <span className="mx-1 h-4 border-l border-white/20" />}
+    {bookmarks.map(bookmark => (
+      <span key={bookmark.name} className={`${chip} flex items-center gap-1 border-amber-400/40 text-amber-200`}>
+        <button onClick={() => onBookmark(bookmark)} className="hover:text-white">{bookmark.name}</button>
+        <button onClick={() => onDeleteBookmark(bookmark.name)} className="text-gray-500 hover:text-red-400" title="Delete bookmark">✕</button>
+      </span>
+    ))}
+    <button onClick={onSaveBookmark} className={`${chip} border-dashed border-white/20 text-gray-400 hover:text-white`} title="Bookmark the current view">
+      + Save View
+    </button>
+  </div>
+);
+
+export default ViewBar;
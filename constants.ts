@@ -1,27 +1,160 @@
-import { LatLon, PVStationData, ViewMode, CameraPosition } from './types';
+import { AODRaster, InputBindings, LatLon, PVModelParams, PVStationData, QualityLevel, PVStationType, ViewMode, CameraPosition, GeoBounds, MapLabel } from './types';
+import { cameraLookingAt, latLonToVector3 } from './utils/geodesy';
 
 export const EARTH_RADIUS = 50;
 
 // Hobq Desert Center: approx 40.2°N, 108.5°E
 export const HOBQ_CENTER: LatLon = { lat: 40.2, lon: 108.5 };
 
+// Approximate Hobq Desert bounding box, used for DEM tiles without georeferencing
+export const HOBQ_BOUNDS: GeoBounds = { west: 106.8, south: 39.6, east: 111.6, north: 40.9 };
+
+// Approximate centre of mainland China
+export const CHINA_CENTER: LatLon = { lat: 35.0, lon: 104.0 };
+
+// Centre of the demo PV belt south of the Yellow River
+export const PV_BELT_CENTER: LatLon = { lat: 40.0, lon: 107.5 };
+
+// Presets derived from the geographic anchors above; altitudes are in scene units
 export const CAMERA_POSITIONS: Record<ViewMode, CameraPosition> = {
-  [ViewMode.GLOBAL]: { position: [0, 40, 150], target: [0, 0, 0], fov: 45 },
-  [ViewMode.CHINA]: { position: [-40, 50, 60], target: [-30, 40, 0], fov: 35 },
+  [ViewMode.GLOBAL]: {
+    position: latLonToVector3(20, HOBQ_CENTER.lon, EARTH_RADIUS * 3.2).toArray() as [number, number, number],
+    target: [0, 0, 0],
+    fov: 45
+  },
+  [ViewMode.CHINA]: cameraLookingAt(CHINA_CENTER, 60, EARTH_RADIUS, { tilt: 10, fov: 35 }),
   // Focused view on Hobq
-  [ViewMode.HOBQ]: { position: [-35, 55, 10], target: [-42, 45, 0], fov: 20 },
-  [ViewMode.PV_FOCUS]: { position: [-38, 52, 5], target: [-42, 45, 0], fov: 15 },
+  [ViewMode.HOBQ]: cameraLookingAt(HOBQ_CENTER, 25, EARTH_RADIUS, { tilt: 25, fov: 20 }),
+  [ViewMode.PV_FOCUS]: cameraLookingAt(PV_BELT_CENTER, 16, EARTH_RADIUS, { tilt: 35, fov: 15 }),
+};
+
+// Framing used when flying to a single place (station, clicked point, lat/lon).
+// The altitude is the camera's distance from the place, so it has to stay
+// above ORBIT_DISTANCE_LIMITS.min; the narrow fov keeps the view close.
+export const LOCATION_VIEW = { altitude: 16, tilt: 40, fov: 10 };
+
+// Name of the scene group that carries everything placed by lat/lon
+export const GLOBE_GROUP_NAME = 'globe';
+
+// Graticule spacing (degrees) for each region preset
+export const GRATICULE_STEP: Record<ViewMode, number> = {
+  [ViewMode.GLOBAL]: 15,
+  [ViewMode.CHINA]: 5,
+  [ViewMode.HOBQ]: 1,
+  [ViewMode.PV_FOCUS]: 1,
+};
+
+// Reference line colours
+export const VECTOR_COLORS = {
+  graticule: '#ffffff',
+  countries: '#f3f4f6',
+  provinces: '#9ca3af',
+  rivers: '#38bdf8',
+  desert: '#f59e0b',
+};
+
+// Hand-traced outline of the Hobq (Kubuqi) Desert, approximate to a few km
+export const HOBQ_OUTLINE: LatLon[] = [
+  [107.0, 40.3], [107.5, 40.45], [108.2, 40.5], [108.9, 40.55], [109.6, 40.5], [110.3, 40.45],
+  [111.0, 40.3], [111.4, 40.15], [111.2, 40.0], [110.5, 40.05], [109.8, 40.1], [109.2, 40.0],
+  [108.6, 39.85], [108.0, 39.75], [107.4, 39.85], [107.0, 40.05], [107.0, 40.3],
+].map(([lon, lat]) => ({ lat, lon }));
+
+// Places for orientation around the desert; priority decides label collisions
+export const PLACE_LABELS: MapLabel[] = ([
+  ['Beijing', 39.904, 116.407, 6],
+  ['Hohhot', 40.842, 111.749, 5],
+  ['Baotou', 40.657, 109.84, 5],
+  ['Yinchuan', 38.487, 106.231, 5],
+  ['Ordos', 39.817, 109.977, 4],
+  ['Bayannur', 40.743, 107.388, 4],
+  ['Wuhai', 39.655, 106.794, 4],
+  ['Dalad Banner', 40.4, 110.04, 3],
+  ['Hangjin Banner', 39.83, 108.73, 3],
+  ['Hobq Desert', HOBQ_CENTER.lat, HOBQ_CENTER.lon, 4.5],
+] as const).map(([text, lat, lon, priority]) => ({ id: `place:${text}`, text, at: { lat, lon }, kind: 'place' as const, priority }));
+
+// Output sizes offered for figure and video export (dpi null = screen use)
+export const EXPORT_SIZES: Record<string, { width: number; height: number; dpi: number | null }> = {
+  '1080p': { width: 1920, height: 1080, dpi: null },
+  '4K UHD': { width: 3840, height: 2160, dpi: null },
+  'A4 Landscape 300 dpi': { width: 3508, height: 2480, dpi: 300 },
+  'A4 Portrait 300 dpi': { width: 2480, height: 3508, dpi: 300 },
+  'Square 2048': { width: 2048, height: 2048, dpi: null },
 };
 
-// Generate Mock PV Stations along the desert belt
+// Name of the starfield, hidden for transparent exports
+export const STARS_OBJECT_NAME = 'stars';
+
+// Camera distance limits from the orbit target (scene units)
+export const ORBIT_DISTANCE_LIMITS = { min: 15, max: 300 };
+
+// Per-type colours for the 'Type' PV colour mode
+export const PV_TYPE_COLORS: Record<PVStationType, string> = {
+  Small: '#4fc3f7',
+  Medium: '#ffb74d',
+  Large: '#e57373',
+};
+
+// Outline colours for saved regions of interest and the one being drawn
+export const ROI_COLORS = { saved: '#facc15', draft: '#22d3ee' };
+
+// Tallest extrusion (scene units) at PV Height = 1
+export const PV_MAX_EXTRUSION = 4;
+
+// Yield estimator defaults: mono-Si modules on fixed racks, typical desert aerosol
+export const DEFAULT_PV_MODEL: PVModelParams = {
+  year: 2023,
+  efficiency: 0.21,
+  performanceRatio: 0.8,
+  groundCoverage: 0.4,
+  angstromFactor: 0.8,
+  forwardScatter: 0.5,
+  fallbackAod: 0.25,
+};
+
+// Station size classes used when a GeoJSON feature has no explicit type (km2)
+export const PV_TYPE_AREA_THRESHOLDS = { medium: 1, large: 4 };
+
+// Seeded PRNG (mulberry32) so the demo stations are stable across reloads
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+const random = seededRandom(2020);
+
+// Generate Mock PV Stations along the desert belt (replaced by an uploaded GeoJSON)
 export const MOCK_PV_STATIONS: PVStationData[] = Array.from({ length: 50 }).map((_, i) => ({
   id: `pv-${i}`,
-  lat: 40.0 + (Math.random() - 0.5) * 0.8,
-  lon: 107.5 + (Math.random() - 0.5) * 2.5,
-  area: 0.5 + Math.random() * 5,
-  type: Math.random() > 0.8 ? 'Large' : Math.random() > 0.5 ? 'Medium' : 'Small'
+  lat: PV_BELT_CENTER.lat + (random() - 0.5) * 0.8,
+  lon: PV_BELT_CENTER.lon + (random() - 0.5) * 2.5,
+  area: 0.5 + random() * 5,
+  type: random() > 0.8 ? 'Large' : random() > 0.5 ? 'Medium' : 'Small'
 }));
 
+/**
+ * Synthetic overlay shown until a GeoTIFF is loaded: a west-east ramp with
+ * some texture inside a ragged ellipse over the desert box; NaN elsewhere.
+ */
+export const DEMO_AOD_RASTER: AODRaster = (() => {
+  const width = 192;
+  const height = 64;
+  const noise = seededRandom(2021);
+  const data = new Float32Array(width * height);
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const x = (col + 0.5) / width;
+      const y = (row + 0.5) / height;
+      const r = Math.hypot((x - 0.5) / 0.5, (y - 0.5) / 0.5);
+      const edge = 0.85 + 0.15 * Math.sin(x * 23) * Math.cos(y * 17);
+      data[row * width + col] = r > edge ? NaN : Math.min(1, Math.max(0, x + (noise() - 0.5) * 0.08));
+    }
+  }
+  return { name: 'Demo overlay', width, height, data, bounds: HOBQ_BOUNDS, noData: null, min: 0, max: 1 };
+})();
+
 export const COLORS = {
   atmosphere: '#193c78',
   pvPanel: '#0066cc',
@@ -31,10 +164,76 @@ export const COLORS = {
   aodGradient: ['#4d9221', '#a1d99b', '#f7f7f7', '#fde0ef', '#c51b7d'] 
 };
 
-// High-Res Earth Textures (Reliable Sources)
-export const TEXTURES = {
-  color: 'https://raw.githubusercontent.com/mrdoob/three.js/master/examples/textures/planets/earth_atmos_2048.jpg',
-  normal: 'https://raw.githubusercontent.com/mrdoob/three.js/master/examples/textures/planets/earth_normal_2048.jpg',
-  specular: 'https://raw.githubusercontent.com/mrdoob/three.js/master/examples/textures/planets/earth_specular_2048.jpg',
-  clouds: 'https://raw.githubusercontent.com/mrdoob/three.js/master/examples/textures/planets/earth_clouds_1024.png'
-};
\ No newline at end of file
+// Scene clock speeds (simulated seconds per second), as Leva options
+export const CLOCK_RATES: Record<string, number> = {
+  'Paused': 0,
+  'Real time': 1,
+  '1 min/s': 60,
+  '10 min/s': 600,
+  '1 h/s': 3600,
+};
+
+// Quality ladder from cheapest to full detail; the top rung is the original scene
+export const QUALITY_LEVELS: QualityLevel[] = [
+  { label: 'Low', dpr: 0.75, globeSegments: 48, skySegments: 24, shadows: false, stars: 1000 },
+  { label: 'Low+', dpr: 1, globeSegments: 64, skySegments: 32, shadows: false, stars: 2000 },
+  { label: 'Medium', dpr: 1, globeSegments: 96, skySegments: 48, shadows: true, stars: 3000 },
+  { label: 'Medium+', dpr: 1.5, globeSegments: 128, skySegments: 64, shadows: true, stars: 4000 },
+  { label: 'High', dpr: 2, globeSegments: 128, skySegments: 64, shadows: true, stars: 5000 },
+];
+
+// Hand detection rates offered (Hz), independent of the render frame rate
+export const DETECTION_RATES = [5, 10, 15, 30, 60];
+
+// Distance of the sun light from the globe centre, in scene units
+export const SUN_LIGHT_DISTANCE = 200;
+
+// Bindings out of the box, chosen so a gamepad or a touchscreen alone can run a kiosk
+export const DEFAULT_INPUT_BINDINGS: InputBindings = {
+  keyboard: {
+    'r': { action: 'Reset Camera' },
+    'a': { action: 'Toggle Rotate' },
+    ']': { action: 'Next View' },
+    '[': { action: 'Previous View' },
+    '=': { action: 'Zoom In' },
+    '-': { action: 'Zoom Out' },
+    'Space': { action: 'Toggle Play' },
+    '.': { action: 'Time Step Forward' },
+    ',': { action: 'Time Step Back' },
+    'n': { action: 'Next Station' },
+    'p': { action: 'Previous Station' },
+    'Escape': { action: 'Clear Selection' },
+    '?': { action: 'Toggle Help' },
+  },
+  touch: {
+    'Double Tap': { action: 'Reset Camera' },
+    'Two-Finger Tap': { action: 'Toggle Play' },
+    'Long Press': { action: 'Toggle Help' },
+    'Three-Finger Swipe Left': { action: 'Previous View' },
+    'Three-Finger Swipe Right': { action: 'Next View' },
+  },
+  gamepad: {
+    'A': { action: 'Next Station' },
+    'B': { action: 'Clear Selection' },
+    'X': { action: 'Toggle Play' },
+    'Y': { action: 'Reset Camera' },
+    'LB': { action: 'Previous View' },
+    'RB': { action: 'Next View' },
+    'Back': { action: 'Toggle Rotate' },
+    'Start': { action: 'Toggle Help' },
+    'L3': { action: 'None' },
+    'R3': { action: 'None' },
+    'D-Pad Up': { action: 'Next Station' },
+    'D-Pad Down': { action: 'Previous Station' },
+    'D-Pad Left': { action: 'Time Step Back' },
+    'D-Pad Right': { action: 'Time Step Forward' },
+  },
+  gesture: {
+    'Swipe Left': { action: 'Previous View' },
+    'Swipe Right': { action: 'Next View' },
+    'Fist': { action: 'Reset Camera' },
+    'Open Palm': { action: 'None' },
+    'Pinch': { action: 'None' },
+    'Two Hands': { action: 'None' },
+  },
+};
@@ -0,0 +1,57 @@
+// Populate public/assets for offline mode: downloads textures, vector layers
+// and the hand model listed in asset-manifest.json and copies the MediaPipe
+// WASM runtime from node_modules. Run once on a connected machine, then build
+// or copy the whole folder to the offline device.
+import { readFile, writeFile, mkdir, copyFile, readdir, access } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const manifest = JSON.parse(await readFile(path.join(root, 'asset-manifest.json'), 'utf8'));
+const outDir = path.join(root, 'public', manifest.basePath);
+const force = process.argv.includes('--force');
+
+const exists = (p) => access(p).then(() => true, () => false);
+
+const download = async (url, dest) => {
+  if (!force && (await exists(dest))) {
+    console.log(`skip  ${path.relative(root, dest)} (exists)`);
+    return;
+  }
+  await mkdir(path.dirname(dest), { recursive: true });
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`);
+  await writeFile(dest, Buffer.from(await res.arrayBuffer()));
+  console.log(`fetch ${path.relative(root, dest)}`);
+};
+
+const copyDir = async (from, to) => {
+  await mkdir(to, { recursive: true });
+  for (const name of await readdir(from)) {
+    await copyFile(path.join(from, name), path.join(to, name));
+    console.log(`copy  ${path.relative(root, path.join(to, name))}`);
+  }
+};
+
+let failed = 0;
+const jobs = [
+  ...Object.values(manifest.textures).map((entry) => () => download(entry.remote, path.join(outDir, entry.file))),
+  ...Object.values(manifest.vectors).map((entry) => () => download(entry.remote, path.join(outDir, entry.file))),
+  () => download(manifest.handModel.remote, path.join(outDir, manifest.handModel.file)),
+  () => copyDir(path.join(root, manifest.mediapipeWasm.copyFrom), path.join(outDir, manifest.mediapipeWasm.file)),
+];
+
+for (const job of jobs) {
+  try {
+    await job();
+  } catch (err) {
+    failed++;
+    console.error(`error ${err.message}`);
+  }
+}
+
+if (failed > 0) {
+  console.error(`${failed} asset(s) could not be prepared`);
+  process.exit(1);
+}
+console.log(`Offline assets ready in ${path.relative(root, outDir)}`);
@@ -11,6 +11,12 @@ export interface CameraPosition {
   fov: number;
 }
 
+// User-saved camera pose, in the globe frame
+export interface CameraBookmark {
+  name: string;
+  pose: CameraPosition;
+}
+
 export enum ViewMode {
   GLOBAL = 'Global',
   CHINA = 'China',
@@ -18,20 +24,230 @@ export enum ViewMode {
   PV_FOCUS = 'PV Stations'
 }
 
+export type PVStationType = 'Small' | 'Medium' | 'Large';
+
 export interface PVStationData {
   id: string;
   lat: number;
   lon: number;
   area: number; // km2
-  type: 'Small' | 'Medium' | 'Large';
+  type: PVStationType;
+  capacity?: number; // MW
+  year?: number; // commissioning year
+  footprint?: LatLon[][]; // polygon rings (outer ring first), when known
+}
+
+export type PVHeightAttribute = 'None' | 'Area' | 'Capacity' | 'AOD Change';
+export type PVColorMode = 'Uniform' | 'Type' | 'Yield' | 'Aerosol Loss';
+
+// Editable inputs of the annual yield estimator
+export type PVModelParams = {
+  year: number;
+  efficiency: number; // module efficiency, 0–1
+  performanceRatio: number; // inverter, wiring, soiling and thermal losses, 0–1
+  groundCoverage: number; // module area per unit of station area, 0–1
+  angstromFactor: number; // broadband aerosol depth per unit of 550 nm AOD
+  forwardScatter: number; // share of the aerosol-scattered beam that still reaches the ground as diffuse, 0–1
+  fallbackAod: number; // used where no AOD raster covers a station
+};
+
+export type PVAodSource = 'Mean' | 'Time Series' | 'Fallback';
+
+// Annual estimate for one station; irradiation is global horizontal
+export interface PVYieldEstimate {
+  aod: number;
+  aodSource: PVAodSource;
+  clearIrradiation: number; // kWh/m²/yr without aerosols
+  irradiation: number; // kWh/m²/yr with the local AOD
+  clearYield: number; // GWh/yr
+  yield: number; // GWh/yr
+  loss: number; // GWh/yr attributable to aerosols
+  lossPct: number;
+}
+
+// Per-station extrusion input, aligned with the station array
+export interface PVExtrusion {
+  attribute: PVHeightAttribute;
+  values: (number | null)[]; // null = attribute unknown for that station
+  max: number; // value mapped to the full extrusion height
+  units: string;
+}
+
+export interface FeatureError {
+  index: number; // position in the FeatureCollection
+  id?: string;
+  message: string;
+}
+
+export type AODLayer = 'Mean' | 'Slope' | 'Time Series';
+
+export interface GeoBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+// Single-band raster decoded from a GeoTIFF (row 0 = northernmost row)
+export interface GeoRaster {
+  name: string;
+  width: number;
+  height: number;
+  data: Float32Array;
+  bounds: GeoBounds;
+  noData: number | null;
+  min: number;
+  max: number;
+}
+
+export type AODRaster = GeoRaster;
+
+// Elevation grid in metres, same layout as GeoRaster
+export type DEMRaster = GeoRaster;
+
+export type PaletteName = 'AOD Mean' | 'AOD Trend' | 'PDF' | 'Viridis' | 'RdBu';
+export type Classification = 'linear' | 'log' | 'quantile';
+
+export interface ColorScaleConfig {
+  palette: PaletteName;
+  min: number;
+  max: number;
+  center: number; // midpoint for diverging palettes (0 = no trend)
+  classification: Classification;
+  classes: number; // quantile classes
+}
+
+export type TimeResolution = 'yearly' | 'monthly';
+
+export interface AODFrame {
+  monthIndex: number; // year * 12 + (month - 1)
+  label: string;
+  raster: AODRaster;
+}
+
+// Stack of co-registered rasters ordered in time
+export interface AODTimeSeries {
+  frames: AODFrame[];
+  resolution: TimeResolution;
+  min: number; // over all frames, so colours are comparable across time
+  max: number;
 }
 
+// Result of clicking a point on the globe
+export interface LocationQuery {
+  latLon: LatLon;
+  screen: { x: number; y: number }; // client pixels, for anchoring the tooltip
+  values: Partial<Record<AODLayer, number | null>>;
+  nearestStation?: { station: PVStationData; distanceKm: number };
+}
+
+export type HandPose = 'none' | 'palm' | 'fist' | 'pinch';
+export type SwipeDirection = 'left' | 'right';
+
 export interface HandGestureState {
   isPalmOpen: boolean;
   isFist: boolean;
   isPinching: boolean;
   pinchDistance: number;
   handPosition: { x: number; y: number }; // Normalized 0-1
+  palmPosition: { x: number; y: number }; // Smoothed palm centre of the primary hand, normalized 0-1
+  handCount: number;
+  handSpread: number | null; // Distance between both palm centres when two hands are in view
+  swipe: SwipeDirection | null; // Set only on the update where a swipe completes
+}
+
+// Per-user hand spans (finger reach over palm length), measured by the calibration wizard
+export interface GestureProfile {
+  openSpan: number;
+  fistSpan: number;
+  calibratedAt: string; // ISO timestamp
+}
+
+// Discrete gestures that can be bound to an action
+export type GestureTrigger = 'Swipe Left' | 'Swipe Right' | 'Fist' | 'Open Palm' | 'Pinch' | 'Two Hands';
+
+// Touch gestures on the scene that can be bound (drag and pinch always navigate)
+export type TouchTrigger = 'Double Tap' | 'Two-Finger Tap' | 'Long Press' | 'Three-Finger Swipe Left' | 'Three-Finger Swipe Right';
+
+// Standard-mapping gamepad buttons that can be bound (sticks and triggers always navigate)
+export type GamepadButton =
+  | 'A' | 'B' | 'X' | 'Y' | 'LB' | 'RB' | 'Back' | 'Start' | 'L3' | 'R3'
+  | 'D-Pad Up' | 'D-Pad Down' | 'D-Pad Left' | 'D-Pad Right';
+
+// Discrete scene actions any input can be bound to
+export type InputAction =
+  | 'None' | 'Reset Camera' | 'Toggle Rotate' | 'Next View' | 'Previous View' | 'Zoom In' | 'Zoom Out'
+  | 'Time Step Forward' | 'Time Step Back' | 'Toggle Play' | 'Next Station' | 'Previous Station'
+  | 'Clear Selection' | 'Toggle Layer' | 'Screenshot' | 'Toggle Help';
+
+export interface ActionBinding {
+  action: InputAction;
+  layerId?: string; // for 'Toggle Layer'
+}
+
+// Per-source bindings; keyboard entries are keyed by key name ('r', 'Space', 'Escape', …)
+export interface InputBindings {
+  keyboard: Record<string, ActionBinding>;
+  touch: Record<TouchTrigger, ActionBinding>;
+  gamepad: Record<GamepadButton, ActionBinding>;
+  gesture: Record<GestureTrigger, ActionBinding>;
+}
+
+export type InputSource = keyof InputBindings;
+
+// What every input source emits; App executes them against the scene
+export type InputCommand =
+  | { type: 'orbit'; azimuth: number; polar: number } // radians
+  | { type: 'pan'; dx: number; dy: number } // fractions of the camera distance
+  | { type: 'zoom'; scale: number } // camera-distance multiplier, <1 moves closer
+  | { type: 'resetCamera' }
+  | { type: 'toggleRotate' }
+  | { type: 'nextView' }
+  | { type: 'previousView' }
+  | { type: 'stepTime'; step: 1 | -1 }
+  | { type: 'scrub'; position: number } // 0–1 along the time series
+  | { type: 'togglePlay' }
+  | { type: 'setPlaying'; playing: boolean }
+  | { type: 'selectStation'; step: 1 | -1 } // next or previous station, flying to it
+  | { type: 'clearSelection' }
+  | { type: 'toggleLayer'; layerId: string }
+  | { type: 'screenshot' }
+  | { type: 'toggleHelp' };
+
+// One hand-landmarker detection: 21 normalised image points per hand
+export interface LandmarkFrame {
+  t: number; // ms since the recording started
+  hands: { x: number; y: number; z?: number }[][];
+}
+
+// Landmark stream saved from the camera, replayable in place of it
+export interface LandmarkRecording {
+  version: 1;
+  recordedAt: string; // ISO timestamp
+  frames: LandmarkFrame[];
+}
+
+// Where hand detection runs; the worker keeps it off the render loop
+export type HandTrackingMode = 'Worker' | 'Main Thread';
+
+export type QualityPreset = 'Auto' | 'High' | 'Medium' | 'Low';
+
+// One rung of the rendering quality ladder
+export interface QualityLevel {
+  label: string;
+  dpr: number; // device pixel ratio cap
+  globeSegments: number; // width and height segments of the Earth sphere
+  skySegments: number; // of the cloud and atmosphere spheres
+  shadows: boolean; // whether the sun casts shadows
+  stars: number;
+}
+
+// Renderer figures for the performance HUD, over the last measurement window
+export interface PerformanceStats {
+  fps: number;
+  frameMs: number;
+  drawCalls: number;
+  triangles: number;
 }
 
 export interface AppState {
@@ -42,4 +258,134 @@ export interface AppState {
   autoRotate: boolean;
   highlightColor: string;
   particlesEnabled: boolean;
-}
\ No newline at end of file
+}
+// Serialisable scene: Leva settings, camera pose and selection (not the loaded data)
+export interface SceneState {
+  version: number;
+  controls: {
+    viewMode: ViewMode;
+    activeLayer: AODLayer;
+    autoRotate: boolean;
+    demStrength: number;
+    pvScale: number;
+    pvHeightBy: PVHeightAttribute;
+    particlesEnabled: boolean;
+    showGraticule: boolean;
+    showBorders: boolean;
+    showRivers: boolean;
+    showDesertOutline: boolean;
+    showLabels: boolean;
+    highlightColor: string;
+    pvColor: string;
+    pvColorBy: PVColorMode;
+  };
+  ramp: Omit<ColorScaleConfig, 'min' | 'max'> & { autoRange: boolean; rangeMin: number; rangeMax: number };
+  time: { timeCursor: number; playSpeed: number };
+  sun: { date: string; timeUtc: number; clockRate: number; cityLights: boolean }; // scene clock (UTC day and hour)
+  pvModel: PVModelParams;
+  camera: CameraPosition | null; // globe frame
+  selectedStationId: string | null;
+  rois: RegionOfInterest[];
+  clipToRoi: boolean;
+  layers: MapLayer[]; // stack order and styling; uploaded layer data is not included
+}
+
+export interface SavedSession {
+  name: string;
+  savedAt: string; // ISO timestamp
+  scene: SceneState;
+}
+
+// Still-figure rendering options; overlays are composited onto the render
+export interface FigureOptions {
+  width: number;
+  height: number;
+  dpi: number | null; // written into PNGs meant for print
+  transparent: boolean;
+  legend: boolean;
+  scaleBar: boolean;
+  northArrow: boolean;
+  attribution: string;
+}
+
+export type VideoPath = 'Orbit' | 'Bookmarks' | 'Time Series';
+
+export interface VideoOptions {
+  path: VideoPath;
+  fps: number;
+  duration: number; // seconds
+}
+
+export type ExportJob =
+  | { kind: 'image'; figure: FigureOptions }
+  | { kind: 'video'; figure: FigureOptions; video: VideoOptions };
+
+// Summary of raster values in one zone around a station
+export interface ZoneStats {
+  zone: string; // 'Footprint' or a buffer ring such as '1–5 km'
+  innerKm: number; // ring distance from the footprint edge (0 for the footprint)
+  outerKm: number;
+  count: number; // valid pixels
+  mean: number | null;
+  median: number | null;
+  std: number | null;
+}
+
+export interface StationZoneStats {
+  station: PVStationData;
+  layer: AODLayer;
+  zones: ZoneStats[]; // footprint first, then rings outwards
+}
+
+// Named region of interest: closed polygons, each an outer ring followed by its holes
+export interface RegionOfInterest {
+  id: string;
+  name: string;
+  polygons: LatLon[][][];
+}
+
+export type ROIDrawMode = 'Polygon' | 'Rectangle';
+
+export interface ROIDraft {
+  mode: ROIDrawMode;
+  points: LatLon[];
+}
+
+export type MapLabelKind = 'place' | 'feature' | 'graticule';
+
+// Screen-space label anchored to the globe; higher priority wins collisions
+export interface MapLabel {
+  id: string;
+  text: string;
+  at: LatLon;
+  kind: MapLabelKind;
+  priority: number;
+}
+
+// Polylines (polygon rings included) and the labels for their named features
+export interface VectorLayerData {
+  lines: LatLon[][];
+  labels: MapLabel[];
+}
+
+export type LayerBlendMode = 'Normal' | 'Additive' | 'Multiply' | 'Subtractive';
+
+// What a layer draws: 'raster' and 'vector' layers are user-added, the rest are built in once each
+export type MapLayerKind =
+  | 'stars' | 'atmosphere' | 'clouds' | 'aod' | 'raster' | 'vector' | 'desertOutline'
+  | 'borders' | 'rivers' | 'graticule' | 'roi' | 'pv' | 'labels';
+
+// One entry of the layer stack; the stack is drawn bottom (index 0) to top
+export interface MapLayer {
+  id: string;
+  name: string;
+  kind: MapLayerKind;
+  visible: boolean;
+  opacity: number; // 0–1
+  blend: LayerBlendMode;
+  palette?: PaletteName; // raster layers
+  color?: string; // vector layers
+}
+
+// Data behind user-added layers, by layer id (not saved with scenes)
+export type LayerData = Record<string, AODRaster | VectorLayerData>;
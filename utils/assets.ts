@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { Texture, TextureLoader } from 'three';
+import manifest from '../asset-manifest.json';
+import { withTimeout } from './timeout';
+
+export type AssetMode = 'online' | 'offline';
+
+interface AssetEntry {
+  file: string;
+  remote: string;
+}
+
+export type TextureKey = keyof typeof manifest.textures;
+export type VectorKey = keyof typeof manifest.vectors;
+
+// Give up on a source after this long and move on to the next one
+const LOAD_TIMEOUT_MS = 15000;
+
+/**
+ * "?assets=offline" (or "online") in the URL wins, then VITE_ASSET_MODE at
+ * build time; the default is online with the local bundle as fallback.
+ */
+const resolveAssetMode = (): AssetMode => {
+  const param = new URLSearchParams(window.location.search).get('assets');
+  if (param === 'offline' || param === 'online') return param;
+  return import.meta.env.VITE_ASSET_MODE === 'offline' ? 'offline' : 'online';
+};
+
+export const ASSET_MODE: AssetMode = resolveAssetMode();
+
+export const localAssetUrl = (file: string) =>
+  `${import.meta.env.BASE_URL.replace(/\/$/, '')}${manifest.basePath}/${file}`;
+
+// Sources to try in order: offline mode never touches the network
+export const assetUrls = (entry: AssetEntry): string[] =>
+  ASSET_MODE === 'offline' ? [localAssetUrl(entry.file)] : [entry.remote, localAssetUrl(entry.file)];
+
+export const MEDIAPIPE_WASM_URLS = assetUrls(manifest.mediapipeWasm);
+export const HAND_MODEL_URLS = assetUrls(manifest.handModel);
+
+const loader = new TextureLoader();
+const textureCache = new Map<TextureKey, Promise<Texture | null>>();
+
+/**
+ * Load a manifest texture, falling back through its sources. Resolves to
+ * null when every source fails so callers can render without it.
+ */
+export const loadTexture = (key: TextureKey): Promise<Texture | null> => {
+  let pending = textureCache.get(key);
+  if (!pending) {
+    pending = (async () => {
+      for (const url of assetUrls(manifest.textures[key])) {
+        try {
+          return await withTimeout(loader.loadAsync(url), LOAD_TIMEOUT_MS, url);
+        } catch (err) {
+          console.warn(`Texture source failed (${key}):`, url, err);
+        }
+      }
+      console.warn(`Texture "${key}" unavailable, rendering without it`);
+      return null;
+    })();
+    textureCache.set(key, pending);
+  }
+  return pending;
+};
+
+// Non-suspending texture hook: null until loaded, and null for good if missing
+export const useAssetTexture = (key: TextureKey): Texture | null => {
+  const [texture, setTexture] = useState<Texture | null>(null);
+  useEffect(() => {
+    let active = true;
+    loadTexture(key).then(t => { if (active) setTexture(t); });
+    return () => { active = false; };
+  }, [key]);
+  return texture;
+};
+
+const vectorCache = new Map<VectorKey, Promise<unknown | null>>();
+
+// Parsed GeoJSON for a manifest vector layer, or null when every source fails
+export const loadVector = (key: VectorKey): Promise<unknown | null> => {
+  let pending = vectorCache.get(key);
+  if (!pending) {
+    pending = (async () => {
+      for (const url of assetUrls(manifest.vectors[key])) {
+        try {
+          const res = await withTimeout(fetch(url), LOAD_TIMEOUT_MS, url);
+          if (!res.ok) throw new Error(`HTTP ${res.status}`);
+          return await res.json();
+        } catch (err) {
+          console.warn(`Vector source failed (${key}):`, url, err);
+        }
+      }
+      console.warn(`Vector layer "${key}" unavailable, rendering without it`);
+      return null;
+    })();
+    vectorCache.set(key, pending);
+  }
+  return pending;
+};
+
+// Non-suspending vector hook; `enabled` defers the download until the layer is first shown
+export const useAssetVector = (key: VectorKey, enabled = true): unknown | null => {
+  const [data, setData] = useState<unknown | null>(null);
+  useEffect(() => {
+    if (!enabled) return;
+    let active = true;
+    loadVector(key).then(d => { if (active) setData(d); });
+    return () => { active = false; };
+  }, [key, enabled]);
+  return data;
+};
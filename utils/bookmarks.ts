@@ -0,0 +1,25 @@
+import { CameraBookmark } from '../types';
+
+const STORAGE_KEY = 'hobq-aod.bookmarks';
+
+const isPose = (p: any) =>
+  p && Array.isArray(p.position) && p.position.length === 3 && Array.isArray(p.target) && p.target.length === 3 && typeof p.fov === 'number';
+
+// Saved camera bookmarks; anything unreadable is dropped rather than thrown
+export const loadBookmarks = (): CameraBookmark[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(b => typeof b?.name === 'string' && isPose(b.pose)) : [];
+  } catch (err) {
+    console.warn('Ignoring unreadable camera bookmarks:', err);
+    return [];
+  }
+};
+
+export const saveBookmarks = (bookmarks: CameraBookmark[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bookmarks));
+  } catch (err) {
+    console.error('Could not save camera bookmarks:', err);
+  }
+};
@@ -0,0 +1,151 @@
+import { AODLayer, AODRaster, Classification, ColorScaleConfig, PaletteName } from '../types';
+import { COLORS } from '../constants';
+import { isNoData } from './geotiff';
+
+export type ColorStop = [number, string];
+
+interface Palette {
+  stops: ColorStop[];
+  diverging: boolean;
+}
+
+const evenStops = (colors: string[]): ColorStop[] =>
+  colors.map((color, i) => [i / (colors.length - 1), color]);
+
+export const PALETTES: Record<PaletteName, Palette> = {
+  // Green -> Yellow -> Red, the original Mean ramp
+  'AOD Mean': {
+    diverging: false,
+    stops: [[0, '#558b2f'], [0.3, '#d4e157'], [0.6, '#ffee58'], [0.8, '#ff7043'], [1, '#8d6e63']],
+  },
+  // Diverging Green -> Grey -> Red, the original Slope ramp
+  'AOD Trend': {
+    diverging: true,
+    stops: [[0, '#1b5e20'], [0.4, '#a5d6a7'], [0.5, '#eeeeee'], [0.6, '#ffccbc'], [1, '#b71c1c']],
+  },
+  // Ramp used in the PDF figures
+  PDF: { diverging: true, stops: evenStops(COLORS.aodGradient) },
+  Viridis: {
+    diverging: false,
+    stops: evenStops(['#440154', '#482878', '#3e4989', '#31688e', '#26828e', '#1f9e89', '#35b779', '#6ece58', '#b5de2b', '#fde725']),
+  },
+  // ColorBrewer RdBu, reversed so decreases are blue and increases red
+  RdBu: {
+    diverging: true,
+    stops: evenStops(['#053061', '#2166ac', '#4393c3', '#92c5de', '#d1e5f0', '#f7f7f7', '#fddbc7', '#f4a582', '#d6604d', '#b2182b', '#67001f']),
+  },
+};
+
+export const PALETTE_NAMES = Object.keys(PALETTES) as PaletteName[];
+export const CLASSIFICATIONS: Classification[] = ['linear', 'log', 'quantile'];
+
+export const LAYER_UNITS: Record<AODLayer, string> = {
+  Mean: 'AOD 550 nm',
+  Slope: 'AOD 550 nm / yr',
+  'Time Series': 'AOD 550 nm',
+};
+
+export const DEFAULT_PALETTE: Record<AODLayer, PaletteName> = {
+  Mean: 'AOD Mean',
+  Slope: 'AOD Trend',
+  'Time Series': 'AOD Mean',
+};
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+// 256-entry RGBA lookup table sampled from the palette stops
+export const buildLut = (stops: ColorStop[]): Uint8ClampedArray => {
+  const lut = new Uint8ClampedArray(256 * 4);
+  const rgb = stops.map(([offset, color]) => [offset, ...hexToRgb(color)] as [number, number, number, number]);
+  for (let i = 0; i < 256; i++) {
+    const t = i / 255;
+    let k = 0;
+    while (k < rgb.length - 2 && t > rgb[k + 1][0]) k++;
+    const [t0, r0, g0, b0] = rgb[k];
+    const [t1, r1, g1, b1] = rgb[Math.min(k + 1, rgb.length - 1)];
+    const f = t1 > t0 ? Math.min(1, Math.max(0, (t - t0) / (t1 - t0))) : 0;
+    lut[i * 4] = r0 + (r1 - r0) * f;
+    lut[i * 4 + 1] = g0 + (g1 - g0) * f;
+    lut[i * 4 + 2] = b0 + (b1 - b0) * f;
+    lut[i * 4 + 3] = 255;
+  }
+  return lut;
+};
+
+// Class breaks at equal-count quantiles of the valid pixels (subsampled)
+export const quantileBreaks = (raster: AODRaster, classes: number): number[] => {
+  const stride = Math.max(1, Math.floor(raster.data.length / 100000));
+  const values: number[] = [];
+  for (let i = 0; i < raster.data.length; i += stride) {
+    const v = raster.data[i];
+    if (!isNoData(v, raster.noData)) values.push(v);
+  }
+  values.sort((a, b) => a - b);
+  if (values.length === 0) return [raster.min, raster.max];
+  return Array.from({ length: classes + 1 }, (_, k) =>
+    values[Math.min(values.length - 1, Math.round((k / classes) * (values.length - 1)))]
+  );
+};
+
+/**
+ * Resolved value-to-colour mapping for one raster. normalize() returns the
+ * palette position in [0, 1]; breaks holds the class edges for quantile
+ * classification and is empty for continuous scales.
+ */
+export interface ColorScale {
+  config: ColorScaleConfig;
+  stops: ColorStop[];
+  lut: Uint8ClampedArray;
+  breaks: number[];
+  normalize: (value: number) => number;
+}
+
+const clamp01 = (t: number) => Math.min(1, Math.max(0, t));
+
+export const createColorScale = (config: ColorScaleConfig, raster?: AODRaster): ColorScale => {
+  const palette = PALETTES[config.palette];
+  const { min, max, center, classification } = config;
+  const breaks = classification === 'quantile' && raster ? quantileBreaks(raster, config.classes) : [];
+
+  let normalize: (value: number) => number;
+  if (breaks.length > 1) {
+    const n = breaks.length - 1;
+    normalize = v => {
+      let k = 0;
+      while (k < n - 1 && v > breaks[k + 1]) k++;
+      return n === 1 ? 0.5 : k / (n - 1);
+    };
+  } else if (classification === 'log') {
+    // Log needs a positive domain; clamp the lower end just above zero
+    const lo = Math.log(Math.max(min, 1e-4));
+    const hi = Math.log(Math.max(max, Math.exp(lo) * 1.0001));
+    normalize = v => clamp01((Math.log(Math.max(v, 1e-4)) - lo) / (hi - lo));
+  } else if (palette.diverging && center > min && center < max) {
+    // Piecewise so the centre value always lands on the palette midpoint
+    normalize = v => clamp01(v < center ? 0.5 * (v - min) / (center - min) : 0.5 + 0.5 * (v - center) / (max - center));
+  } else {
+    const range = max - min || 1;
+    normalize = v => clamp01((v - min) / range);
+  }
+
+  return { config, stops: palette.stops, lut: buildLut(palette.stops), breaks, normalize };
+};
+
+/**
+ * Range used when auto-range is on: the raster's own extent, made symmetric
+ * about the centre for diverging palettes.
+ */
+export const autoRange = (raster: AODRaster | undefined, palette: PaletteName, center: number): { min: number; max: number } => {
+  if (!raster) return { min: 0, max: 1 };
+  if (PALETTES[palette].diverging) {
+    const half = Math.max(Math.abs(raster.min - center), Math.abs(raster.max - center)) || 1;
+    return { min: center - half, max: center + half };
+  }
+  return { min: raster.min, max: raster.max };
+};
+
+export const paletteGradientCss = (stops: ColorStop[]) =>
+  `linear-gradient(to right, ${stops.map(([offset, color]) => `${color} ${offset * 100}%`).join(', ')})`;
@@ -0,0 +1,44 @@
+import { ActionBinding, InputAction, InputCommand } from '../types';
+
+export const INPUT_ACTIONS: InputAction[] = [
+  'None', 'Reset Camera', 'Toggle Rotate', 'Next View', 'Previous View', 'Zoom In', 'Zoom Out',
+  'Time Step Forward', 'Time Step Back', 'Toggle Play', 'Next Station', 'Previous Station',
+  'Clear Selection', 'Toggle Layer', 'Screenshot', 'Toggle Help',
+];
+
+// Camera-distance multiplier of one 'Zoom In' step
+const ZOOM_STEP = 0.8;
+
+// Command a bound action stands for, or null when it does nothing
+export const bindingCommand = ({ action, layerId }: ActionBinding): InputCommand | null => {
+  switch (action) {
+    case 'Reset Camera': return { type: 'resetCamera' };
+    case 'Toggle Rotate': return { type: 'toggleRotate' };
+    case 'Next View': return { type: 'nextView' };
+    case 'Previous View': return { type: 'previousView' };
+    case 'Zoom In': return { type: 'zoom', scale: ZOOM_STEP };
+    case 'Zoom Out': return { type: 'zoom', scale: 1 / ZOOM_STEP };
+    case 'Time Step Forward': return { type: 'stepTime', step: 1 };
+    case 'Time Step Back': return { type: 'stepTime', step: -1 };
+    case 'Toggle Play': return { type: 'togglePlay' };
+    case 'Next Station': return { type: 'selectStation', step: 1 };
+    case 'Previous Station': return { type: 'selectStation', step: -1 };
+    case 'Clear Selection': return { type: 'clearSelection' };
+    case 'Toggle Layer': return layerId ? { type: 'toggleLayer', layerId } : null;
+    case 'Screenshot': return { type: 'screenshot' };
+    case 'Toggle Help': return { type: 'toggleHelp' };
+    default: return null;
+  }
+};
+
+// Actions that may fire again while a key or button is held
+export const REPEATABLE_ACTIONS: InputAction[] = ['Zoom In', 'Zoom Out', 'Time Step Forward', 'Time Step Back'];
+
+// Binding key of a key press: letters lower-cased, the space bar as 'Space'
+export const keyName = (e: { key: string }) =>
+  e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toLowerCase() : e.key;
+
+// Key presses meant for a form field rather than the scene
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName));
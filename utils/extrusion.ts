@@ -0,0 +1,50 @@
+import { AODRaster, AODTimeSeries, PVExtrusion, PVHeightAttribute, PVStationData } from '../types';
+import { sampleRaster } from './geotiff';
+
+/**
+ * Local AOD change at a station: the Sen's slope when a Slope raster is
+ * loaded (per year), otherwise last minus first frame of the time series.
+ */
+const aodChange = (
+  station: PVStationData,
+  slope: AODRaster | undefined,
+  series: AODTimeSeries | null
+): number | null => {
+  if (slope) return sampleRaster(slope, station.lat, station.lon);
+  if (series) {
+    const first = sampleRaster(series.frames[0].raster, station.lat, station.lon);
+    const last = sampleRaster(series.frames[series.frames.length - 1].raster, station.lat, station.lon);
+    return first === null || last === null ? null : last - first;
+  }
+  return null;
+};
+
+// Values for the chosen height attribute; AOD change is extruded by magnitude
+export const computeExtrusion = (
+  stations: PVStationData[],
+  attribute: PVHeightAttribute,
+  slope: AODRaster | undefined,
+  series: AODTimeSeries | null
+): PVExtrusion => {
+  let values: (number | null)[];
+  let units: string;
+  switch (attribute) {
+    case 'Area':
+      values = stations.map(s => s.area);
+      units = 'km²';
+      break;
+    case 'Capacity':
+      values = stations.map(s => s.capacity ?? null);
+      units = 'MW';
+      break;
+    case 'AOD Change':
+      values = stations.map(s => aodChange(s, slope, series));
+      units = slope ? '|ΔAOD| / yr' : '|ΔAOD|';
+      break;
+    default:
+      values = stations.map(() => null);
+      units = '';
+  }
+  const max = values.reduce<number>((m, v) => (v === null ? m : Math.max(m, Math.abs(v))), 0);
+  return { attribute, values, max, units };
+};
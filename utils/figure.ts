@@ -0,0 +1,256 @@
+import * as THREE from 'three';
+import { FigureOptions } from '../types';
+import { EARTH_RADIUS, STARS_OBJECT_NAME } from '../constants';
+import { EARTH_RADIUS_KM } from './geodesy';
+import { ColorScale } from './colormap';
+
+export interface FigureScene {
+  gl: THREE.WebGLRenderer;
+  scene: THREE.Scene;
+  camera: THREE.PerspectiveCamera;
+  target: THREE.Vector3; // orbit target, for the scale bar and north arrow
+}
+
+export interface FigureLegend {
+  title: string;
+  units: string;
+  scale: ColorScale;
+}
+
+const FONT = 'ui-monospace, SFMono-Regular, Menlo, monospace';
+
+/**
+ * Render the scene at an arbitrary size by tiling the live canvas with
+ * camera view offsets, so the output is not limited by the drawing buffer
+ * or the GPU's maximum render size.
+ */
+const renderTiles = ({ gl, scene, camera }: FigureScene, width: number, height: number, transparent: boolean): HTMLCanvasElement => {
+  const out = document.createElement('canvas');
+  out.width = width;
+  out.height = height;
+  const ctx = out.getContext('2d')!;
+  const tileW = gl.domElement.width;
+  const tileH = gl.domElement.height;
+
+  const clearAlpha = gl.getClearAlpha();
+  const stars = scene.getObjectByName(STARS_OBJECT_NAME);
+  const starsVisible = stars?.visible ?? true;
+  if (transparent) {
+    gl.setClearAlpha(0);
+    if (stars) stars.visible = false;
+  }
+  try {
+    for (let y = 0; y < height; y += tileH) {
+      for (let x = 0; x < width; x += tileW) {
+        camera.setViewOffset(width, height, x, y, tileW, tileH);
+        gl.render(scene, camera);
+        // Copy in the same task as the render, before the buffer is presented
+        ctx.drawImage(gl.domElement, 0, 0, tileW, tileH, x, y, tileW, tileH);
+      }
+    }
+  } finally {
+    camera.clearViewOffset();
+    gl.setClearAlpha(clearAlpha);
+    if (stars) stars.visible = starsVisible;
+  }
+  return out;
+};
+
+// Point on the globe under the view centre (the target, or the near surface in the global view)
+const focusPoint = (camera: THREE.Camera, target: THREE.Vector3) =>
+  target.length() > 1 ? target.clone() : camera.position.clone().setLength(EARTH_RADIUS);
+
+// Approximate ground kilometres per output pixel at the view centre
+const kmPerPixel = (camera: THREE.PerspectiveCamera, target: THREE.Vector3, height: number) => {
+  const distance = camera.position.distanceTo(focusPoint(camera, target));
+  const visible = 2 * distance * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2);
+  return (visible / height) * (EARTH_RADIUS_KM / EARTH_RADIUS);
+};
+
+// Screen angle of geographic north at the view centre, clockwise from up
+const northAngle = (camera: THREE.PerspectiveCamera, target: THREE.Vector3) => {
+  const p = focusPoint(camera, target);
+  const up = p.clone().normalize();
+  const pole = new THREE.Vector3(0, 1, 0);
+  const north = pole.sub(up.clone().multiplyScalar(pole.dot(up))).normalize();
+  const a = p.clone().project(camera);
+  const b = p.clone().addScaledVector(north, 0.5).project(camera);
+  return Math.atan2((b.x - a.x) * camera.aspect, b.y - a.y);
+};
+
+const niceLength = (maxKm: number) => {
+  const magnitude = 10 ** Math.floor(Math.log10(maxKm));
+  const step = [5, 2, 1].find(s => s * magnitude <= maxKm) ?? 1;
+  return step * magnitude;
+};
+
+const panel = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, u: number) => {
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.beginPath();
+  ctx.roundRect(x, y, w, h, 8 * u);
+  ctx.fill();
+};
+
+const formatValue = (v: number) => (Math.abs(v) < 0.01 && v !== 0 ? v.toExponential(1) : v.toFixed(3));
+
+const lutColor = (scale: ColorScale, t: number) => {
+  const i = Math.round(Math.min(1, Math.max(0, t)) * 255) * 4;
+  return `rgb(${scale.lut[i]}, ${scale.lut[i + 1]}, ${scale.lut[i + 2]})`;
+};
+
+// Colour bar in the same layout as the on-screen legend
+const drawLegend = (ctx: CanvasRenderingContext2D, { title, units, scale }: FigureLegend, u: number) => {
+  const w = 360 * u;
+  const h = 78 * u;
+  const x = 24 * u;
+  const y = ctx.canvas.height - h - 24 * u;
+  const pad = 12 * u;
+  panel(ctx, x, y, w, h, u);
+
+  ctx.textBaseline = 'top';
+  ctx.font = `bold ${13 * u}px ${FONT}`;
+  ctx.fillStyle = '#60a5fa';
+  ctx.textAlign = 'left';
+  ctx.fillText(title.toUpperCase(), x + pad, y + pad);
+  ctx.font = `${12 * u}px ${FONT}`;
+  ctx.fillStyle = '#9ca3af';
+  ctx.textAlign = 'right';
+  ctx.fillText(units, x + w - pad, y + pad);
+
+  const barX = x + pad;
+  const barY = y + pad + 22 * u;
+  const barW = w - 2 * pad;
+  const barH = 14 * u;
+  const classes = scale.breaks.length - 1;
+  if (classes > 0) {
+    for (let k = 0; k < classes; k++) {
+      ctx.fillStyle = lutColor(scale, scale.normalize((scale.breaks[k] + scale.breaks[k + 1]) / 2));
+      ctx.fillRect(barX + (k * barW) / classes, barY, barW / classes + 0.5, barH);
+    }
+  } else {
+    for (let px = 0; px < barW; px++) {
+      ctx.fillStyle = lutColor(scale, px / (barW - 1));
+      ctx.fillRect(barX + px, barY, 1.5, barH);
+    }
+  }
+
+  const { min, max } = scale.config;
+  const ticks = classes > 0 ? scale.breaks : [min, (min + max) / 2, max];
+  ctx.font = `${11 * u}px ${FONT}`;
+  ctx.fillStyle = '#d1d5db';
+  ticks.forEach((tick, k) => {
+    ctx.textAlign = k === 0 ? 'left' : k === ticks.length - 1 ? 'right' : 'center';
+    ctx.fillText(formatValue(tick), barX + (k / (ticks.length - 1)) * barW, barY + barH + 6 * u);
+  });
+};
+
+const drawScaleBar = (ctx: CanvasRenderingContext2D, kmPerPx: number, u: number, bottom: number) => {
+  const maxPx = ctx.canvas.width * 0.2;
+  const km = niceLength(maxPx * kmPerPx);
+  const barPx = km / kmPerPx;
+  const x = ctx.canvas.width - 24 * u - barPx;
+  const y = ctx.canvas.height - bottom;
+  panel(ctx, x - 12 * u, y - 30 * u, barPx + 24 * u, 42 * u, u);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(x, y - 4 * u, barPx, 4 * u);
+  ctx.fillRect(x, y - 10 * u, 2 * u, 10 * u);
+  ctx.fillRect(x + barPx - 2 * u, y - 10 * u, 2 * u, 10 * u);
+  ctx.font = `${12 * u}px ${FONT}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.fillText(`${km >= 1 ? km : km.toFixed(2)} km`, x + barPx / 2, y - 12 * u);
+};
+
+const drawNorthArrow = (ctx: CanvasRenderingContext2D, angle: number, u: number) => {
+  const size = 28 * u;
+  const cx = ctx.canvas.width - 24 * u - size;
+  const cy = 24 * u + size;
+  panel(ctx, cx - size, cy - size, size * 2, size * 2, u);
+
+  ctx.save();
+  ctx.translate(cx, cy);
+  ctx.rotate(angle);
+  ctx.beginPath();
+  ctx.moveTo(0, -size * 0.75);
+  ctx.lineTo(size * 0.3, size * 0.35);
+  ctx.lineTo(0, size * 0.15);
+  ctx.lineTo(-size * 0.3, size * 0.35);
+  ctx.closePath();
+  ctx.fillStyle = '#ffffff';
+  ctx.fill();
+  ctx.restore();
+
+  ctx.font = `bold ${11 * u}px ${FONT}`;
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const r = size * 0.78;
+  ctx.fillText('N', cx + Math.sin(angle) * r, cy - Math.cos(angle) * r);
+};
+
+const drawAttribution = (ctx: CanvasRenderingContext2D, text: string, u: number) => {
+  ctx.font = `${11 * u}px ${FONT}`;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.75)';
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'bottom';
+  ctx.fillText(text, ctx.canvas.width - 24 * u, ctx.canvas.height - 12 * u);
+};
+
+/**
+ * Render the current view at the requested size and composite the enabled
+ * overlays. Overlay sizes scale with the output height (1 unit = 1080p).
+ */
+export const renderFigure = (target: FigureScene, options: FigureOptions, legend: FigureLegend | null): HTMLCanvasElement => {
+  const { camera } = target;
+  const { width, height } = options;
+  const aspect = camera.aspect;
+  camera.aspect = width / height;
+  camera.updateProjectionMatrix();
+  try {
+    const canvas = renderTiles(target, width, height, options.transparent);
+    const ctx = canvas.getContext('2d')!;
+    const u = height / 1080;
+    if (options.legend && legend) drawLegend(ctx, legend, u);
+    if (options.northArrow) drawNorthArrow(ctx, northAngle(camera, target.target), u);
+    if (options.scaleBar) drawScaleBar(ctx, kmPerPixel(camera, target.target, height), u, (options.attribution ? 36 : 24) * u);
+    if (options.attribution) drawAttribution(ctx, options.attribution, u);
+    return canvas;
+  } finally {
+    camera.aspect = aspect;
+    camera.updateProjectionMatrix();
+  }
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+// Insert a pHYs chunk after IHDR so print tools pick up the intended dpi
+const withPngDpi = async (png: Blob, dpi: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMetre);
+  view.setUint32(12, pixelsPerMetre);
+  chunk[16] = 1; // unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+  const ihdrEnd = 8 + 25; // signature + IHDR chunk
+  return new Blob([bytes.subarray(0, ihdrEnd), chunk, bytes.subarray(ihdrEnd)], { type: 'image/png' });
+};
+
+export const canvasToPng = (canvas: HTMLCanvasElement, dpi: number | null): Promise<Blob> =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png')
+  ).then(blob => (dpi ? withPngDpi(blob, dpi) : blob));
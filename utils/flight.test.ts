@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { Vector3 } from 'three';
+import { EARTH_RADIUS, HOBQ_CENTER, LOCATION_VIEW, ORBIT_DISTANCE_LIMITS } from '../constants';
+import { cameraForLocation } from './flight';
+import { vector3ToLatLon } from './geodesy';
+
+describe('cameraForLocation', () => {
+  const places = [HOBQ_CENTER, { lat: 0, lon: 0 }, { lat: -60, lon: -179.9 }, { lat: 89, lon: 45 }];
+
+  // OrbitControls clamps every frame to these limits, so a pose outside them is never reached
+  it.each(places)('stays within the orbit distance limits at %o', place => {
+    const view = cameraForLocation(place);
+    const distance = new Vector3(...view.position).distanceTo(new Vector3(...view.target));
+    expect(distance).toBeGreaterThanOrEqual(ORBIT_DISTANCE_LIMITS.min);
+    expect(distance).toBeLessThanOrEqual(ORBIT_DISTANCE_LIMITS.max);
+    expect(distance).toBeCloseTo(LOCATION_VIEW.altitude, 9);
+  });
+
+  it('looks at the place on the globe surface', () => {
+    const view = cameraForLocation(HOBQ_CENTER);
+    const target = new Vector3(...view.target);
+    expect(target.length()).toBeCloseTo(EARTH_RADIUS, 9);
+    expect(vector3ToLatLon(target).lat).toBeCloseTo(HOBQ_CENTER.lat, 9);
+    expect(vector3ToLatLon(target).lon).toBeCloseTo(HOBQ_CENTER.lon, 9);
+    expect(view.fov).toBe(LOCATION_VIEW.fov);
+  });
+});
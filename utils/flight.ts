@@ -0,0 +1,84 @@
+import * as THREE from 'three';
+import { CameraPosition, LatLon } from '../types';
+import { EARTH_RADIUS, LOCATION_VIEW } from '../constants';
+import { cameraLookingAt } from './geodesy';
+
+// Flight length bounds in seconds
+const MIN_DURATION = 0.8;
+const MAX_DURATION = 3.5;
+
+// How far the camera climbs mid-flight per radian of arc, in globe radii
+const ARC_LIFT = 0.8;
+
+export const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2);
+
+// Camera pose for looking down at an arbitrary place
+export const cameraForLocation = (latLon: LatLon): CameraPosition =>
+  cameraLookingAt(latLon, LOCATION_VIEW.altitude, EARTH_RADIUS, { tilt: LOCATION_VIEW.tilt, fov: LOCATION_VIEW.fov });
+
+const a = new THREE.Vector3();
+const b = new THREE.Vector3();
+
+/**
+ * Great-circle interpolation about the globe centre: the direction is
+ * slerped and the distance from the centre lerped. Points at the centre
+ * (the global view target) have no direction, so those are lerped directly.
+ */
+const slerpAboutCentre = (from: [number, number, number], to: [number, number, number], t: number, lift = 0) => {
+  a.fromArray(from);
+  b.fromArray(to);
+  const ra = a.length();
+  const rb = b.length();
+  if (ra < 1e-6 || rb < 1e-6) return a.lerp(b, t).toArray() as [number, number, number];
+  a.divideScalar(ra);
+  b.divideScalar(rb);
+  const angle = a.angleTo(b);
+  const radius = ra + (rb - ra) * t + lift * Math.sin(Math.PI * t);
+  if (angle < 1e-6) return a.multiplyScalar(radius).toArray() as [number, number, number];
+  const s = Math.sin(angle);
+  const dir = a.multiplyScalar(Math.sin((1 - t) * angle) / s).addScaledVector(b, Math.sin(t * angle) / s);
+  return dir.multiplyScalar(radius).toArray() as [number, number, number];
+};
+
+const arcAngle = (from: CameraPosition, to: CameraPosition) => {
+  const fa = a.fromArray(from.position).normalize();
+  return fa.angleTo(b.fromArray(to.position).normalize());
+};
+
+// Pose at eased progress t in [0, 1]; longer hops climb higher in between
+export const interpolateCameraPose = (from: CameraPosition, to: CameraPosition, t: number): CameraPosition => {
+  const lift = Math.min(arcAngle(from, to), Math.PI / 2) * EARTH_RADIUS * ARC_LIFT;
+  return {
+    position: slerpAboutCentre(from.position, to.position, t, lift),
+    target: slerpAboutCentre(from.target, to.target, t),
+    fov: from.fov + (to.fov - from.fov) * t,
+  };
+};
+
+// Seconds for a flight, growing with the arc travelled and the change in distance
+export const flightDuration = (from: CameraPosition, to: CameraPosition) => {
+  const zoom = Math.abs(Math.log(
+    (a.fromArray(to.position).distanceTo(b.fromArray(to.target)) + 1) /
+    (a.fromArray(from.position).distanceTo(b.fromArray(from.target)) + 1)
+  ));
+  return Math.min(MAX_DURATION, Math.max(MIN_DURATION, 0.8 + arcAngle(from, to) * 1.2 + zoom * 0.4));
+};
+
+/**
+ * Start pose rotated by `angle` radians about the local vertical through its
+ * target (the globe axis when the target is the globe centre).
+ */
+export const orbitPose = (start: CameraPosition, angle: number): CameraPosition => {
+  const target = new THREE.Vector3().fromArray(start.target);
+  const axis = target.length() > 1e-6 ? target.clone().normalize() : new THREE.Vector3(0, 1, 0);
+  const offset = new THREE.Vector3().fromArray(start.position).sub(target).applyAxisAngle(axis, angle);
+  return { position: target.clone().add(offset).toArray() as [number, number, number], target: start.target, fov: start.fov };
+};
+
+// Eased flight through a list of poses, each hop taking an equal share of t in [0, 1]
+export const tourPose = (poses: CameraPosition[], t: number): CameraPosition => {
+  if (poses.length === 1) return poses[0];
+  const scaled = Math.min(1, Math.max(0, t)) * (poses.length - 1);
+  const hop = Math.min(poses.length - 2, Math.floor(scaled));
+  return interpolateCameraPose(poses[hop], poses[hop + 1], easeInOutCubic(scaled - hop));
+};
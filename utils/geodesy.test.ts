@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { Vector3 } from 'three';
+import { CAMERA_POSITIONS, CHINA_CENTER, EARTH_RADIUS, HOBQ_CENTER, PV_BELT_CENTER } from '../constants';
+import { ViewMode } from '../types';
+import {
+  cameraLookingAt, greatCircleDistance, initialBearing, latLonToVector3, tangentFrame, tangentFrameQuaternion, vector3ToLatLon,
+} from './geodesy';
+
+const LONDON = { lat: 51.5074, lon: -0.1278 };
+const PARIS = { lat: 48.8566, lon: 2.3522 };
+
+const expectVector = (actual: Vector3, expected: Vector3, digits = 9) => {
+  expect(actual.x).toBeCloseTo(expected.x, digits);
+  expect(actual.y).toBeCloseTo(expected.y, digits);
+  expect(actual.z).toBeCloseTo(expected.z, digits);
+};
+
+describe('latLonToVector3', () => {
+  it('places the reference points on the globe axes', () => {
+    expectVector(latLonToVector3(0, 0, 1), new Vector3(0, 0, 1));
+    expectVector(latLonToVector3(0, 90, 1), new Vector3(1, 0, 0));
+    expectVector(latLonToVector3(90, 0, 1), new Vector3(0, 1, 0));
+    expectVector(latLonToVector3(-90, 0, 1), new Vector3(0, -1, 0));
+    expectVector(latLonToVector3(0, 180, 1), new Vector3(0, 0, -1));
+  });
+
+  it('scales to the radius', () => {
+    expect(latLonToVector3(HOBQ_CENTER.lat, HOBQ_CENTER.lon, EARTH_RADIUS).length()).toBeCloseTo(EARTH_RADIUS, 9);
+  });
+
+  it('round-trips through vector3ToLatLon', () => {
+    for (const { lat, lon } of [HOBQ_CENTER, LONDON, PARIS, { lat: -33.87, lon: 151.21 }, { lat: 64.1, lon: -21.9 }]) {
+      const back = vector3ToLatLon(latLonToVector3(lat, lon, EARTH_RADIUS));
+      expect(back.lat).toBeCloseTo(lat, 9);
+      expect(back.lon).toBeCloseTo(lon, 9);
+    }
+  });
+
+  it('round-trips the poles to their latitude', () => {
+    expect(vector3ToLatLon(latLonToVector3(90, 45, 1)).lat).toBeCloseTo(90, 9);
+    expect(vector3ToLatLon(latLonToVector3(-90, -120, 1)).lat).toBeCloseTo(-90, 9);
+  });
+
+  it('keeps both sides of the antimeridian apart', () => {
+    expect(vector3ToLatLon(latLonToVector3(10, 179.5, 1)).lon).toBeCloseTo(179.5, 9);
+    expect(vector3ToLatLon(latLonToVector3(10, -179.5, 1)).lon).toBeCloseTo(-179.5, 9);
+    // 180 and -180 are the same meridian
+    expect(Math.abs(vector3ToLatLon(latLonToVector3(10, -180, 1)).lon)).toBeCloseTo(180, 9);
+  });
+
+  it('reads the origin as (0, 0)', () => {
+    expect(vector3ToLatLon(new Vector3())).toEqual({ lat: 0, lon: 0 });
+  });
+});
+
+describe('greatCircleDistance', () => {
+  it('measures London to Paris at about 344 km', () => {
+    expect(greatCircleDistance(LONDON, PARIS)).toBeCloseTo(343.6, 0);
+  });
+
+  it('is symmetric and zero for a point to itself', () => {
+    expect(greatCircleDistance(PARIS, LONDON)).toBeCloseTo(greatCircleDistance(LONDON, PARIS), 9);
+    expect(greatCircleDistance(HOBQ_CENTER, HOBQ_CENTER)).toBe(0);
+  });
+
+  it('measures a quarter meridian and across the antimeridian', () => {
+    expect(greatCircleDistance({ lat: 0, lon: 0 }, { lat: 90, lon: 0 })).toBeCloseTo(10007.5, 0);
+    expect(greatCircleDistance({ lat: 0, lon: 179.5 }, { lat: 0, lon: -179.5 })).toBeCloseTo(111.2, 0);
+  });
+});
+
+describe('initialBearing', () => {
+  it('points along the compass directions', () => {
+    const origin = { lat: 0, lon: 0 };
+    expect(initialBearing(origin, { lat: 10, lon: 0 })).toBeCloseTo(0, 9);
+    expect(initialBearing(origin, { lat: 0, lon: 10 })).toBeCloseTo(90, 9);
+    expect(initialBearing(origin, { lat: -10, lon: 0 })).toBeCloseTo(180, 9);
+    expect(initialBearing(origin, { lat: 0, lon: -10 })).toBeCloseTo(270, 9);
+  });
+
+  it('gives London to Paris at about 148°', () => {
+    expect(initialBearing(LONDON, PARIS)).toBeCloseTo(148.1, 1);
+  });
+
+  it('heads east across the antimeridian', () => {
+    expect(initialBearing({ lat: 0, lon: 179.5 }, { lat: 0, lon: -179.5 })).toBeCloseTo(90, 9);
+  });
+});
+
+describe('tangentFrameQuaternion', () => {
+  it('maps local axes to east, up and south', () => {
+    for (const { lat, lon } of [{ lat: 0, lon: 0 }, HOBQ_CENTER, { lat: -45, lon: -170 }]) {
+      const q = tangentFrameQuaternion(lat, lon);
+      const { east, north, up } = tangentFrame(lat, lon);
+      expectVector(new Vector3(1, 0, 0).applyQuaternion(q), east);
+      expectVector(new Vector3(0, 1, 0).applyQuaternion(q), up);
+      expectVector(new Vector3(0, 0, -1).applyQuaternion(q), north);
+    }
+  });
+
+  it('lays flat on the globe at (0, 0)', () => {
+    const q = tangentFrameQuaternion(0, 0);
+    // East is +X, up is +Z (the surface normal at (0, 0)) and north is +Y
+    expectVector(new Vector3(1, 0, 0).applyQuaternion(q), new Vector3(1, 0, 0));
+    expectVector(new Vector3(0, 1, 0).applyQuaternion(q), new Vector3(0, 0, 1));
+    expectVector(new Vector3(0, 0, -1).applyQuaternion(q), new Vector3(0, 1, 0));
+  });
+
+  it('stays a unit rotation at the poles', () => {
+    const q = tangentFrameQuaternion(90, 30);
+    expect(q.length()).toBeCloseTo(1, 9);
+    expectVector(new Vector3(0, 1, 0).applyQuaternion(q), new Vector3(0, 1, 0));
+  });
+});
+
+describe('cameraLookingAt', () => {
+  it('looks straight down without tilt', () => {
+    const view = cameraLookingAt(HOBQ_CENTER, 10, EARTH_RADIUS);
+    const position = new Vector3(...view.position);
+    expect(position.length()).toBeCloseTo(EARTH_RADIUS + 10, 9);
+    const { lat, lon } = vector3ToLatLon(position);
+    expect(lat).toBeCloseTo(HOBQ_CENTER.lat, 9);
+    expect(lon).toBeCloseTo(HOBQ_CENTER.lon, 9);
+  });
+
+  it('swings back against the heading when tilted', () => {
+    const view = cameraLookingAt({ lat: 0, lon: 0 }, 10, EARTH_RADIUS, { tilt: 30, heading: 0 });
+    const offset = new Vector3(...view.position).sub(new Vector3(...view.target));
+    expect(offset.length()).toBeCloseTo(10, 9);
+    // Facing north, so the camera sits south of the target
+    expect(offset.y).toBeCloseTo(-10 * Math.sin(Math.PI / 6), 9);
+    expect(offset.z).toBeCloseTo(10 * Math.cos(Math.PI / 6), 9);
+  });
+
+  describe('CAMERA_POSITIONS presets', () => {
+    const presets: [ViewMode, { lat: number; lon: number }, number, number][] = [
+      [ViewMode.CHINA, CHINA_CENTER, 60, 10],
+      [ViewMode.HOBQ, HOBQ_CENTER, 25, 25],
+      [ViewMode.PV_FOCUS, PV_BELT_CENTER, 16, 35],
+    ];
+
+    it.each(presets)('%s targets its centre at the preset altitude and tilt', (mode, center, altitude, tilt) => {
+      const view = CAMERA_POSITIONS[mode];
+      const target = new Vector3(...view.target);
+      const offset = new Vector3(...view.position).sub(target);
+
+      const targetLatLon = vector3ToLatLon(target);
+      expect(target.length()).toBeCloseTo(EARTH_RADIUS, 9);
+      expect(targetLatLon.lat).toBeCloseTo(center.lat, 9);
+      expect(targetLatLon.lon).toBeCloseTo(center.lon, 9);
+      expect(offset.length()).toBeCloseTo(altitude, 9);
+      const up = tangentFrame(center.lat, center.lon).up;
+      expect(Math.acos(offset.clone().normalize().dot(up)) * (180 / Math.PI)).toBeCloseTo(tilt, 6);
+    });
+
+    it('frames the globe from above Hobq', () => {
+      const view = CAMERA_POSITIONS[ViewMode.GLOBAL];
+      const position = new Vector3(...view.position);
+      expect(view.target).toEqual([0, 0, 0]);
+      expect(position.length()).toBeCloseTo(EARTH_RADIUS * 3.2, 9);
+      expect(vector3ToLatLon(position).lon).toBeCloseTo(HOBQ_CENTER.lon, 9);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { Matrix4, Quaternion, Vector3 } from 'three';
+import { CameraPosition, LatLon } from '../types';
+
+// Mean Earth radius (IUGG), used for real-world distances and areas
+export const EARTH_RADIUS_KM = 6371.0088;
+
+/**
+ * Rotation applied to every equirectangular sphere (the Earth mesh, raster
+ * patches). SphereGeometry starts its UVs at lon -180 on the -X axis; turning
+ * it by -90° about Y puts lon 0 on +Z and lon 90°E on +X, which is the frame
+ * latLonToVector3 works in.
+ */
+export const GLOBE_MESH_ROTATION: [number, number, number] = [0, -Math.PI / 2, 0];
+
+const DEG = Math.PI / 180;
+
+export const toRadians = (deg: number) => deg * DEG;
+export const toDegrees = (rad: number) => rad / DEG;
+
+// Wrap a longitude into [-180, 180)
+export const normalizeLon = (lon: number) => ((((lon + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * Globe-frame position for a lat/lon: +Y is the north pole, +Z is (0°, 0°)
+ * and +X is (0°, 90°E).
+ */
+export const latLonToVector3 = (lat: number, lon: number, radius: number, target = new Vector3()): Vector3 => {
+  const phi = lat * DEG;
+  const lambda = lon * DEG;
+  return target.set(
+    radius * Math.cos(phi) * Math.sin(lambda),
+    radius * Math.sin(phi),
+    radius * Math.cos(phi) * Math.cos(lambda)
+  );
+};
+
+// Inverse of latLonToVector3; the radius of v is ignored
+export const vector3ToLatLon = (v: Vector3): LatLon => {
+  const r = v.length();
+  if (r === 0) return { lat: 0, lon: 0 };
+  return {
+    lat: toDegrees(Math.asin(Math.max(-1, Math.min(1, v.y / r)))),
+    lon: toDegrees(Math.atan2(v.x, v.z)),
+  };
+};
+
+// Haversine great-circle distance in km
+export const greatCircleDistance = (a: LatLon, b: LatLon): number => {
+  const dLat = (b.lat - a.lat) * DEG;
+  const dLon = (b.lon - a.lon) * DEG;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * DEG) * Math.cos(b.lat * DEG) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Initial bearing from a to b, degrees clockwise from north in [0, 360)
+export const initialBearing = (a: LatLon, b: LatLon): number => {
+  const phi1 = a.lat * DEG;
+  const phi2 = b.lat * DEG;
+  const dLon = (b.lon - a.lon) * DEG;
+  const y = Math.sin(dLon) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+};
+
+// Point reached travelling distanceKm from origin along a great circle
+export const destinationPoint = (origin: LatLon, bearingDeg: number, distanceKm: number): LatLon => {
+  const delta = distanceKm / EARTH_RADIUS_KM;
+  const theta = bearingDeg * DEG;
+  const phi1 = origin.lat * DEG;
+  const lambda1 = origin.lon * DEG;
+  const phi2 = Math.asin(Math.sin(phi1) * Math.cos(delta) + Math.cos(phi1) * Math.sin(delta) * Math.cos(theta));
+  const lambda2 = lambda1 + Math.atan2(
+    Math.sin(theta) * Math.sin(delta) * Math.cos(phi1),
+    Math.cos(delta) - Math.sin(phi1) * Math.sin(phi2)
+  );
+  return { lat: toDegrees(phi2), lon: normalizeLon(toDegrees(lambda2)) };
+};
+
+/**
+ * Unit vectors of the local east/north/up frame at a lat/lon. East is taken
+ * from the longitude alone so it stays defined at the poles.
+ */
+export const tangentFrame = (lat: number, lon: number) => {
+  const lambda = lon * DEG;
+  const up = latLonToVector3(lat, lon, 1);
+  const east = new Vector3(Math.cos(lambda), 0, -Math.sin(lambda));
+  const north = new Vector3().crossVectors(up, east);
+  return { east, north, up };
+};
+
+/**
+ * Orientation that maps local +X to east, +Y to the surface normal and +Z to
+ * south, so a Y-up object sits flat on the globe with -Z facing north.
+ */
+export const tangentFrameQuaternion = (lat: number, lon: number, target = new Quaternion()): Quaternion => {
+  const { east, north, up } = tangentFrame(lat, lon);
+  const south = north.negate();
+  return target.setFromRotationMatrix(new Matrix4().makeBasis(east, up, south));
+};
+
+export interface CameraViewOptions {
+  // Degrees away from straight down (0 = nadir view)
+  tilt?: number;
+  // Compass direction the camera faces, degrees clockwise from north
+  heading?: number;
+  fov?: number;
+}
+
+/**
+ * Camera pose looking at a lat/lon on a globe of the given radius from
+ * altitude (scene units above the surface). Tilt swings the camera back
+ * against the heading while keeping the target fixed.
+ */
+export const cameraLookingAt = (
+  center: LatLon,
+  altitude: number,
+  radius: number,
+  { tilt = 0, heading = 0, fov = 45 }: CameraViewOptions = {}
+): CameraPosition => {
+  const target = latLonToVector3(center.lat, center.lon, radius);
+  const { east, north, up } = tangentFrame(center.lat, center.lon);
+  const forward = north.multiplyScalar(Math.cos(heading * DEG)).add(east.multiplyScalar(Math.sin(heading * DEG)));
+  const offset = up
+    .multiplyScalar(Math.cos(tilt * DEG))
+    .addScaledVector(forward, -Math.sin(tilt * DEG))
+    .multiplyScalar(altitude);
+  const position = target.clone().add(offset);
+  return {
+    position: position.toArray() as [number, number, number],
+    target: target.toArray() as [number, number, number],
+    fov,
+  };
+};
+
+// Spherical ring area in km2 (Chamberlain & Duquette 2007), as used by most GIS tools
+export const ringAreaKm2 = (ring: LatLon[]): number => {
+  let total = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const a = ring[i];
+    const b = ring[i + 1];
+    total += (b.lon - a.lon) * DEG * (2 + Math.sin(a.lat * DEG) + Math.sin(b.lat * DEG));
+  }
+  return Math.abs((total * EARTH_RADIUS_KM * EARTH_RADIUS_KM) / 2);
+};
+
+// Outer ring minus holes
+export const polygonAreaKm2 = (rings: LatLon[][]): number =>
+  rings.reduce((sum, ring, i) => sum + (i === 0 ? ringAreaKm2(ring) : -ringAreaKm2(ring)), 0);
@@ -0,0 +1,189 @@
+import { FeatureError, LatLon, PVStationData, PVStationType } from '../types';
+import { PV_TYPE_AREA_THRESHOLDS } from '../constants';
+import { polygonAreaKm2 } from './geodesy';
+const STATION_TYPES: PVStationType[] = ['Small', 'Medium', 'Large'];
+
+type Position = [number, number, ...number[]];
+
+export interface PVStationImport {
+  stations: PVStationData[];
+  errors: FeatureError[];
+}
+
+const isPosition = (p: unknown): p is Position =>
+  Array.isArray(p) && p.length >= 2 && typeof p[0] === 'number' && typeof p[1] === 'number' &&
+  Number.isFinite(p[0]) && Number.isFinite(p[1]);
+
+const toLatLon = (p: Position): LatLon => ({ lat: p[1], lon: p[0] });
+
+const validateRing = (ring: unknown): string | null => {
+  if (!Array.isArray(ring)) return 'polygon ring is not an array';
+  if (ring.length < 4) return 'polygon ring needs at least 4 positions';
+  for (const p of ring) {
+    if (!isPosition(p)) return 'polygon ring contains an invalid position';
+    if (Math.abs(p[1]) > 90 || Math.abs(p[0]) > 180) return `position [${p[0]}, ${p[1]}] is outside lon/lat range`;
+  }
+  return null;
+};
+
+// Vertex average of the outer ring, ignoring the closing position
+const ringCentre = (ring: LatLon[]): LatLon => {
+  const open = ring.slice(0, -1);
+  const lat = open.reduce((sum, p) => sum + p.lat, 0) / open.length;
+  const lon = open.reduce((sum, p) => sum + p.lon, 0) / open.length;
+  return { lat, lon };
+};
+
+const readNumber = (props: Record<string, unknown>, keys: string[]): number | undefined => {
+  for (const key of keys) {
+    const raw = props[key];
+    const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+  }
+  return undefined;
+};
+
+// Polygon or MultiPolygon geometry as a list of polygons (outer ring, then holes)
+const readPolygons = (geometry: any): LatLon[][][] => {
+  const raw: unknown[] = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  if (!Array.isArray(raw) || raw.length === 0) throw new Error(`${geometry.type} has no coordinates`);
+  return raw.map(polygon => {
+    if (!Array.isArray(polygon) || polygon.length === 0) throw new Error(`${geometry.type} has an empty polygon`);
+    return polygon.map(ring => {
+      const problem = validateRing(ring);
+      if (problem) throw new Error(problem);
+      return (ring as Position[]).map(toLatLon);
+    });
+  });
+};
+
+export const classifyStation = (area: number): PVStationType =>
+  area >= PV_TYPE_AREA_THRESHOLDS.large ? 'Large' : area >= PV_TYPE_AREA_THRESHOLDS.medium ? 'Medium' : 'Small';
+
+const parseFeature = (feature: any, index: number): PVStationData => {
+  if (!feature || feature.type !== 'Feature') throw new Error('not a GeoJSON Feature');
+  const geometry = feature.geometry;
+  if (!geometry) throw new Error('missing geometry');
+
+  const props: Record<string, unknown> = feature.properties ?? {};
+
+  let centre: LatLon;
+  let polygons: LatLon[][][] = [];
+
+  if (geometry.type === 'Point') {
+    if (!isPosition(geometry.coordinates)) throw new Error('Point has invalid coordinates');
+    centre = toLatLon(geometry.coordinates);
+    if (Math.abs(centre.lat) > 90 || Math.abs(centre.lon) > 180) {
+      throw new Error(`position [${centre.lon}, ${centre.lat}] is outside lon/lat range`);
+    }
+  } else if (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon') {
+    polygons = readPolygons(geometry);
+    // The first polygon's outer ring gives the station centre
+    centre = ringCentre(polygons[0][0]);
+  } else {
+    throw new Error(`unsupported geometry type "${geometry.type}" (expected Point or Polygon)`);
+  }
+
+  let area = readNumber(props, ['area', 'area_km2', 'areaKm2']);
+  if (area === undefined && polygons.length > 0) {
+    area = polygons.reduce((sum, rings) => sum + polygonAreaKm2(rings), 0);
+  }
+  if (area === undefined) throw new Error('Point feature needs an "area" property (km2)');
+  if (!(area > 0)) throw new Error(`area must be positive, got ${area}`);
+
+  const rawType = props.type;
+  let type: PVStationType;
+  if (rawType === undefined || rawType === null || rawType === '') {
+    type = classifyStation(area);
+  } else if (STATION_TYPES.includes(rawType as PVStationType)) {
+    type = rawType as PVStationType;
+  } else {
+    throw new Error(`type must be one of ${STATION_TYPES.join('/')}, got "${String(rawType)}"`);
+  }
+
+  const rawId = props.id ?? feature.id;
+  const id = rawId !== undefined && rawId !== null && rawId !== '' ? String(rawId) : `pv-${index}`;
+
+  return {
+    id,
+    lat: centre.lat,
+    lon: centre.lon,
+    area,
+    type,
+    capacity: readNumber(props, ['capacity', 'capacity_mw', 'capacityMW']),
+    year: readNumber(props, ['year', 'commissioning_year', 'commissioningYear']),
+    footprint: polygons.length > 0 ? polygons.flat() : undefined,
+  };
+};
+
+/**
+ * Validate a GeoJSON FeatureCollection of PV stations. Every feature is
+ * checked independently: valid ones are returned as stations, the rest are
+ * reported with their index so the user can fix the source file.
+ */
+export const parsePVStations = (json: unknown): PVStationImport => {
+  const collection = json as any;
+  if (!collection || collection.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('expected a GeoJSON FeatureCollection');
+  }
+
+  const stations: PVStationData[] = [];
+  const errors: FeatureError[] = [];
+  const seen = new Set<string>();
+
+  collection.features.forEach((feature: any, index: number) => {
+    try {
+      const station = parseFeature(feature, index);
+      if (seen.has(station.id)) throw new Error(`duplicate id "${station.id}"`);
+      seen.add(station.id);
+      stations.push(station);
+    } catch (err: any) {
+      const rawId = feature?.properties?.id ?? feature?.id;
+      errors.push({ index, id: rawId !== undefined ? String(rawId) : undefined, message: err.message });
+    }
+  });
+
+  return { stations, errors };
+};
+
+export const loadPVStationsFile = async (file: File): Promise<PVStationImport> => {
+  const text = await file.text();
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (err: any) {
+    throw new Error(`invalid JSON: ${err.message}`);
+  }
+  return parsePVStations(json);
+};
+
+export interface BoundaryFeature {
+  name?: string;
+  polygons: LatLon[][][];
+}
+
+/**
+ * Polygon boundaries from a FeatureCollection, a single Feature or a bare
+ * geometry. Non-polygon features are skipped; a file without any polygon is
+ * an error.
+ */
+export const parseBoundaries = (json: unknown): BoundaryFeature[] => {
+  const root = json as any;
+  const features: any[] =
+    root?.type === 'FeatureCollection' && Array.isArray(root.features) ? root.features
+    : root?.type === 'Feature' ? [root]
+    : [{ type: 'Feature', geometry: root, properties: {} }];
+
+  const boundaries = features
+    .filter(f => f?.geometry?.type === 'Polygon' || f?.geometry?.type === 'MultiPolygon')
+    .map((f, index) => {
+      try {
+        const name = f.properties?.name ?? f.properties?.NAME ?? f.id;
+        return { name: name !== undefined && name !== null && name !== '' ? String(name) : undefined, polygons: readPolygons(f.geometry) };
+      } catch (err: any) {
+        throw new Error(`polygon feature ${index}: ${err.message}`);
+      }
+    });
+  if (boundaries.length === 0) throw new Error('no Polygon or MultiPolygon features found');
+  return boundaries;
+};
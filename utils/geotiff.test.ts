@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeLongitudes } from './geotiff';
+
+// Two rows whose values encode row * 10 + column
+const grid = (width: number) => Float32Array.from({ length: 2 * width }, (_, i) => Math.floor(i / width) * 10 + (i % width));
+
+describe('normalizeLongitudes', () => {
+  it('leaves rasters already in -180–180° alone', () => {
+    const data = grid(4);
+    const bounds = { west: 106, south: 39, east: 112, north: 41 };
+    const out = normalizeLongitudes(data, 4, 2, bounds, 'aod.tif');
+    expect(out.data).toBe(data);
+    expect(out.bounds).toBe(bounds);
+  });
+
+  it('shifts a raster wholly east of 180° by -360°', () => {
+    const data = grid(4);
+    const out = normalizeLongitudes(data, 4, 2, { west: 200, south: 10, east: 240, north: 20 }, 'aod.tif');
+    expect(out.data).toBe(data);
+    expect(out.bounds).toEqual({ west: -160, south: 10, east: -120, north: 20 });
+  });
+
+  it('rolls the columns of a 0–360° raster to start at -180°', () => {
+    // 90° columns: 0, 90 | 180, 270 -> 180, 270 become -180, -90
+    const out = normalizeLongitudes(grid(4), 4, 2, { west: 0, south: -90, east: 360, north: 90 }, 'aod.tif');
+    expect(Array.from(out.data)).toEqual([2, 3, 0, 1, 12, 13, 10, 11]);
+    expect(out.bounds).toEqual({ west: -180, south: -90, east: 180, north: 90 });
+  });
+
+  it('wraps a full raster that starts west of the prime meridian', () => {
+    // 60° columns from -60°: the two columns past 180° (180, 240) move to the front
+    const out = normalizeLongitudes(grid(6), 6, 2, { west: -60, south: -90, east: 300, north: 90 }, 'aod.tif');
+    expect(Array.from(out.data)).toEqual([4, 5, 0, 1, 2, 3, 14, 15, 10, 11, 12, 13]);
+    expect(out.bounds).toEqual({ west: -180, south: -90, east: 180, north: 90 });
+  });
+
+  it('rejects a partial raster straddling 180°', () => {
+    expect(() => normalizeLongitudes(grid(4), 4, 2, { west: 170, south: 0, east: 190, north: 10 }, 'aod.tif'))
+      .toThrow(/aod\.tif: longitudes 170–190° cross the antimeridian/);
+  });
+
+  it('rejects a full raster whose columns do not split at 180°', () => {
+    // 120° columns from 0°: 180° falls inside the second column
+    expect(() => normalizeLongitudes(grid(3), 3, 2, { west: 0, south: -90, east: 360, north: 90 }, 'aod.tif'))
+      .toThrow(/cross the antimeridian/);
+  });
+});
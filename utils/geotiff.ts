@@ -0,0 +1,103 @@
+import { fromArrayBuffer } from 'geotiff';
+import { GeoRaster, GeoBounds } from '../types';
+
+// GeoKey values we care about (GeoTIFF spec 1.0, section 6.3.1)
+const MODEL_TYPE_GEOGRAPHIC = 2;
+
+export const isNoData = (value: number, noData: number | null): boolean => {
+  if (!Number.isFinite(value)) return true;
+  if (noData === null) return false;
+  return Number.isNaN(noData) ? Number.isNaN(value) : value === noData;
+};
+
+// Column offsets within this fraction of a pixel count as aligned
+const ALIGN_TOLERANCE = 1e-6;
+
+/**
+ * Bring 0–360° longitudes into the -180–180° frame the globe, the raster
+ * shader and the sampling code work in. Rasters wholly east of 180° shift
+ * by -360°; a full 360° raster has its columns rolled to start at -180°.
+ * A partial raster straddling 180° cannot be drawn and is rejected.
+ */
+export const normalizeLongitudes = (
+  data: Float32Array, width: number, height: number, bounds: GeoBounds, name: string
+): { data: Float32Array; bounds: GeoBounds } => {
+  const { west, east } = bounds;
+  if (east <= 180) return { data, bounds };
+  if (west >= 180) return { data, bounds: { ...bounds, west: west - 360, east: east - 360 } };
+
+  const pxW = (east - west) / width;
+  const split = (180 - west) / pxW; // first column east of 180°
+  const k = Math.round(split);
+  if (Math.abs(east - west - 360) > pxW * ALIGN_TOLERANCE || Math.abs(split - k) > ALIGN_TOLERANCE) {
+    throw new Error(`${name}: longitudes ${west}–${east}° cross the antimeridian, please export the raster in -180–180° longitudes`);
+  }
+  const rolled = new Float32Array(data.length);
+  for (let row = 0; row < height; row++) {
+    const offset = row * width;
+    rolled.set(data.subarray(offset + k, offset + width), offset);
+    rolled.set(data.subarray(offset, offset + k), offset + width - k);
+  }
+  return { data: rolled, bounds: { ...bounds, west: west + k * pxW - 360, east: west + k * pxW } };
+};
+
+/**
+ * Decode a single-band GeoTIFF (MODIS/MAIAC mean AOD, Sen's slope or a DEM)
+ * into a Float32 grid with its lat/lon footprint and nodata value.
+ * Only geographic (WGS84 lat/lon) rasters are supported.
+ */
+export const decodeGeoTiff = async (buffer: ArrayBuffer, name: string): Promise<GeoRaster> => {
+  const tiff = await fromArrayBuffer(buffer);
+  const image = await tiff.getImage();
+
+  const geoKeys = image.getGeoKeys() || {};
+  if (geoKeys.GTModelTypeGeoKey && geoKeys.GTModelTypeGeoKey !== MODEL_TYPE_GEOGRAPHIC) {
+    throw new Error(`${name}: projected CRS is not supported, please export the raster in EPSG:4326`);
+  }
+
+  const [west, south, east, north] = image.getBoundingBox();
+  if (south < -90 || north > 90 || west < -180 || east > 360) {
+    throw new Error(`${name}: bounding box [${west}, ${south}, ${east}, ${north}] is not in degrees`);
+  }
+
+  const width = image.getWidth();
+  const height = image.getHeight();
+  const noData = image.getGDALNoData();
+
+  const rasters = await image.readRasters({ samples: [0] });
+  const band = (rasters as unknown as ArrayLike<number>[])[0];
+  const { data, bounds } = normalizeLongitudes(
+    band instanceof Float32Array ? band : Float32Array.from(band), width, height, { west, south, east, north }, name
+  );
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < data.length; i++) {
+    const v = data[i];
+    if (isNoData(v, noData)) continue;
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  if (min > max) {
+    throw new Error(`${name}: raster contains no valid pixels`);
+  }
+
+  return { name, width, height, data, bounds, noData, min, max };
+};
+
+export const loadGeoTiffFile = async (file: File): Promise<GeoRaster> => {
+  const buffer = await file.arrayBuffer();
+  return decodeGeoTiff(buffer, file.name);
+};
+
+/**
+ * Nearest-pixel lookup. Returns null outside the footprint or on nodata.
+ */
+export const sampleRaster = (raster: GeoRaster, lat: number, lon: number): number | null => {
+  const { west, south, east, north } = raster.bounds;
+  if (lat < south || lat > north || lon < west || lon > east) return null;
+  const col = Math.min(raster.width - 1, Math.floor(((lon - west) / (east - west)) * raster.width));
+  const row = Math.min(raster.height - 1, Math.floor(((north - lat) / (north - south)) * raster.height));
+  const value = raster.data[row * raster.width + col];
+  return isNoData(value, raster.noData) ? null : value;
+};
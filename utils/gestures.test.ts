@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { LandmarkFrame } from '../types';
+import { parseRecording, replayFrames } from './gestures';
+
+// Detection interval of a 30 fps camera
+const FRAME_MS = 33;
+
+interface HandShape {
+  x?: number; // wrist position in the (unmirrored) image
+  y?: number;
+  reach: number; // index and pinky tips to the wrist
+  pinch: number; // thumb tip to index tip
+}
+
+/**
+ * A synthetic 21-point hand: the finger bases sit 0.1 above the wrist, the
+ * index and pinky tips `reach` above it and the thumb tip `pinch` beside the
+ * index tip. Only the landmarks the classifier reads are placed; the rest
+ * fall on the bases.
+ */
+const hand = ({ x = 0.5, y = 0.8, reach, pinch }: HandShape) => {
+  const points = Array.from({ length: 21 }, () => ({ x, y: y - 0.1, z: 0 }));
+  points[0] = { x, y, z: 0 };
+  points[8] = { x, y: y - reach, z: 0 };
+  points[20] = { x, y: y - reach, z: 0 };
+  points[4] = { x: x + pinch, y: y - reach, z: 0 };
+  return points;
+};
+
+// Uncalibrated thresholds: fist below 0.15 reach, palm above 0.2, pinch entered below 0.08 and left above 0.1
+const PINCH_ENTER = 0.08;
+const PINCH_EXIT = 0.1;
+const PALM = { reach: 0.25, pinch: 0.2 };
+const FIST = { reach: 0.1, pinch: 0.05 };
+const RELAXED = { reach: 0.18, pinch: 0.2 }; // none of the poses
+
+const frames = (shapes: (HandShape | null)[], start = 0): LandmarkFrame[] =>
+  shapes.map((shape, i) => ({ t: start + i * FRAME_MS, hands: shape ? [hand(shape)] : [] }));
+
+const repeat = <T,>(value: T, n: number): T[] => Array.from({ length: n }, () => value);
+
+describe('replayFrames', () => {
+  it('recognises a fist', () => {
+    const events = replayFrames(frames(repeat(FIST, 5)));
+    const fist = events.find(e => e.state.isFist);
+    expect(fist).toBeDefined();
+    expect(fist!.state.isPinching).toBe(false);
+    expect(fist!.state.isPalmOpen).toBe(false);
+  });
+
+  it('recognises an open palm', () => {
+    const events = replayFrames(frames(repeat(PALM, 5)));
+    expect(events.at(-1)!.state.isPalmOpen).toBe(true);
+  });
+
+  it('debounces a pose until it has held for three frames', () => {
+    expect(replayFrames(frames(repeat(FIST, 2))).some(e => e.state.isFist)).toBe(false);
+    const events = replayFrames(frames(repeat(FIST, 3)));
+    expect(events.find(e => e.state.isFist)?.t).toBe(2 * FRAME_MS);
+  });
+
+  it('drops a pose candidate when the hand flickers out of view', () => {
+    const events = replayFrames(frames([FIST, FIST, null, FIST, FIST]));
+    expect(events.some(e => e.state.isFist)).toBe(false);
+  });
+
+  describe('pinch hysteresis', () => {
+    const between = (PINCH_ENTER + PINCH_EXIT) / 2;
+
+    it('does not enter a pinch between the enter and exit distances', () => {
+      const events = replayFrames(frames([...repeat(RELAXED, 5), ...repeat({ reach: 0.18, pinch: between }, 20)]));
+      expect(events.some(e => e.state.isPinching)).toBe(false);
+    });
+
+    it('enters below the enter distance', () => {
+      const events = replayFrames(frames([...repeat(RELAXED, 5), ...repeat({ reach: 0.18, pinch: PINCH_ENTER * 0.5 }, 10)]));
+      expect(events.at(-1)!.state.isPinching).toBe(true);
+    });
+
+    it('holds a pinch between the distances and releases it past the exit distance', () => {
+      const pinched = repeat({ reach: 0.18, pinch: PINCH_ENTER * 0.5 }, 10);
+      const held = replayFrames(frames([...pinched, ...repeat({ reach: 0.18, pinch: between }, 20)]));
+      expect(held.at(-1)!.state.isPinching).toBe(true);
+
+      const released = replayFrames(frames([...pinched, ...repeat({ reach: 0.18, pinch: PINCH_EXIT * 1.5 }, 20)]));
+      expect(released.at(-1)!.state.isPinching).toBe(false);
+    });
+  });
+
+  describe('swipes', () => {
+    // An open hand held still, then moved 0.08 of the image per frame
+    const sweep = (from: number, step: number) => [
+      ...repeat({ ...PALM, x: from }, 5),
+      ...Array.from({ length: 8 }, (_, i) => ({ ...PALM, x: from + step * (i + 1) })),
+    ];
+
+    // The preview is mirrored, so moving left in the image is a swipe right on screen
+    it('detects a swipe right', () => {
+      const swipes = replayFrames(frames(sweep(0.8, -0.08))).filter(e => e.state.swipe);
+      expect(swipes.map(e => e.state.swipe)).toEqual(['right']);
+    });
+
+    it('detects a swipe left', () => {
+      const swipes = replayFrames(frames(sweep(0.2, 0.08))).filter(e => e.state.swipe);
+      expect(swipes.map(e => e.state.swipe)).toEqual(['left']);
+    });
+
+    it('ignores a hand that drifts slowly', () => {
+      const drift = Array.from({ length: 30 }, (_, i) => ({ ...PALM, x: 0.8 - i * 0.01 }));
+      expect(replayFrames(frames(drift)).some(e => e.state.swipe)).toBe(false);
+    });
+  });
+});
+
+describe('parseRecording', () => {
+  const valid = { version: 1, recordedAt: '2024-01-01T00:00:00.000Z', frames: frames([PALM, FIST]) };
+
+  it('accepts a well-formed recording', () => {
+    expect(parseRecording(valid).frames).toHaveLength(2);
+  });
+
+  it('rejects files that are not recordings', () => {
+    expect(() => parseRecording(null)).toThrow('Not a gesture recording');
+    expect(() => parseRecording({ ...valid, version: 2 })).toThrow('Not a gesture recording');
+    expect(() => parseRecording({ ...valid, frames: {} })).toThrow('Not a gesture recording');
+  });
+
+  it('rejects malformed frames', () => {
+    const [first, second] = valid.frames;
+    expect(() => parseRecording({ ...valid, frames: [first, { ...second, t: -1 }] })).toThrow('Frame 1 is malformed');
+    expect(() => parseRecording({ ...valid, frames: [{ ...first, t: 'soon' }] })).toThrow('Frame 0 is malformed');
+    expect(() => parseRecording({ ...valid, frames: [{ ...first, hands: [first.hands[0].slice(0, 20)] }] })).toThrow('Frame 0 is malformed');
+    const broken = first.hands[0].map((p, i) => (i === 8 ? { ...p, x: NaN } : p));
+    expect(() => parseRecording({ ...valid, frames: [{ ...first, hands: [broken] }] })).toThrow('Frame 0 is malformed');
+  });
+});
@@ -0,0 +1,351 @@
+import { ActionBinding, GestureProfile, GestureTrigger, HandGestureState, InputCommand, HandPose, LandmarkFrame, LandmarkRecording, SwipeDirection } from '../types';
+
+import { bindingCommand } from './commands';
+
+/**
+ * Landmark-to-gesture classification, kept free of the camera and MediaPipe
+ * so recorded landmark streams give the same gestures as the live camera.
+ */
+
+/**
+ * Pose thresholds with hysteresis: a pose is entered at one value and only
+ * left once the hand passes the looser one. Relative thresholds are in palm
+ * lengths (wrist to middle-finger base), so they hold at any distance from
+ * the camera; absolute ones are normalised image distances.
+ */
+export interface GestureThresholds {
+  relative: boolean;
+  pinchEnter: number;
+  pinchExit: number;
+  fistEnter: number;
+  fistExit: number;
+  palmEnter: number;
+  palmExit: number;
+}
+
+// Uncalibrated: absolute distances tuned for an adult hand about 1 m from a laptop camera
+export const DEFAULT_THRESHOLDS: GestureThresholds = {
+  relative: false,
+  pinchEnter: 0.08,
+  pinchExit: 0.1,
+  fistEnter: 0.15,
+  fistExit: 0.18,
+  palmEnter: 0.2,
+  palmExit: 0.17,
+};
+
+// Calibrated pinch thresholds in palm lengths (the default distances over a typical palm)
+const RELATIVE_PINCH_ENTER = 0.6;
+const RELATIVE_PINCH_EXIT = 0.75;
+
+// Frames a new pose must persist before it replaces the current one
+const POSE_HOLD_FRAMES = 3;
+
+// Weight of the newest sample in the exponential smoothing of hand metrics
+const SMOOTHING = 0.5;
+
+// Open-hand horizontal travel that counts as a swipe, and the pause after one
+const SWIPE_DISTANCE = 0.3;
+const SWIPE_WINDOW_MS = 300;
+const SWIPE_COOLDOWN_MS = 800;
+
+// Palm / spread movement below this is not worth an update
+const MOVE_EPSILON = 0.003;
+
+export type Point = { x: number; y: number };
+
+interface HandMetrics {
+  pinch: number; // thumb tip to index tip
+  indexReach: number; // index tip to wrist
+  pinkyReach: number; // pinky tip to wrist
+}
+
+export interface TrackerState {
+  pose: HandPose;
+  candidate: HandPose;
+  candidateFrames: number;
+  metrics: HandMetrics | null;
+  palm: Point | null;
+  cursor: Point | null;
+  spread: number | null;
+  trail: { t: number; x: number }[];
+  lastSwipe: number;
+}
+
+export const createTracker = (): TrackerState => ({
+  pose: 'none', candidate: 'none', candidateFrames: 0,
+  metrics: null, palm: null, cursor: null, spread: null,
+  trail: [], lastSwipe: -Infinity,
+});
+
+export const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+const smooth = (prev: number | null, next: number) => (prev === null ? next : prev + (next - prev) * SMOOTHING);
+const smoothPoint = (prev: Point | null, next: Point): Point =>
+  prev ? { x: smooth(prev.x, next.x), y: smooth(prev.y, next.y) } : next;
+
+// Mirror X so positions match the mirrored video preview
+const mirrored = (p: Point): Point => ({ x: 1 - p.x, y: p.y });
+
+// Palm centre: mean of the wrist and the four finger bases
+const palmCentre = (landmarks: Point[]): Point => {
+  const ids = [0, 5, 9, 13, 17];
+  return mirrored({
+    x: ids.reduce((sum, i) => sum + landmarks[i].x, 0) / ids.length,
+    y: ids.reduce((sum, i) => sum + landmarks[i].y, 0) / ids.length,
+  });
+};
+
+const palmLength = (landmarks: Point[]) => Math.max(1e-6, distance(landmarks[0], landmarks[9]));
+
+const measure = (landmarks: Point[], relative: boolean): HandMetrics => {
+  const scale = relative ? palmLength(landmarks) : 1;
+  return {
+    pinch: distance(landmarks[4], landmarks[8]) / scale,
+    indexReach: distance(landmarks[8], landmarks[0]) / scale,
+    pinkyReach: distance(landmarks[20], landmarks[0]) / scale,
+  };
+};
+
+// Fist wins over pinch (a closed hand also brings thumb and index together)
+const classifyPose = (m: HandMetrics | null, current: HandPose, th: GestureThresholds): HandPose => {
+  if (!m) return 'none';
+  const fist = current === 'fist' ? th.fistExit : th.fistEnter;
+  if (m.indexReach < fist && m.pinkyReach < fist) return 'fist';
+  if (m.pinch < (current === 'pinch' ? th.pinchExit : th.pinchEnter)) return 'pinch';
+  if (m.indexReach > (current === 'palm' ? th.palmExit : th.palmEnter)) return 'palm';
+  return 'none';
+};
+
+// Mean finger reach in palm lengths: large for an open hand, small for a fist
+export const handSpan = (landmarks: Point[]) => {
+  const m = measure(landmarks, true);
+  return (m.indexReach + m.pinkyReach) / 2;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Profile from spans sampled while the user held an open hand and a fist.
+ * Throws when the two poses are too alike to tell apart.
+ */
+export const buildProfile = (openSpans: number[], fistSpans: number[]): GestureProfile => {
+  if (openSpans.length === 0 || fistSpans.length === 0) throw new Error('No hand was seen');
+  const openSpan = median(openSpans);
+  const fistSpan = median(fistSpans);
+  if (fistSpan > openSpan * 0.8) throw new Error('Open hand and fist look too alike, try again with the hand facing the camera');
+  return { openSpan, fistSpan, calibratedAt: new Date().toISOString() };
+};
+
+// Thresholds placed between the user's fist and open-hand spans
+export const thresholdsFor = (profile: GestureProfile | null): GestureThresholds => {
+  if (!profile) return DEFAULT_THRESHOLDS;
+  const { fistSpan, openSpan } = profile;
+  const at = (f: number) => fistSpan + (openSpan - fistSpan) * f;
+  return {
+    relative: true,
+    pinchEnter: RELATIVE_PINCH_ENTER,
+    pinchExit: RELATIVE_PINCH_EXIT,
+    fistEnter: at(0.3),
+    fistExit: at(0.4),
+    palmEnter: at(0.65),
+    palmExit: at(0.55),
+  };
+};
+
+/**
+ * Advance the tracker by one detection and derive the gesture state. The
+ * primary hand is the one closest to the previous palm position, so two
+ * hands swapping order in the result does not make the cursor jump.
+ */
+export const trackHands = (
+  t: TrackerState, hands: Point[][], now: number, thresholds: GestureThresholds = DEFAULT_THRESHOLDS
+): HandGestureState => {
+  let primary: Point[] | undefined = hands[0];
+  if (t.palm && hands.length > 1) {
+    const prevPalm = t.palm;
+    primary = hands.reduce((best, h) => (distance(palmCentre(h), prevPalm) < distance(palmCentre(best), prevPalm) ? h : best));
+  }
+
+  if (primary) {
+    const m = measure(primary, thresholds.relative);
+    t.metrics = t.metrics
+      ? { pinch: smooth(t.metrics.pinch, m.pinch), indexReach: smooth(t.metrics.indexReach, m.indexReach), pinkyReach: smooth(t.metrics.pinkyReach, m.pinkyReach) }
+      : m;
+    t.palm = smoothPoint(t.palm, palmCentre(primary));
+    t.cursor = smoothPoint(t.cursor, mirrored(primary[8]));
+  } else {
+    // Start fresh when the hand comes back instead of easing in from its old spot
+    t.metrics = null;
+    t.palm = null;
+    t.cursor = null;
+  }
+
+  t.spread = hands.length > 1 ? smooth(t.spread, distance(palmCentre(hands[0]), palmCentre(hands[1]))) : null;
+
+  // Debounce: commit a pose change only once it has held for a few frames
+  const raw = classifyPose(t.metrics, t.pose, thresholds);
+  if (raw === t.pose) {
+    t.candidate = raw;
+    t.candidateFrames = 0;
+  } else if (raw === t.candidate) {
+    if (++t.candidateFrames >= POSE_HOLD_FRAMES) {
+      t.pose = raw;
+      t.candidateFrames = 0;
+    }
+  } else {
+    t.candidate = raw;
+    t.candidateFrames = 1;
+  }
+
+  // Swipe: fast horizontal travel of an open hand
+  let swipe: SwipeDirection | null = null;
+  if (t.pose === 'palm' && t.palm && hands.length === 1) {
+    t.trail.push({ t: now, x: t.palm.x });
+    t.trail = t.trail.filter(s => now - s.t <= SWIPE_WINDOW_MS);
+    const travel = t.palm.x - t.trail[0].x;
+    if (Math.abs(travel) > SWIPE_DISTANCE && now - t.lastSwipe > SWIPE_COOLDOWN_MS) {
+      swipe = travel > 0 ? 'right' : 'left';
+      t.lastSwipe = now;
+      t.trail = [];
+    }
+  } else {
+    t.trail = [];
+  }
+
+  return {
+    isPalmOpen: t.pose === 'palm',
+    isFist: t.pose === 'fist',
+    isPinching: t.pose === 'pinch',
+    pinchDistance: t.metrics?.pinch ?? 0,
+    handPosition: t.cursor ?? { x: 0.5, y: 0.5 },
+    palmPosition: t.palm ?? { x: 0.5, y: 0.5 },
+    handCount: hands.length,
+    handSpread: t.spread,
+    swipe,
+  };
+};
+
+/**
+ * Whether a new state is worth emitting: pose and hand-count changes always
+ * are, continuous values only once they have moved noticeably.
+ */
+export const gestureChanged = (prev: HandGestureState, next: HandGestureState): boolean =>
+  prev.isPalmOpen !== next.isPalmOpen ||
+  prev.isFist !== next.isFist ||
+  prev.isPinching !== next.isPinching ||
+  Math.abs(prev.pinchDistance - next.pinchDistance) > 0.05 ||
+  prev.handCount !== next.handCount ||
+  next.swipe !== null ||
+  // Cursor moves matter while pinching (timeline scrubbing)
+  (next.isPinching && Math.abs(prev.handPosition.x - next.handPosition.x) > 0.01) ||
+  // Palm moves drive orbit and pan
+  ((next.isPalmOpen || next.isPinching) && distance(prev.palmPosition, next.palmPosition) > MOVE_EPSILON) ||
+  (prev.handSpread === null) !== (next.handSpread === null) ||
+  (next.handSpread !== null && Math.abs(next.handSpread - (prev.handSpread ?? 0)) > MOVE_EPSILON);
+
+// Bindable gestures that start with this update
+export const gestureTriggers = (prev: HandGestureState, next: HandGestureState): GestureTrigger[] => {
+  const triggers: GestureTrigger[] = [];
+  if (next.swipe) triggers.push(next.swipe === 'right' ? 'Swipe Right' : 'Swipe Left');
+  if (next.isFist && !prev.isFist) triggers.push('Fist');
+  if (next.isPalmOpen && !prev.isPalmOpen) triggers.push('Open Palm');
+  if (next.isPinching && !prev.isPinching) triggers.push('Pinch');
+  if (next.handCount > 1 && prev.handCount <= 1) triggers.push('Two Hands');
+  return triggers;
+};
+
+// Camera motion per unit of normalised hand travel: radians of orbit, and
+// fractions of the camera distance when panning
+const GESTURE_ORBIT_GAIN = Math.PI;
+const GESTURE_PAN_GAIN = 1;
+
+// Gestures that drive the timeline in time-series mode instead of their bindings
+const TIMELINE_TRIGGERS: GestureTrigger[] = ['Open Palm', 'Fist', 'Pinch'];
+
+/**
+ * Commands for one gesture update: bound gestures that start with it, then
+ * the continuous ones — two-hand zoom, and either the timeline (open palm
+ * plays, fist pauses, pinch scrubs) or open-hand orbit and pinch pan, where
+ * the scene follows the hand.
+ */
+export const gestureCommands = (
+  prev: HandGestureState, next: HandGestureState, bindings: Record<GestureTrigger, ActionBinding>, timeline: boolean
+): InputCommand[] => {
+  const commands = gestureTriggers(prev, next)
+    .filter(trigger => !(timeline && TIMELINE_TRIGGERS.includes(trigger)))
+    .map(trigger => bindingCommand(bindings[trigger]))
+    .filter((c): c is InputCommand => c !== null);
+
+  if (next.handCount > 1) {
+    // Spread apart to zoom in, bring together to zoom out
+    if (next.handSpread && prev.handSpread) commands.push({ type: 'zoom', scale: prev.handSpread / next.handSpread });
+    return commands;
+  }
+  if (timeline) {
+    if (next.isPalmOpen) commands.push({ type: 'setPlaying', playing: true });
+    else if (next.isFist) commands.push({ type: 'setPlaying', playing: false });
+    if (next.isPinching) commands.push({ type: 'scrub', position: Math.min(1, Math.max(0, next.handPosition.x)) });
+    return commands;
+  }
+  // A swipe is not also an orbit drag
+  if (next.swipe) return commands;
+
+  const dx = next.palmPosition.x - prev.palmPosition.x;
+  const dy = next.palmPosition.y - prev.palmPosition.y;
+  if (next.isPalmOpen && prev.isPalmOpen) {
+    commands.push({ type: 'orbit', azimuth: -dx * GESTURE_ORBIT_GAIN, polar: -dy * GESTURE_ORBIT_GAIN });
+  } else if (next.isPinching && prev.isPinching) {
+    commands.push({ type: 'pan', dx: -dx * GESTURE_PAN_GAIN, dy: -dy * GESTURE_PAN_GAIN });
+  }
+  return commands;
+};
+
+// Gesture state before any hand has been seen
+export const idleGesture = (): HandGestureState => trackHands(createTracker(), [], 0);
+
+/**
+ * Run a landmark stream through a fresh tracker and return the states the
+ * live controller would have emitted, each with the frame time it came from.
+ */
+export const replayFrames = (
+  frames: LandmarkFrame[], thresholds: GestureThresholds = DEFAULT_THRESHOLDS
+): { t: number; state: HandGestureState }[] => {
+  const tracker = createTracker();
+  let prev = idleGesture();
+  const events: { t: number; state: HandGestureState }[] = [];
+  for (const frame of frames) {
+    const state = trackHands(tracker, frame.hands, frame.t, thresholds);
+    if (gestureChanged(prev, state)) {
+      prev = state;
+      events.push({ t: frame.t, state });
+    }
+  }
+  return events;
+};
+
+// Landmarks rounded to 1e-4 of the image, which keeps recordings small
+const roundLandmark = (v: number) => Math.round(v * 1e4) / 1e4;
+
+export const recordFrame = (t: number, hands: { x: number; y: number; z?: number }[][]): LandmarkFrame => ({
+  t: Math.round(t),
+  hands: hands.map(hand => hand.map(p => ({ x: roundLandmark(p.x), y: roundLandmark(p.y), z: roundLandmark(p.z ?? 0) }))),
+});
+
+const isHand = (hand: any) =>
+  Array.isArray(hand) && hand.length === 21 && hand.every((p: any) => Number.isFinite(p?.x) && Number.isFinite(p?.y));
+
+// Validate a recording file; frames must carry 21-point hands in time order
+export const parseRecording = (json: any): LandmarkRecording => {
+  if (!json || json.version !== 1 || !Array.isArray(json.frames)) throw new Error('Not a gesture recording');
+  let last = -Infinity;
+  json.frames.forEach((frame: any, i: number) => {
+    if (!Number.isFinite(frame?.t) || frame.t < last || !Array.isArray(frame.hands) || !frame.hands.every(isHand)) {
+      throw new Error(`Frame ${i} is malformed`);
+    }
+    last = frame.t;
+  });
+  return { version: 1, recordedAt: typeof json.recordedAt === 'string' ? json.recordedAt : '', frames: json.frames };
+};
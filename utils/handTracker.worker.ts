@@ -0,0 +1,48 @@
+import { HandLandmarker } from '@mediapipe/tasks-vision';
+import { TrackerRequest, TrackerResponse, createLandmarker } from './landmarker';
+
+/**
+ * Hand detection off the render thread. Frames arrive as transferred
+ * ImageBitmaps or VideoFrames; each is answered with the landmarks found
+ * and how long detection took, then closed.
+ */
+
+let landmarker: HandLandmarker | null = null;
+
+const post = (message: TrackerResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<TrackerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'init':
+      try {
+        landmarker = await createLandmarker(request.wasmUrls, request.modelUrls, status => post({ type: 'status', status }));
+        post({ type: 'ready' });
+      } catch (err: any) {
+        post({ type: 'error', message: err?.message ?? String(err) });
+      }
+      break;
+    case 'detect': {
+      const { frame, timestamp } = request;
+      try {
+        if (!landmarker) throw new Error('Hand model not loaded');
+        // The landmarker reads image sizes as width/height, which VideoFrames lack
+        const image = frame instanceof ImageBitmap ? frame : await createImageBitmap(frame);
+        const start = performance.now();
+        const result = landmarker.detectForVideo(image, timestamp);
+        post({ type: 'result', timestamp, hands: result.landmarks ?? [], detectMs: performance.now() - start });
+        if (image !== frame) image.close();
+      } catch (err: any) {
+        post({ type: 'failed', timestamp, message: err?.message ?? String(err) });
+      } finally {
+        frame.close();
+      }
+      break;
+    }
+    case 'close':
+      landmarker?.close();
+      landmarker = null;
+      self.close();
+      break;
+  }
+};
@@ -0,0 +1,157 @@
+import { HandTrackingMode, LandmarkFrame } from '../types';
+import { HAND_MODEL_URLS, MEDIAPIPE_WASM_URLS } from './assets';
+import { TrackerRequest, TrackerResponse, createLandmarker } from './landmarker';
+
+export interface Detection {
+  hands: LandmarkFrame['hands'];
+  detectMs: number; // time spent in the landmarker
+}
+
+// One hand-landmarker, in a worker or on the main thread; detect() is called with one frame in flight at a time
+export interface HandTracker {
+  mode: HandTrackingMode;
+  detect: (video: HTMLVideoElement, timestamp: number) => Promise<Detection>;
+  close: () => void;
+}
+
+// Worker detection needs transferable frames and an OffscreenCanvas for the GPU delegate
+export const workersAvailable = () =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap === 'function';
+
+// Absolute, since the worker resolves relative URLs against its own script
+const absoluteUrls = (urls: string[]) => urls.map(url => new URL(url, window.location.href).href);
+
+// VideoFrames wrap the decoded frame without a copy; ImageBitmaps are the fallback
+const grabFrame = async (video: HTMLVideoElement): Promise<ImageBitmap | VideoFrame> =>
+  typeof VideoFrame !== 'undefined' ? new VideoFrame(video) : createImageBitmap(video);
+
+// `onLost` reports a worker that fails after it became ready; in-flight and later detections reject
+const createWorkerTracker = (onStatus: (status: string) => void, onLost: (err: Error) => void) =>
+  new Promise<HandTracker>((resolve, reject) => {
+    const worker = new Worker(new URL('./handTracker.worker.ts', import.meta.url));
+    const pending = new Map<number, { resolve: (d: Detection) => void; reject: (err: Error) => void }>();
+    const post = (request: TrackerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer);
+    let ready = false;
+    let failure: Error | null = null;
+
+    const fail = (err: Error) => {
+      if (failure) return;
+      failure = err;
+      worker.terminate();
+      pending.forEach(p => p.reject(err));
+      pending.clear();
+      if (ready) onLost(err);
+      else reject(err);
+    };
+
+    const tracker: HandTracker = {
+      mode: 'Worker',
+      detect: async (video, timestamp) => {
+        if (failure) throw failure;
+        const frame = await grabFrame(video);
+        return new Promise<Detection>((resolve, reject) => {
+          pending.set(timestamp, { resolve, reject });
+          post({ type: 'detect', frame, timestamp }, [frame]);
+        });
+      },
+      close: () => {
+        post({ type: 'close' });
+        pending.clear();
+      },
+    };
+
+    worker.onmessage = (event: MessageEvent<TrackerResponse>) => {
+      const response = event.data;
+      switch (response.type) {
+        case 'status':
+          onStatus(response.status);
+          break;
+        case 'ready':
+          ready = true;
+          resolve(tracker);
+          break;
+        case 'error':
+          fail(new Error(response.message));
+          break;
+        case 'result':
+        case 'failed': {
+          const request = pending.get(response.timestamp);
+          pending.delete(response.timestamp);
+          if (response.type === 'result') request?.resolve({ hands: response.hands, detectMs: response.detectMs });
+          else request?.reject(new Error(response.message));
+          break;
+        }
+      }
+    };
+    worker.onerror = event => {
+      event.preventDefault();
+      fail(new Error(event.message || (ready ? 'Hand tracking worker failed' : 'Hand tracking worker failed to start')));
+    };
+
+    post({ type: 'init', wasmUrls: absoluteUrls(MEDIAPIPE_WASM_URLS), modelUrls: absoluteUrls(HAND_MODEL_URLS) });
+  });
+
+const createMainThreadTracker = async (onStatus: (status: string) => void): Promise<HandTracker> => {
+  const landmarker = await createLandmarker(MEDIAPIPE_WASM_URLS, HAND_MODEL_URLS, onStatus);
+  return {
+    mode: 'Main Thread',
+    detect: async (video, timestamp) => {
+      const start = performance.now();
+      const result = landmarker.detectForVideo(video, timestamp);
+      return { hands: result.landmarks ?? [], detectMs: performance.now() - start };
+    },
+    close: () => landmarker.close(),
+  };
+};
+
+/**
+ * Worker tracker that swaps itself for a main-thread one if the worker dies
+ * mid-session; detections wait for the replacement instead of hanging.
+ */
+const createFallbackTracker = async (
+  onStatus: (status: string) => void, onFallback: (mode: HandTrackingMode) => void
+): Promise<HandTracker> => {
+  let closed = false;
+  let replacement: Promise<HandTracker> | null = null;
+  const worker = await createWorkerTracker(onStatus, err => {
+    if (closed) return;
+    console.warn('Hand tracking worker failed, switching to the main thread:', err);
+    onStatus('Worker failed, loading on the main thread...');
+    replacement = createMainThreadTracker(onStatus);
+    replacement.then(
+      tracker => {
+        if (closed) tracker.close();
+        else onFallback(tracker.mode);
+      },
+      fallbackErr => onStatus(`Hand tracking failed: ${fallbackErr.message}`)
+    );
+  });
+  return {
+    mode: worker.mode,
+    detect: async (video, timestamp) => (replacement ? (await replacement).detect(video, timestamp) : worker.detect(video, timestamp)),
+    close: () => {
+      closed = true;
+      if (replacement) replacement.then(tracker => tracker.close(), () => {});
+      else worker.close();
+    },
+  };
+};
+
+/**
+ * The preferred tracker, falling back to the main thread where workers (or
+ * the GPU delegate inside one) are unavailable, or when the worker fails
+ * later on; `onFallback` reports that switch.
+ */
+export const createHandTracker = async (
+  mode: HandTrackingMode, onStatus: (status: string) => void, onFallback: (mode: HandTrackingMode) => void
+): Promise<HandTracker> => {
+  if (mode === 'Worker' && workersAvailable()) {
+    try {
+      return await createFallbackTracker(onStatus, onFallback);
+    } catch (err) {
+      console.warn('Hand tracking worker failed, falling back to the main thread:', err);
+      onStatus('Worker unavailable, loading on the main thread...');
+    }
+  }
+  return createMainThreadTracker(onStatus);
+};
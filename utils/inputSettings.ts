@@ -0,0 +1,92 @@
+import { ActionBinding, GamepadButton, GestureProfile, GestureTrigger, InputBindings, InputSource, MapLayer, TouchTrigger } from '../types';
+import { DEFAULT_INPUT_BINDINGS } from '../constants';
+import { INPUT_ACTIONS } from './commands';
+
+const PROFILE_KEY = 'hobq-aod.gesture-profile';
+const BINDINGS_KEY = 'hobq-aod.input-bindings';
+// Gesture-only bindings saved before keyboard, touch and gamepad joined them
+const LEGACY_GESTURE_BINDINGS_KEY = 'hobq-aod.gesture-bindings';
+
+export const GESTURE_TRIGGERS = Object.keys(DEFAULT_INPUT_BINDINGS.gesture) as GestureTrigger[];
+export const TOUCH_TRIGGERS = Object.keys(DEFAULT_INPUT_BINDINGS.touch) as TouchTrigger[];
+export const GAMEPAD_BUTTONS = Object.keys(DEFAULT_INPUT_BINDINGS.gamepad) as GamepadButton[];
+
+export const INPUT_SOURCES: { source: InputSource; label: string; continuous: string }[] = [
+  { source: 'keyboard', label: 'Keyboard', continuous: 'Arrow keys orbit, Shift + arrows pan.' },
+  { source: 'touch', label: 'Touch', continuous: 'One finger orbits; two fingers pinch to zoom and drag to pan.' },
+  { source: 'gamepad', label: 'Gamepad', continuous: 'Left stick orbits, right stick pans, LT / RT zoom out / in.' },
+  { source: 'gesture', label: 'Hand Gestures', continuous: 'Open hand orbits, pinch pans, two hands zoom; in time-series mode palm plays, fist pauses and pinch scrubs.' },
+];
+
+// Action as shown to the user, naming the layer a 'Toggle Layer' binding targets
+export const bindingLabel = ({ action, layerId }: ActionBinding, layers: MapLayer[]) =>
+  action === 'Toggle Layer' ? `Toggle ${layers.find(l => l.id === layerId)?.name ?? 'Layer'}` : action;
+
+const isSpan = (v: any) => typeof v === 'number' && Number.isFinite(v) && v > 0;
+
+// Calibration profile, or null when the user has not calibrated (or it is unreadable)
+export const loadGestureProfile = (): GestureProfile | null => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PROFILE_KEY) ?? 'null');
+    return parsed && isSpan(parsed.openSpan) && isSpan(parsed.fistSpan) && parsed.fistSpan < parsed.openSpan
+      ? { openSpan: parsed.openSpan, fistSpan: parsed.fistSpan, calibratedAt: String(parsed.calibratedAt ?? '') }
+      : null;
+  } catch (err) {
+    console.warn('Ignoring unreadable gesture profile:', err);
+    return null;
+  }
+};
+
+export const saveGestureProfile = (profile: GestureProfile | null) => {
+  try {
+    if (profile) localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+    else localStorage.removeItem(PROFILE_KEY);
+  } catch (err) {
+    console.error('Could not save the gesture profile:', err);
+  }
+};
+
+const readBinding = (b: any): ActionBinding | null =>
+  b && INPUT_ACTIONS.includes(b.action)
+    ? { action: b.action, ...(typeof b.layerId === 'string' ? { layerId: b.layerId } : {}) }
+    : null;
+
+// Saved bindings for a fixed set of triggers over their defaults
+const readTriggers = <T extends string>(saved: any, defaults: Record<T, ActionBinding>): Record<T, ActionBinding> => {
+  const bindings = { ...defaults };
+  (Object.keys(defaults) as T[]).forEach(trigger => {
+    const b = readBinding(saved?.[trigger]);
+    if (b) bindings[trigger] = b;
+  });
+  return bindings;
+};
+
+// Saved bindings over the defaults; unknown triggers and actions are dropped
+export const loadInputBindings = (): InputBindings => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(BINDINGS_KEY) ?? 'null');
+    const legacyGestures = parsed ? null : JSON.parse(localStorage.getItem(LEGACY_GESTURE_BINDINGS_KEY) ?? 'null');
+    const keyboard: Record<string, ActionBinding> = {};
+    Object.entries(parsed?.keyboard ?? DEFAULT_INPUT_BINDINGS.keyboard).forEach(([key, value]) => {
+      const b = readBinding(value);
+      if (key && b) keyboard[key] = b;
+    });
+    return {
+      keyboard,
+      touch: readTriggers(parsed?.touch, DEFAULT_INPUT_BINDINGS.touch),
+      gamepad: readTriggers(parsed?.gamepad, DEFAULT_INPUT_BINDINGS.gamepad),
+      gesture: readTriggers(parsed?.gesture ?? legacyGestures, DEFAULT_INPUT_BINDINGS.gesture),
+    };
+  } catch (err) {
+    console.warn('Ignoring unreadable input bindings:', err);
+    return DEFAULT_INPUT_BINDINGS;
+  }
+};
+
+export const saveInputBindings = (bindings: InputBindings) => {
+  try {
+    localStorage.setItem(BINDINGS_KEY, JSON.stringify(bindings));
+  } catch (err) {
+    console.error('Could not save input bindings:', err);
+  }
+};
@@ -0,0 +1,309 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ActionBinding, GamepadButton, InputCommand, TouchTrigger } from '../types';
+import { REPEATABLE_ACTIONS, bindingCommand, isTypingTarget, keyName } from './commands';
+
+/**
+ * Keyboard, gamepad and touch sources for the command bus. Each turns its
+ * device into InputCommands — continuous navigation plus the bound discrete
+ * actions — and hands them to `dispatch`; none of them touches the scene.
+ */
+
+export type CommandDispatch = (command: InputCommand) => void;
+
+// Latest dispatch and bindings, so listeners are installed once
+const useLatest = <T,>(value: T) => {
+  const ref = useRef(value);
+  ref.current = value;
+  return ref;
+};
+
+// Seconds since the previous frame, capped so a stalled tab does not jump the camera
+const frameSeconds = (now: number, last: number) => Math.min(0.1, Math.max(0, now - last) / 1000);
+
+// Arrow keys orbit (radians/s), or pan with Shift (camera distances/s)
+const KEY_ORBIT_RATE = Math.PI / 2;
+const KEY_PAN_RATE = 0.5;
+const ARROW_KEYS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
+};
+
+export const useKeyboardInput = (dispatch: CommandDispatch, bindings: Record<string, ActionBinding>) => {
+  const latest = useLatest({ dispatch, bindings });
+
+  useEffect(() => {
+    const held = new Set<string>();
+    let pan = false;
+    let frame = 0;
+    let last = 0;
+
+    const tick = (now: number) => {
+      const dt = frameSeconds(now, last);
+      last = now;
+      let x = 0;
+      let y = 0;
+      held.forEach(key => {
+        x += ARROW_KEYS[key][0];
+        y += ARROW_KEYS[key][1];
+      });
+      if (x || y) {
+        latest.current.dispatch(pan
+          ? { type: 'pan', dx: x * KEY_PAN_RATE * dt, dy: y * KEY_PAN_RATE * dt }
+          : { type: 'orbit', azimuth: x * KEY_ORBIT_RATE * dt, polar: y * KEY_ORBIT_RATE * dt });
+      }
+      frame = held.size > 0 ? requestAnimationFrame(tick) : 0;
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (ARROW_KEYS[e.key]) {
+        e.preventDefault();
+        pan = e.shiftKey;
+        held.add(e.key);
+        if (!frame) {
+          last = performance.now();
+          frame = requestAnimationFrame(tick);
+        }
+        return;
+      }
+      const binding = latest.current.bindings[keyName(e)];
+      if (!binding || (e.repeat && !REPEATABLE_ACTIONS.includes(binding.action))) return;
+      const command = bindingCommand(binding);
+      if (!command) return;
+      e.preventDefault();
+      latest.current.dispatch(command);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      held.delete(e.key);
+      pan = e.shiftKey;
+    };
+    const onBlur = () => held.clear();
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+      cancelAnimationFrame(frame);
+    };
+  }, [latest]);
+};
+
+// Sticks orbit (left) and pan (right), the triggers zoom; rates are per second at full deflection
+const STICK_DEAD_ZONE = 0.15;
+const PAD_ORBIT_RATE = Math.PI / 2;
+const PAD_PAN_RATE = 0.5;
+const PAD_ZOOM_RATE = 1.5; // e-folds of camera distance
+const ZOOM_OUT_BUTTON = 6; // LT
+const ZOOM_IN_BUTTON = 7; // RT
+
+// Button indices of the W3C standard gamepad mapping
+const BUTTON_INDEX: Record<GamepadButton, number> = {
+  'A': 0, 'B': 1, 'X': 2, 'Y': 3, 'LB': 4, 'RB': 5, 'Back': 8, 'Start': 9, 'L3': 10, 'R3': 11,
+  'D-Pad Up': 12, 'D-Pad Down': 13, 'D-Pad Left': 14, 'D-Pad Right': 15,
+};
+
+const connectedPads = () =>
+  Array.from(navigator.getGamepads?.() ?? []).filter((pad): pad is Gamepad => pad !== null && pad.connected);
+
+// Polls connected gamepads every frame; returns the id of the first one, or null
+export const useGamepadInput = (dispatch: CommandDispatch, bindings: Record<GamepadButton, ActionBinding>) => {
+  const latest = useLatest({ dispatch, bindings });
+  const [gamepad, setGamepad] = useState<string | null>(null);
+
+  useEffect(() => {
+    const pressed = new Map<number, Set<GamepadButton>>(); // by gamepad index
+    let frame = 0;
+    let last = 0;
+
+    const tick = (now: number) => {
+      const dt = frameSeconds(now, last);
+      last = now;
+      const { dispatch, bindings } = latest.current;
+      for (const pad of connectedPads()) {
+        const axis = (i: number) => (Math.abs(pad.axes[i] ?? 0) < STICK_DEAD_ZONE ? 0 : pad.axes[i]);
+        if (axis(0) || axis(1)) dispatch({ type: 'orbit', azimuth: axis(0) * PAD_ORBIT_RATE * dt, polar: axis(1) * PAD_ORBIT_RATE * dt });
+        if (axis(2) || axis(3)) dispatch({ type: 'pan', dx: axis(2) * PAD_PAN_RATE * dt, dy: axis(3) * PAD_PAN_RATE * dt });
+        const zoom = (pad.buttons[ZOOM_OUT_BUTTON]?.value ?? 0) - (pad.buttons[ZOOM_IN_BUTTON]?.value ?? 0);
+        if (Math.abs(zoom) > STICK_DEAD_ZONE) dispatch({ type: 'zoom', scale: Math.exp(zoom * PAD_ZOOM_RATE * dt) });
+
+        // Bound buttons fire once per press
+        const before = pressed.get(pad.index) ?? new Set<GamepadButton>();
+        const down = new Set<GamepadButton>();
+        (Object.keys(BUTTON_INDEX) as GamepadButton[]).forEach(button => {
+          if (!pad.buttons[BUTTON_INDEX[button]]?.pressed) return;
+          down.add(button);
+          const command = before.has(button) ? null : bindingCommand(bindings[button]);
+          if (command) dispatch(command);
+        });
+        pressed.set(pad.index, down);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    // Poll only while a gamepad is connected
+    const update = () => {
+      const pads = connectedPads();
+      setGamepad(pads[0]?.id ?? null);
+      if (pads.length > 0 && !frame) {
+        last = performance.now();
+        frame = requestAnimationFrame(tick);
+      } else if (pads.length === 0 && frame) {
+        cancelAnimationFrame(frame);
+        frame = 0;
+        pressed.clear();
+      }
+    };
+
+    window.addEventListener('gamepadconnected', update);
+    window.addEventListener('gamepaddisconnected', update);
+    update();
+    return () => {
+      window.removeEventListener('gamepadconnected', update);
+      window.removeEventListener('gamepaddisconnected', update);
+      cancelAnimationFrame(frame);
+    };
+  }, [latest]);
+
+  return gamepad;
+};
+
+// Touch recognition limits
+const TAP_MAX_MS = 250;
+const DOUBLE_TAP_MS = 300;
+const LONG_PRESS_MS = 600;
+const TOUCH_SLOP_PX = 10;
+const SWIPE_MIN_WIDTH = 0.15; // fraction of the element width
+// Fraction of the camera distance that spans the view height at the default field of view
+const TOUCH_PAN_GAIN = 0.8;
+
+interface TouchGesture {
+  start: number;
+  fingers: number; // most fingers down at once
+  moved: boolean;
+  origin: { x: number; y: number }; // centroid when the last finger landed
+  centroid: { x: number; y: number };
+}
+
+/**
+ * Touches on `target`: one finger orbits, two pinch-zoom and pan (the scene
+ * follows the fingers), and taps, long presses and three-finger swipes fire
+ * their bindings. Mouse and pen input are left to OrbitControls.
+ */
+export const useTouchInput = (
+  target: React.RefObject<HTMLElement | null>, dispatch: CommandDispatch, bindings: Record<TouchTrigger, ActionBinding>
+) => {
+  const latest = useLatest({ dispatch, bindings });
+
+  useEffect(() => {
+    const element = target.current;
+    if (!element) return;
+    const points = new Map<number, { x: number; y: number }>();
+    let gesture: TouchGesture | null = null;
+    let lastTap = { time: -Infinity, x: 0, y: 0 };
+    let longPress = 0;
+
+    const centroid = () => {
+      let x = 0;
+      let y = 0;
+      points.forEach(p => {
+        x += p.x;
+        y += p.y;
+      });
+      return { x: x / points.size, y: y / points.size };
+    };
+    const spread = () => {
+      const [a, b] = Array.from(points.values());
+      return b ? Math.hypot(a.x - b.x, a.y - b.y) : 0;
+    };
+    const fire = (trigger: TouchTrigger) => {
+      const command = bindingCommand(latest.current.bindings[trigger]);
+      if (command) latest.current.dispatch(command);
+    };
+
+    const onDown = (e: PointerEvent) => {
+      if (e.pointerType !== 'touch') return;
+      points.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      const c = centroid();
+      if (!gesture) gesture = { start: e.timeStamp, fingers: 0, moved: false, origin: c, centroid: c };
+      if (points.size > gesture.fingers) {
+        gesture.fingers = points.size;
+        gesture.origin = c;
+        gesture.centroid = c;
+      }
+      clearTimeout(longPress);
+      if (points.size === 1) {
+        longPress = window.setTimeout(() => {
+          if (!gesture || gesture.moved || gesture.fingers !== 1) return;
+          gesture.moved = true; // the lift that follows is not a tap
+          fire('Long Press');
+        }, LONG_PRESS_MS);
+      }
+    };
+
+    const onMove = (e: PointerEvent) => {
+      const point = points.get(e.pointerId);
+      if (!point || !gesture) return;
+      const before = centroid();
+      const spreadBefore = spread();
+      points.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      const after = centroid();
+      gesture.centroid = after;
+      if (!gesture.moved) {
+        const travel = Math.hypot(after.x - gesture.origin.x, after.y - gesture.origin.y);
+        if (travel < TOUCH_SLOP_PX && Math.abs(spread() - spreadBefore) < TOUCH_SLOP_PX) return;
+        gesture.moved = true;
+        clearTimeout(longPress);
+      }
+      // Navigate only while every finger of the gesture is still down
+      if (points.size !== gesture.fingers) return;
+      const height = element.clientHeight || 1;
+      const dx = (after.x - before.x) / height;
+      const dy = (after.y - before.y) / height;
+      if (points.size === 1) {
+        latest.current.dispatch({ type: 'orbit', azimuth: -2 * Math.PI * dx, polar: -2 * Math.PI * dy });
+      } else if (points.size === 2) {
+        const spreadAfter = spread();
+        if (spreadBefore > 0 && spreadAfter > 0) latest.current.dispatch({ type: 'zoom', scale: spreadBefore / spreadAfter });
+        latest.current.dispatch({ type: 'pan', dx: -dx * TOUCH_PAN_GAIN, dy: -dy * TOUCH_PAN_GAIN });
+      }
+    };
+
+    const onUp = (e: PointerEvent) => {
+      if (!points.delete(e.pointerId) || !gesture || points.size > 0) return;
+      clearTimeout(longPress);
+      const { fingers, moved, origin, centroid: end, start } = gesture;
+      gesture = null;
+      if (e.type === 'pointercancel') return;
+      if (fingers >= 3) {
+        const dx = (end.x - origin.x) / (element.clientWidth || 1);
+        if (Math.abs(dx) > SWIPE_MIN_WIDTH) fire(dx > 0 ? 'Three-Finger Swipe Right' : 'Three-Finger Swipe Left');
+      } else if (!moved && e.timeStamp - start < TAP_MAX_MS) {
+        if (fingers === 2) {
+          fire('Two-Finger Tap');
+        } else if (e.timeStamp - lastTap.time < DOUBLE_TAP_MS && Math.hypot(e.clientX - lastTap.x, e.clientY - lastTap.y) < 4 * TOUCH_SLOP_PX) {
+          lastTap = { time: -Infinity, x: 0, y: 0 };
+          fire('Double Tap');
+        } else {
+          lastTap = { time: e.timeStamp, x: e.clientX, y: e.clientY };
+        }
+      }
+    };
+
+    element.addEventListener('pointerdown', onDown);
+    element.addEventListener('pointermove', onMove);
+    element.addEventListener('pointerup', onUp);
+    element.addEventListener('pointercancel', onUp);
+    return () => {
+      element.removeEventListener('pointerdown', onDown);
+      element.removeEventListener('pointermove', onMove);
+      element.removeEventListener('pointerup', onUp);
+      element.removeEventListener('pointercancel', onUp);
+      clearTimeout(longPress);
+    };
+  }, [target, latest]);
+};
@@ -0,0 +1,53 @@
+import { FilesetResolver, HandLandmarker } from '@mediapipe/tasks-vision';
+import { LandmarkFrame } from '../types';
+import { withTimeout } from './timeout';
+
+/**
+ * Hand-landmarker setup and the worker message protocol. Nothing here may
+ * touch the DOM: it runs both on the main thread and in the tracking worker.
+ */
+
+// WASM + model download and GPU init; beyond this the source counts as failed
+const MODEL_TIMEOUT_MS = 30000;
+
+// Try each asset source in turn (remote then local bundle, or local only offline)
+export const createLandmarker = async (
+  wasmUrls: string[], modelUrls: string[], onStatus: (status: string) => void
+): Promise<HandLandmarker> => {
+  let lastError: any = null;
+  for (let i = 0; i < wasmUrls.length; i++) {
+    try {
+      onStatus(i === 0 ? 'Loading Hand Model...' : 'Retrying with local assets...');
+      const vision = await FilesetResolver.forVisionTasks(wasmUrls[i]);
+      return await withTimeout(HandLandmarker.createFromOptions(vision, {
+        baseOptions: {
+          modelAssetPath: modelUrls[i],
+          delegate: "GPU"
+        },
+        runningMode: "VIDEO",
+        numHands: 2,
+        minHandDetectionConfidence: 0.5,
+        minHandPresenceConfidence: 0.5,
+        minTrackingConfidence: 0.5
+      }), MODEL_TIMEOUT_MS, 'Hand model');
+    } catch (e: any) {
+      console.warn("Hand model source failed:", e);
+      lastError = e;
+    }
+  }
+  throw lastError ?? new Error('No hand model source available');
+};
+
+// Main thread → worker
+export type TrackerRequest =
+  | { type: 'init'; wasmUrls: string[]; modelUrls: string[] }
+  | { type: 'detect'; frame: ImageBitmap | VideoFrame; timestamp: number } // frame is transferred
+  | { type: 'close' };
+
+// Worker → main thread; results echo the timestamp of the frame they answer
+export type TrackerResponse =
+  | { type: 'status'; status: string }
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | { type: 'result'; timestamp: number; hands: LandmarkFrame['hands']; detectMs: number }
+  | { type: 'failed'; timestamp: number; message: string };
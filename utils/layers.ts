@@ -0,0 +1,124 @@
+import * as THREE from 'three';
+import { LayerBlendMode, MapLayer, MapLayerKind, PaletteName } from '../types';
+import { PALETTE_NAMES } from './colormap';
+
+export const BLEND_MODES: LayerBlendMode[] = ['Normal', 'Additive', 'Multiply', 'Subtractive'];
+
+const BLENDING: Record<LayerBlendMode, THREE.Blending> = {
+  Normal: THREE.NormalBlending,
+  Additive: THREE.AdditiveBlending,
+  Multiply: THREE.MultiplyBlending,
+  Subtractive: THREE.SubtractiveBlending,
+};
+
+// Which per-layer settings a kind honours, and whether the user may remove it
+export const LAYER_CAPABILITIES: Record<MapLayerKind, { opacity: boolean; blend: boolean; removable: boolean }> = {
+  stars: { opacity: false, blend: false, removable: false },
+  atmosphere: { opacity: true, blend: true, removable: false },
+  clouds: { opacity: true, blend: true, removable: false },
+  aod: { opacity: true, blend: true, removable: false },
+  raster: { opacity: true, blend: true, removable: true },
+  vector: { opacity: true, blend: true, removable: true },
+  desertOutline: { opacity: true, blend: true, removable: false },
+  borders: { opacity: true, blend: true, removable: false },
+  rivers: { opacity: true, blend: true, removable: false },
+  graticule: { opacity: true, blend: true, removable: false },
+  roi: { opacity: true, blend: true, removable: false },
+  pv: { opacity: false, blend: false, removable: false },
+  labels: { opacity: true, blend: false, removable: false },
+};
+
+/**
+ * Built-in layers whose visibility is a Leva toggle in the main panel; the
+ * toggle is the source of truth and the layer list mirrors it.
+ */
+export const LAYER_VISIBILITY_CONTROLS: Partial<Record<MapLayerKind, string>> = {
+  aod: 'particlesEnabled',
+  graticule: 'showGraticule',
+  borders: 'showBorders',
+  rivers: 'showRivers',
+  desertOutline: 'showDesertOutline',
+  labels: 'showLabels',
+};
+
+const builtIn = (kind: MapLayerKind, name: string, opacity: number, blend: LayerBlendMode = 'Normal'): MapLayer =>
+  ({ id: kind, name, kind, visible: true, opacity, blend });
+
+// The stack the globe has always drawn, bottom to top
+export const DEFAULT_LAYERS: MapLayer[] = [
+  builtIn('stars', 'Stars', 1),
+  builtIn('atmosphere', 'Atmosphere', 0.1, 'Additive'),
+  builtIn('clouds', 'Clouds', 0.8, 'Additive'),
+  builtIn('aod', 'AOD Overlay', 0.9),
+  builtIn('desertOutline', 'Desert Outline', 0.95),
+  builtIn('borders', 'Borders', 0.8),
+  builtIn('rivers', 'Rivers', 0.85),
+  builtIn('graticule', 'Graticule', 0.2),
+  builtIn('roi', 'Regions of Interest', 0.95),
+  builtIn('pv', 'PV Stations', 1),
+  builtIn('labels', 'Labels', 1),
+];
+
+const newLayerId = (kind: MapLayerKind) => `${kind}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createRasterLayer = (name: string, palette: PaletteName): MapLayer =>
+  ({ id: newLayerId('raster'), name, kind: 'raster', visible: true, opacity: 0.8, blend: 'Normal', palette });
+
+export const createVectorLayer = (name: string, color: string): MapLayer =>
+  ({ id: newLayerId('vector'), name, kind: 'vector', visible: true, opacity: 0.9, blend: 'Normal', color });
+
+// Swap a layer with its neighbour; +1 moves it up the stack (drawn later)
+export const moveLayer = (layers: MapLayer[], id: string, delta: 1 | -1): MapLayer[] => {
+  const from = layers.findIndex(l => l.id === id);
+  const to = from + delta;
+  if (from < 0 || to < 0 || to >= layers.length) return layers;
+  const next = [...layers];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+};
+
+/**
+ * Material settings for a draped layer. Multiply needs premultiplied alpha in
+ * three.js; nothing writes depth, so draw order alone decides compositing.
+ */
+export const layerMaterial = (layer: Pick<MapLayer, 'opacity' | 'blend'>) => ({
+  transparent: true,
+  opacity: layer.opacity,
+  blending: BLENDING[layer.blend],
+  premultipliedAlpha: layer.blend === 'Multiply',
+  depthWrite: false,
+});
+
+const KINDS = Object.keys(LAYER_CAPABILITIES) as MapLayerKind[];
+
+/**
+ * Layer stack from a saved scene: malformed entries are dropped, and any
+ * built-in layer the scene lacks is inserted at its default position so
+ * nothing the globe needs goes missing.
+ */
+export const sanitizeLayers = (raw: unknown): MapLayer[] => {
+  const seen = new Set<string>();
+  const layers: MapLayer[] = (Array.isArray(raw) ? raw : []).flatMap((l: any): MapLayer[] => {
+    if (!l || typeof l.id !== 'string' || typeof l.name !== 'string' || !KINDS.includes(l.kind) || seen.has(l.id)) return [];
+    if (!LAYER_CAPABILITIES[l.kind as MapLayerKind].removable && l.id !== l.kind) return [];
+    seen.add(l.id);
+    return [{
+      id: l.id,
+      name: l.name,
+      kind: l.kind,
+      visible: typeof l.visible === 'boolean' ? l.visible : true,
+      opacity: Number.isFinite(l.opacity) ? Math.min(1, Math.max(0, l.opacity)) : 1,
+      blend: BLEND_MODES.includes(l.blend) ? l.blend : 'Normal',
+      ...(PALETTE_NAMES.includes(l.palette) ? { palette: l.palette } : {}),
+      ...(typeof l.color === 'string' ? { color: l.color } : {}),
+    }];
+  });
+  DEFAULT_LAYERS.forEach((layer, i) => {
+    if (seen.has(layer.id)) return;
+    // After the default layer just below it, or at the bottom
+    const below = DEFAULT_LAYERS.slice(0, i).reverse().find(d => seen.has(d.id));
+    layers.splice(below ? layers.findIndex(l => l.id === below.id) + 1 : 0, 0, layer);
+    seen.add(layer.id);
+  });
+  return layers;
+};
@@ -0,0 +1,42 @@
+import * as THREE from 'three';
+
+// Keep the camera off the poles of its orbit, where azimuth is undefined
+const POLAR_MARGIN = 0.05;
+
+const offset = new THREE.Vector3();
+const spherical = new THREE.Spherical();
+
+/**
+ * Rotate the camera about the target, in radians. Positive azimuth turns the
+ * camera to the right of the target, positive polar tilts it downwards.
+ */
+export const orbitCamera = (camera: THREE.Camera, target: THREE.Vector3, dAzimuth: number, dPolar: number) => {
+  offset.copy(camera.position).sub(target);
+  spherical.setFromVector3(offset);
+  spherical.theta += dAzimuth;
+  spherical.phi = Math.min(Math.PI - POLAR_MARGIN, Math.max(POLAR_MARGIN, spherical.phi + dPolar));
+  camera.position.copy(target).add(offset.setFromSpherical(spherical));
+  camera.lookAt(target);
+};
+
+// Scale the camera-target distance (<1 moves closer), clamped to the orbit limits
+export const dollyCamera = (
+  camera: THREE.Camera, target: THREE.Vector3, scale: number, minDistance: number, maxDistance: number
+) => {
+  offset.copy(camera.position).sub(target);
+  const distance = Math.min(maxDistance, Math.max(minDistance, offset.length() * scale));
+  camera.position.copy(target).add(offset.setLength(distance));
+};
+
+/**
+ * Slide camera and target together in the view plane. dx/dy are fractions
+ * of the current camera-target distance (screen right / screen down).
+ */
+export const panCamera = (camera: THREE.Camera, target: THREE.Vector3, dx: number, dy: number) => {
+  const distance = camera.position.distanceTo(target);
+  const right = new THREE.Vector3().setFromMatrixColumn(camera.matrix, 0);
+  const up = new THREE.Vector3().setFromMatrixColumn(camera.matrix, 1);
+  const move = right.multiplyScalar(dx * distance).addScaledVector(up, -dy * distance);
+  camera.position.add(move);
+  target.add(move);
+};
@@ -0,0 +1,27 @@
+import * as THREE from 'three';
+
+// Brightness of the city lights relative to the emissive channel
+const NIGHT_INTENSITY = 1.5;
+
+/**
+ * Shader hook for a surface material that adds city lights on the night
+ * side. The lights fade in across the terminator using the world-space
+ * surface normal and `sunDirection`, a shared uniform the caller keeps
+ * pointing at the sun. Needs the material's colour map for its UVs.
+ */
+export const nightLightsHook = (nightMap: THREE.Texture, sunDirection: { value: THREE.Vector3 }) =>
+  (shader: THREE.WebGLProgramParametersWithUniforms) => {
+    shader.uniforms.uNightMap = { value: nightMap };
+    shader.uniforms.uSunDirection = sunDirection;
+    shader.uniforms.uNightIntensity = { value: NIGHT_INTENSITY };
+
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', '#include <common>\nvarying vec3 vSunNormal;')
+      .replace('#include <worldpos_vertex>', '#include <worldpos_vertex>\nvSunNormal = normalize(mat3(modelMatrix) * objectNormal);');
+
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', '#include <common>\nuniform sampler2D uNightMap;\nuniform vec3 uSunDirection;\nuniform float uNightIntensity;\nvarying vec3 vSunNormal;')
+      .replace('#include <emissivemap_fragment>', `#include <emissivemap_fragment>
+float nightSide = smoothstep(0.05, -0.15, dot(normalize(vSunNormal), uSunDirection));
+totalEmissiveRadiance += texture2D(uNightMap, vMapUv).rgb * nightSide * uNightIntensity;`);
+  };
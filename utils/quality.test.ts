@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { QUALITY_LEVELS } from '../constants';
+import { createGovernor, governQuality, GovernorState } from './quality';
+
+const TARGET = 50;
+const SLOW = 40; // below 85 % of the target
+const FAST = 50; // at 95 % of the target or above
+const MIDDLE = 45; // in between
+const TOP = QUALITY_LEVELS.length - 1;
+
+// Feed one-second windows starting at `from` and collect the rung after each
+const replay = (state: GovernorState, fps: number[], from = 0) =>
+  fps.map((f, i) => governQuality(state, f, TARGET, from + i * 1000));
+
+describe('governQuality', () => {
+  it('steps down after two slow windows in a row', () => {
+    const state = createGovernor(2);
+    expect(replay(state, [SLOW, SLOW])).toEqual([2, 1]);
+  });
+
+  it('ignores the window after a change while the scene rebuilds', () => {
+    const state = createGovernor(3);
+    expect(replay(state, [SLOW, SLOW, SLOW, SLOW, SLOW])).toEqual([3, 2, 2, 2, 1]);
+  });
+
+  it('steps up after four windows at the target', () => {
+    const state = createGovernor(1);
+    expect(replay(state, [FAST, FAST, FAST, FAST, FAST, FAST, FAST, FAST, FAST])).toEqual([1, 1, 1, 2, 2, 2, 2, 2, 3]);
+  });
+
+  it('needs the windows to be consecutive', () => {
+    // A window between the two ratios resets both runs
+    expect(replay(createGovernor(2), [SLOW, MIDDLE, SLOW, MIDDLE, SLOW])).toEqual([2, 2, 2, 2, 2]);
+    expect(replay(createGovernor(2), [FAST, FAST, FAST, MIDDLE, FAST, FAST, FAST])).toEqual([2, 2, 2, 2, 2, 2, 2]);
+    // And a fast window resets a slow run
+    expect(replay(createGovernor(2), [SLOW, FAST, SLOW])).toEqual([2, 2, 2]);
+  });
+
+  it('waits 30 s before retrying a rung it left for being slow', () => {
+    const state = createGovernor(3);
+    expect(replay(state, [SLOW, SLOW])).toEqual([3, 2]); // rung 3 left at t = 1 s
+    // Settling plus four fast windows would allow a step up at t = 6 s, but rung 3 is blocked until 31 s
+    expect(replay(state, Array(25).fill(FAST), 2000).every(level => level === 2)).toBe(true);
+    expect(governQuality(state, FAST, TARGET, 30999)).toBe(2);
+    expect(governQuality(state, FAST, TARGET, 31000)).toBe(3);
+  });
+
+  it('keeps a stepped-up rung open when it was not left for being slow', () => {
+    const state = createGovernor(1);
+    expect(replay(state, [FAST, FAST, FAST, FAST])).toEqual([1, 1, 1, 2]);
+    // Leaving rung 2 blocks rung 2, not rung 1 below it
+    expect(replay(state, [MIDDLE, SLOW, SLOW], 4000)).toEqual([2, 2, 1]);
+    expect(state.retryAt).toEqual({ 2: 36000 });
+  });
+
+  it('stays within the ladder', () => {
+    expect(replay(createGovernor(0), [SLOW, SLOW, SLOW, SLOW])).toEqual([0, 0, 0, 0]);
+    expect(replay(createGovernor(TOP), [FAST, FAST, FAST, FAST, FAST])).toEqual([TOP, TOP, TOP, TOP, TOP]);
+  });
+});
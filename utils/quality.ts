@@ -0,0 +1,71 @@
+import { QualityLevel, QualityPreset } from '../types';
+import { QUALITY_LEVELS } from '../constants';
+
+export const QUALITY_PRESETS: QualityPreset[] = ['Auto', 'High', 'Medium', 'Low'];
+
+// Rung each fixed preset renders at; Auto starts from Medium
+export const PRESET_LEVELS: Record<QualityPreset, number> = {
+  Auto: 2,
+  High: QUALITY_LEVELS.length - 1,
+  Medium: 2,
+  Low: 0,
+};
+
+// Pixel ratio for a rung: its cap, but never above the display's own (and at least 1 there)
+export const qualityDpr = (level: QualityLevel) => Math.min(level.dpr, Math.max(1, window.devicePixelRatio || 1));
+
+// A window below LOW_RATIO of the target counts against the rung, one at HIGH_RATIO or above for it
+const LOW_RATIO = 0.85;
+const HIGH_RATIO = 0.95;
+const STEP_DOWN_WINDOWS = 2;
+const STEP_UP_WINDOWS = 4;
+// A rung that was just left for being too slow is not retried for this long
+const RETRY_AFTER_MS = 30000;
+
+export interface GovernorState {
+  level: number;
+  slow: number; // consecutive windows below target
+  fast: number; // consecutive windows at target
+  settling: boolean; // the window after a change carries its rebuild cost, so it is ignored
+  retryAt: Record<number, number>; // rung → time it may be tried again
+}
+
+export const createGovernor = (level: number): GovernorState => ({ level, slow: 0, fast: 0, settling: false, retryAt: {} });
+
+/**
+ * Feed one measurement window (its mean fps) and get the rung to render at.
+ * Steps down after sustained misses, and back up after a longer run at the
+ * target; a rung that proved too slow waits before it is tried again, which
+ * stops the governor flip-flopping at a boundary.
+ */
+export const governQuality = (state: GovernorState, fps: number, targetFps: number, now: number): number => {
+  if (state.settling) {
+    state.settling = false;
+    return state.level;
+  }
+  if (fps < targetFps * LOW_RATIO) {
+    state.slow++;
+    state.fast = 0;
+  } else if (fps >= targetFps * HIGH_RATIO) {
+    state.fast++;
+    state.slow = 0;
+  } else {
+    state.slow = 0;
+    state.fast = 0;
+  }
+
+  let next = state.level;
+  if (state.slow >= STEP_DOWN_WINDOWS && state.level > 0) {
+    state.retryAt[state.level] = now + RETRY_AFTER_MS;
+    next = state.level - 1;
+  } else if (state.fast >= STEP_UP_WINDOWS && state.level < QUALITY_LEVELS.length - 1 && (state.retryAt[state.level + 1] ?? 0) <= now) {
+    next = state.level + 1;
+  }
+  if (next !== state.level) {
+    state.level = next;
+    state.slow = 0;
+    state.fast = 0;
+    state.settling = true;
+  }
+  return state.level;
+};
@@ -0,0 +1,65 @@
+import { AODLayer, AODRaster, LatLon, LocationQuery, PVStationData } from '../types';
+import { sampleRaster } from './geotiff';
+import { greatCircleDistance } from './geodesy';
+
+export const findNearestStation = (stations: PVStationData[], latLon: LatLon) => {
+  let nearest: { station: PVStationData; distanceKm: number } | undefined;
+  for (const station of stations) {
+    const distanceKm = greatCircleDistance(latLon, station);
+    if (!nearest || distanceKm < nearest.distanceKm) nearest = { station, distanceKm };
+  }
+  return nearest;
+};
+
+// Gather everything the inspector shows for a clicked location
+export const queryLocation = (
+  latLon: LatLon,
+  screen: { x: number; y: number },
+  rasters: Partial<Record<AODLayer, AODRaster>>,
+  stations: PVStationData[]
+): LocationQuery => {
+  const values: Partial<Record<AODLayer, number | null>> = {};
+  (Object.keys(rasters) as AODLayer[]).forEach(layer => {
+    values[layer] = sampleRaster(rasters[layer]!, latLon.lat, latLon.lon);
+  });
+  return { latLon, screen, values, nearestStation: findNearestStation(stations, latLon) };
+};
+
+// Even-odd test in lon/lat space; fine for station-sized polygons
+const insideRing = (ring: LatLon[], p: LatLon): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if ((a.lat > p.lat) !== (b.lat > p.lat) && p.lon < ((b.lon - a.lon) * (p.lat - a.lat)) / (b.lat - a.lat) + a.lon) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Inside the outer ring and outside any holes (even-odd over all rings)
+export const insideFootprint = (footprint: LatLon[][], latLon: LatLon): boolean =>
+  footprint.reduce((inside, ring) => inside !== insideRing(ring, latLon), false);
+
+// Polygon station whose footprint contains the point, if any
+export const findStationAt = (stations: PVStationData[], latLon: LatLon): PVStationData | undefined =>
+  stations.find(s => s.footprint && insideFootprint(s.footprint, latLon));
+
+const LAT_LON_PATTERN = /^\s*(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+/**
+ * Resolve free text to a place: "lat, lon" in decimal degrees, or a station
+ * id (case-insensitive). Returns null when neither matches.
+ */
+export const resolveLocation = (text: string, stations: PVStationData[]): LatLon | null => {
+  const match = text.match(LAT_LON_PATTERN);
+  if (match) {
+    const lat = Number(match[1]);
+    const lon = Number(match[2]);
+    return Math.abs(lat) <= 90 && Math.abs(lon) <= 180 ? { lat, lon } : null;
+  }
+  const id = text.trim().toLowerCase();
+  const station = stations.find(s => s.id.toLowerCase() === id);
+  return station ? { lat: station.lat, lon: station.lon } : null;
+};
@@ -0,0 +1,123 @@
+import * as THREE from 'three';
+import { AODRaster } from '../types';
+import { ColorScale, PALETTES } from './colormap';
+import { isNoData } from './geotiff';
+
+// Upper bound on quantile class edges (classes go up to 10)
+const MAX_BREAKS = 16;
+
+// Normalisation modes, matching the branches of createColorScale
+const MODE = { linear: 0, log: 1, diverging: 2, quantile: 3 } as const;
+
+/**
+ * Fragments recover lat/lon from their globe-frame position, so every pixel
+ * is placed exactly regardless of the mesh the patch is drawn on. Values go
+ * through the same normalisation as ColorScale.normalize and index the
+ * 256-entry palette LUT; nodata (and clipped) pixels are discarded.
+ */
+export const RASTER_VERTEX_SHADER = /* glsl */ `
+varying vec3 vGlobePosition;
+
+void main() {
+  vGlobePosition = position;
+  gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}
+`;
+
+export const RASTER_FRAGMENT_SHADER = /* glsl */ `
+#define MAX_BREAKS ${MAX_BREAKS}
+
+uniform sampler2D uData; // r = value, g = 1 for valid pixels
+uniform sampler2D uLut;
+uniform vec4 uBounds; // west, south, east, north
+uniform int uMode;
+uniform float uMin;
+uniform float uMax;
+uniform float uCenter;
+uniform float uBreaks[MAX_BREAKS];
+uniform int uBreakCount;
+uniform float uOpacity;
+
+varying vec3 vGlobePosition;
+
+float normalizeValue(float v) {
+  if (uMode == ${MODE.quantile}) {
+    int n = uBreakCount - 1;
+    if (n == 1) return 0.5;
+    int k = 0;
+    for (int i = 1; i < MAX_BREAKS; i++) {
+      if (k >= n - 1 || v <= uBreaks[i]) break;
+      k++;
+    }
+    return float(k) / float(n - 1);
+  }
+  if (uMode == ${MODE.log}) {
+    float lo = log(max(uMin, 1e-4));
+    float hi = log(max(uMax, exp(lo) * 1.0001));
+    return clamp((log(max(v, 1e-4)) - lo) / (hi - lo), 0.0, 1.0);
+  }
+  if (uMode == ${MODE.diverging}) {
+    return clamp(v < uCenter ? 0.5 * (v - uMin) / (uCenter - uMin) : 0.5 + 0.5 * (v - uCenter) / (uMax - uCenter), 0.0, 1.0);
+  }
+  float range = uMax - uMin;
+  return clamp((v - uMin) / (range == 0.0 ? 1.0 : range), 0.0, 1.0);
+}
+
+void main() {
+  vec3 dir = normalize(vGlobePosition);
+  float lat = degrees(asin(clamp(dir.y, -1.0, 1.0)));
+  float lon = degrees(atan(dir.x, dir.z));
+  vec2 uv = vec2((lon - uBounds.x) / (uBounds.z - uBounds.x), (uBounds.w - lat) / (uBounds.w - uBounds.y));
+  if (any(lessThan(uv, vec2(0.0))) || any(greaterThanEqual(uv, vec2(1.0)))) discard;
+
+  vec2 texel = texture2D(uData, uv).rg;
+  if (texel.g < 0.5) discard;
+
+  float index = floor(normalizeValue(texel.r) * 255.0 + 0.5);
+  gl_FragColor = vec4(texture2D(uLut, vec2((index + 0.5) / 256.0, 0.5)).rgb, uOpacity);
+
+  #include <colorspace_fragment>
+  #include <premultiplied_alpha_fragment>
+}
+`;
+
+/**
+ * Two-channel float texture of the raster (value, valid). Row 0 is the
+ * north edge, as in GeoTIFFs. Pixels outside `mask` count as nodata.
+ */
+export const createDataTexture = (raster: AODRaster, mask?: Uint8Array): THREE.DataTexture => {
+  const texels = new Float32Array(raster.width * raster.height * 2);
+  for (let i = 0; i < raster.data.length; i++) {
+    const v = raster.data[i];
+    if (isNoData(v, raster.noData) || (mask && !mask[i])) continue;
+    texels[i * 2] = v;
+    texels[i * 2 + 1] = 1;
+  }
+  const texture = new THREE.DataTexture(texels, raster.width, raster.height, THREE.RGFormat, THREE.FloatType);
+  texture.magFilter = THREE.NearestFilter;
+  texture.minFilter = THREE.NearestFilter;
+  texture.needsUpdate = true;
+  return texture;
+};
+
+// 256×1 palette texture from the scale's LUT; sRGB so it is linearised on sampling
+export const createLutTexture = (scale: ColorScale): THREE.DataTexture => {
+  const texture = new THREE.DataTexture(new Uint8Array(scale.lut), 256, 1, THREE.RGBAFormat, THREE.UnsignedByteType);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.magFilter = THREE.NearestFilter;
+  texture.minFilter = THREE.NearestFilter;
+  texture.needsUpdate = true;
+  return texture;
+};
+
+// Uniform values describing a colour scale's normalisation
+export const colorScaleUniforms = (scale: ColorScale) => {
+  const { min, max, center, classification, palette } = scale.config;
+  const mode = scale.breaks.length > 1 ? MODE.quantile
+    : classification === 'log' ? MODE.log
+    : PALETTES[palette].diverging && center > min && center < max ? MODE.diverging
+    : MODE.linear;
+  const breaks = new Array(MAX_BREAKS).fill(0);
+  scale.breaks.slice(0, MAX_BREAKS).forEach((b, i) => { breaks[i] = b; });
+  return { mode, min, max, center, breaks, breakCount: Math.min(scale.breaks.length, MAX_BREAKS) };
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { LatLon } from '../types';
+import { simplifyPolygons } from './roi';
+
+// Closed square ring with `perSide` points along each edge (lon/lat degrees)
+const square = (west: number, south: number, size: number, perSide: number): LatLon[] => {
+  const corners = [[west, south], [west, south + size], [west + size, south + size], [west + size, south]];
+  const ring: LatLon[] = [];
+  corners.forEach(([lon, lat], k) => {
+    const [nextLon, nextLat] = corners[(k + 1) % 4];
+    for (let i = 0; i < perSide; i++) {
+      ring.push({ lat: lat + ((nextLat - lat) * i) / perSide, lon: lon + ((nextLon - lon) * i) / perSide });
+    }
+  });
+  return [...ring, ring[0]];
+};
+
+const circle = (centre: LatLon, radius: number, count: number): LatLon[] => {
+  const ring = Array.from({ length: count }, (_, i) => ({
+    lat: centre.lat + radius * Math.sin((2 * Math.PI * i) / count),
+    lon: centre.lon + radius * Math.cos((2 * Math.PI * i) / count),
+  }));
+  return [...ring, ring[0]];
+};
+
+const vertices = (polygons: LatLon[][][]) => polygons.flat().reduce((sum, ring) => sum + ring.length, 0);
+
+describe('simplifyPolygons', () => {
+  it('returns polygons within the budget untouched', () => {
+    const polygons = [[square(108, 40, 1, 10)]];
+    expect(simplifyPolygons(polygons, 100)).toBe(polygons);
+  });
+
+  it('reduces a dense square to its closed corners', () => {
+    const [[ring]] = simplifyPolygons([[square(108, 40, 1, 100)]], 10);
+    expect(ring).toEqual([
+      { lat: 40, lon: 108 }, { lat: 41, lon: 108 }, { lat: 41, lon: 109 }, { lat: 40, lon: 109 }, { lat: 40, lon: 108 },
+    ]);
+  });
+
+  it('fits the budget with closed rings made of original vertices', () => {
+    const ring = circle({ lat: 40, lon: 108 }, 0.5, 5000);
+    const simplified = simplifyPolygons([[ring]], 100);
+    expect(vertices(simplified)).toBeLessThanOrEqual(100);
+    const [[out]] = simplified;
+    expect(out.length).toBeGreaterThanOrEqual(4);
+    expect(out[out.length - 1]).toEqual(out[0]);
+    for (const p of out) expect(ring).toContainEqual(p);
+  });
+
+  it('drops holes that collapse before the outer ring does', () => {
+    const outer = square(108, 40, 1, 50);
+    const hole = square(108.5, 40.5, 0.01, 50);
+    const [rings, ...rest] = simplifyPolygons([[outer, hole]], 9);
+    expect(rest).toHaveLength(0);
+    expect(rings).toHaveLength(1);
+    expect(rings[0]).toHaveLength(5);
+  });
+
+  it('drops a polygon along with its collapsed outer ring', () => {
+    const large = square(108, 40, 1, 50);
+    const small = square(110, 40, 0.01, 50);
+    const simplified = simplifyPolygons([[large], [small, square(110.004, 40.004, 0.002, 5)]], 9);
+    expect(simplified).toHaveLength(1);
+    expect(simplified[0][0][0]).toEqual({ lat: 40, lon: 108 });
+  });
+
+  it('keeps the last non-empty result when a budget cannot be met', () => {
+    // Below five vertices every square collapses, so the corners are the best it can do
+    const simplified = simplifyPolygons([[square(108, 40, 1, 50)]], 4);
+    expect(simplified).toHaveLength(1);
+    expect(simplified[0][0]).toHaveLength(5);
+  });
+});
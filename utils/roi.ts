@@ -0,0 +1,189 @@
+import { AODRaster, LatLon, ROIDraft, RegionOfInterest } from '../types';
+import { greatCircleDistance, polygonAreaKm2 } from './geodesy';
+import { parseBoundaries } from './geojson';
+import { insideFootprint } from './query';
+import { parseShapefilePolygons } from './shapefile';
+
+export const createRoiId = () => `roi-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Axis-aligned (lat/lon) rectangle from two opposite corners, as a closed ring
+export const rectangleRing = (a: LatLon, b: LatLon): LatLon[] => [
+  { lat: a.lat, lon: a.lon },
+  { lat: a.lat, lon: b.lon },
+  { lat: b.lat, lon: b.lon },
+  { lat: b.lat, lon: a.lon },
+  { lat: a.lat, lon: a.lon },
+];
+
+/**
+ * Closed ring for the points placed so far, or null while there are too few
+ * to enclose an area (two corners for a rectangle, three vertices otherwise).
+ */
+export const draftRing = (draft: ROIDraft): LatLon[] | null => {
+  const { mode, points } = draft;
+  if (mode === 'Rectangle') return points.length >= 2 ? rectangleRing(points[0], points[1]) : null;
+  return points.length >= 3 ? [...points, points[0]] : null;
+};
+
+export const roiAreaKm2 = (roi: RegionOfInterest) =>
+  roi.polygons.reduce((sum, rings) => sum + polygonAreaKm2(rings), 0);
+
+// Total boundary length, holes included
+export const roiPerimeterKm = (roi: RegionOfInterest) =>
+  roi.polygons.flat().reduce((sum, ring) => {
+    for (let i = 0; i < ring.length - 1; i++) sum += greatCircleDistance(ring[i], ring[i + 1]);
+    return sum;
+  }, 0);
+
+export const insideRoi = (roi: RegionOfInterest, latLon: LatLon) =>
+  roi.polygons.some(rings => insideFootprint(rings, latLon));
+
+export const roiCentre = (roi: RegionOfInterest): LatLon => {
+  const outer = roi.polygons[0][0].slice(0, -1);
+  return {
+    lat: outer.reduce((sum, p) => sum + p.lat, 0) / outer.length,
+    lon: outer.reduce((sum, p) => sum + p.lon, 0) / outer.length,
+  };
+};
+
+/**
+ * Visit the raster pixels whose centre lies inside any of the ROIs, scanning
+ * only the rows and columns covered by their outer rings.
+ */
+export const forEachPixelInRois = (
+  raster: AODRaster,
+  rois: RegionOfInterest[],
+  visit: (index: number) => void
+) => {
+  const { bounds, width, height } = raster;
+  const pxW = (bounds.east - bounds.west) / width;
+  const pxH = (bounds.north - bounds.south) / height;
+  for (const roi of rois) {
+    // A loop rather than Math.min(...points): large boundaries exceed the argument limit
+    let west = Infinity, east = -Infinity, south = Infinity, north = -Infinity;
+    for (const rings of roi.polygons) {
+      for (const p of rings[0]) {
+        west = Math.min(west, p.lon);
+        east = Math.max(east, p.lon);
+        south = Math.min(south, p.lat);
+        north = Math.max(north, p.lat);
+      }
+    }
+    const col0 = Math.max(0, Math.floor((west - bounds.west) / pxW));
+    const col1 = Math.min(width - 1, Math.floor((east - bounds.west) / pxW));
+    const row0 = Math.max(0, Math.floor((bounds.north - north) / pxH));
+    const row1 = Math.min(height - 1, Math.floor((bounds.north - south) / pxH));
+    for (let row = row0; row <= row1; row++) {
+      const lat = bounds.north - (row + 0.5) * pxH;
+      for (let col = col0; col <= col1; col++) {
+        if (insideRoi(roi, { lat, lon: bounds.west + (col + 0.5) * pxW })) visit(row * width + col);
+      }
+    }
+  }
+};
+
+// 1 for pixels inside any ROI, 0 elsewhere
+export const roiMask = (raster: AODRaster, rois: RegionOfInterest[]): Uint8Array => {
+  const mask = new Uint8Array(raster.width * raster.height);
+  forEachPixelInRois(raster, rois, i => { mask[i] = 1; });
+  return mask;
+};
+
+// Vertices kept per imported boundary; ROIs travel in the scene link, so county
+// or province outlines are simplified to this before they are stored
+const ROI_VERTEX_BUDGET = 500;
+
+// Distance from p to the segment a–b in plain degrees, which is enough to rank vertices
+const segmentDistance = (p: LatLon, a: LatLon, b: LatLon) => {
+  const dx = b.lon - a.lon;
+  const dy = b.lat - a.lat;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((p.lon - a.lon) * dx + (p.lat - a.lat) * dy) / len2)) : 0;
+  return Math.hypot(p.lon - (a.lon + t * dx), p.lat - (a.lat + t * dy));
+};
+
+// Douglas–Peucker on an open line, with an explicit stack so long boundaries cannot overflow
+const simplifyLine = (points: LatLon[], tolerance: number): LatLon[] => {
+  const keep = new Uint8Array(points.length);
+  keep[0] = keep[points.length - 1] = 1;
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let index = -1;
+    let max = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const d = segmentDistance(points[i], points[first], points[last]);
+      if (d > max) {
+        max = d;
+        index = i;
+      }
+    }
+    if (index >= 0) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+};
+
+// A closed ring is split at the vertex farthest from its start, so neither half has coincident ends
+const simplifyRing = (ring: LatLon[], tolerance: number): LatLon[] => {
+  let split = 1;
+  let max = -1;
+  for (let i = 1; i < ring.length - 1; i++) {
+    const d = Math.hypot(ring[i].lon - ring[0].lon, ring[i].lat - ring[0].lat);
+    if (d > max) {
+      max = d;
+      split = i;
+    }
+  }
+  return [...simplifyLine(ring.slice(0, split + 1), tolerance), ...simplifyLine(ring.slice(split), tolerance).slice(1)];
+};
+
+const vertexCount = (polygons: LatLon[][][]) =>
+  polygons.reduce((sum, rings) => sum + rings.reduce((n, ring) => n + ring.length, 0), 0);
+
+/**
+ * Douglas–Peucker simplification to at most maxVertices, loosening the
+ * tolerance until the polygons fit. Rings that collapse below a triangle are
+ * dropped (a polygon goes with its outer ring), but never every polygon.
+ */
+export const simplifyPolygons = (polygons: LatLon[][][], maxVertices: number): LatLon[][][] => {
+  let best = polygons;
+  // From about a metre (the precision links keep) up to whole degrees
+  for (let tolerance = 1e-5; vertexCount(best) > maxVertices && tolerance < 10; tolerance *= 2) {
+    const simplified = polygons
+      .map(rings => rings.map(ring => simplifyRing(ring, tolerance)))
+      .filter(rings => rings[0].length >= 4)
+      .map(rings => rings.filter(ring => ring.length >= 4));
+    if (simplified.length === 0) break;
+    best = simplified;
+  }
+  return best;
+};
+
+/**
+ * Read boundary polygons from GeoJSON or an ESRI .shp file, one ROI per
+ * feature (shapefiles become a single ROI, since their names live in the
+ * .dbf). Unnamed boundaries are named after the file; each is simplified to
+ * ROI_VERTEX_BUDGET vertices.
+ */
+export const loadRoiFile = async (file: File): Promise<RegionOfInterest[]> => {
+  const base = file.name.replace(/\.(shp|geojson|json)$/i, '');
+  if (/\.shp$/i.test(file.name)) {
+    const polygons = parseShapefilePolygons(await file.arrayBuffer());
+    return [{ id: createRoiId(), name: base, polygons: simplifyPolygons(polygons, ROI_VERTEX_BUDGET) }];
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch (err: any) {
+    throw new Error(`invalid JSON: ${err.message}`);
+  }
+  const boundaries = parseBoundaries(json);
+  return boundaries.map((b, i) => ({
+    id: createRoiId(),
+    name: b.name ?? (boundaries.length > 1 ? `${base} ${i + 1}` : base),
+    polygons: simplifyPolygons(b.polygons, ROI_VERTEX_BUDGET),
+  }));
+};
@@ -0,0 +1,193 @@
+import { LatLon, RegionOfInterest, SavedSession, SceneState, ViewMode } from '../types';
+import { CLASSIFICATIONS, PALETTE_NAMES } from './colormap';
+import { DEFAULT_LAYERS, sanitizeLayers } from './layers';
+import { isClockDate } from './solar';
+import { CLOCK_RATES, DEFAULT_PV_MODEL } from '../constants';
+
+export const SCENE_SCHEMA_VERSION = 6;
+
+const HASH_KEY = 'scene';
+const SESSIONS_KEY = 'hobq-aod.sessions';
+
+/**
+ * Upgrades for older links and files: MIGRATIONS[n] turns a version-n scene
+ * into version n + 1. Add an entry whenever SceneState changes shape, and
+ * bump SCENE_SCHEMA_VERSION.
+ */
+const MIGRATIONS: Record<number, (scene: any) => any> = {
+  // v2: regions of interest
+  1: scene => ({ ...scene, version: 2, rois: [], clipToRoi: false }),
+  // v3: reference layer toggles, off in scenes saved before they existed
+  2: scene => ({
+    ...scene,
+    version: 3,
+    controls: { showGraticule: false, showBorders: false, showRivers: false, showDesertOutline: false, showLabels: false, ...scene.controls },
+  }),
+  // v4: layer stack, which was fixed before
+  3: scene => ({ ...scene, version: 4, layers: DEFAULT_LAYERS }),
+  // v5: scene clock; older scenes had a fixed sun and keep the current clock
+  4: scene => ({ ...scene, version: 5 }),
+  // v6: yield estimator parameters, at their defaults before they were editable
+  5: scene => ({ ...scene, version: 6, pvModel: DEFAULT_PV_MODEL }),
+};
+
+// Allowed values for the enumerated settings
+const OPTIONS: Record<string, readonly unknown[]> = {
+  viewMode: Object.values(ViewMode),
+  activeLayer: ['Mean', 'Slope', 'Time Series'],
+  pvHeightBy: ['None', 'Area', 'Capacity', 'AOD Change'],
+  pvColorBy: ['Uniform', 'Type', 'Yield', 'Aerosol Loss'],
+  palette: PALETTE_NAMES,
+  classification: CLASSIFICATIONS,
+  clockRate: Object.values(CLOCK_RATES),
+};
+
+// Take each known key from raw when it has the right type, else keep the fallback
+const pickSection = <T extends Record<string, unknown>>(raw: any, fallback: T): T => {
+  const out: Record<string, unknown> = { ...fallback };
+  if (!raw || typeof raw !== 'object') return out as T;
+  for (const key of Object.keys(fallback)) {
+    const value = raw[key];
+    if (typeof value !== typeof fallback[key]) continue;
+    if (typeof value === 'number' && !Number.isFinite(value)) continue;
+    if (OPTIONS[key] && !OPTIONS[key].includes(value)) continue;
+    out[key] = value;
+  }
+  return out as T;
+};
+
+const isVector = (v: any) => Array.isArray(v) && v.length === 3 && v.every(n => typeof n === 'number' && Number.isFinite(n));
+
+const isRing = (ring: any): ring is LatLon[] =>
+  Array.isArray(ring) && ring.length >= 4 &&
+  ring.every(p => Number.isFinite(p?.lat) && Number.isFinite(p?.lon) && Math.abs(p.lat) <= 90 && Math.abs(p.lon) <= 180);
+
+// Keep the well-formed ROIs; a malformed one is dropped rather than failing the scene
+const pickRois = (raw: any): RegionOfInterest[] =>
+  (Array.isArray(raw) ? raw : [])
+    .filter(roi => typeof roi?.id === 'string' && typeof roi.name === 'string' && Array.isArray(roi.polygons) && roi.polygons.length > 0 &&
+      roi.polygons.every((rings: any) => Array.isArray(rings) && rings.length > 0 && rings.every(isRing)))
+    .map(roi => ({
+      id: roi.id,
+      name: roi.name,
+      polygons: roi.polygons.map((rings: LatLon[][]) => rings.map(ring => ring.map(p => ({ lat: p.lat, lon: p.lon })))),
+    }));
+
+/**
+ * Bring a parsed scene up to the current schema and fill anything missing or
+ * invalid from `fallback` (normally the current scene), so links from older
+ * builds still open. Throws for scenes written by a newer schema.
+ */
+export const migrateScene = (raw: any, fallback: SceneState): SceneState => {
+  if (!raw || typeof raw !== 'object') throw new Error('Not a scene description');
+  let scene = raw;
+  let version = typeof scene.version === 'number' ? scene.version : 1;
+  if (version > SCENE_SCHEMA_VERSION) {
+    throw new Error(`Scene uses schema v${version}, this build reads up to v${SCENE_SCHEMA_VERSION}`);
+  }
+  while (version < SCENE_SCHEMA_VERSION) {
+    const upgrade = MIGRATIONS[version];
+    if (!upgrade) throw new Error(`No upgrade from scene schema v${version}`);
+    scene = upgrade(scene);
+    version++;
+  }
+  const camera = scene.camera;
+  const sun = pickSection(scene.sun, fallback.sun);
+  return {
+    version: SCENE_SCHEMA_VERSION,
+    controls: pickSection(scene.controls, fallback.controls),
+    ramp: pickSection(scene.ramp, fallback.ramp),
+    time: pickSection(scene.time, fallback.time),
+    pvModel: pickSection(scene.pvModel, fallback.pvModel),
+    sun: isClockDate(sun.date) ? sun : { ...sun, date: fallback.sun.date },
+    camera: camera && isVector(camera.position) && isVector(camera.target) && typeof camera.fov === 'number'
+      ? { position: camera.position, target: camera.target, fov: camera.fov }
+      : fallback.camera,
+    selectedStationId: typeof scene.selectedStationId === 'string' ? scene.selectedStationId : null,
+    rois: pickRois(scene.rois),
+    clipToRoi: typeof scene.clipToRoi === 'boolean' ? scene.clipToRoi : false,
+    layers: Array.isArray(scene.layers) ? sanitizeLayers(scene.layers) : fallback.layers,
+  };
+};
+
+// Keep links short: two decimals are plenty for camera coordinates, five (~1 m) for ROI vertices
+const round = (v: number) => Math.round(v * 100) / 100;
+const roundDegrees = (v: number) => Math.round(v * 1e5) / 1e5;
+
+// Hashes longer than this are skipped: chat apps and mail clients truncate long links
+export const MAX_HASH_LENGTH = 32000;
+
+// Bytes per String.fromCharCode call; spreading a whole large scene at once overflows the call stack
+const CHAR_CODE_CHUNK = 0x8000;
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHAR_CODE_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHAR_CODE_CHUNK));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+// Location hash for a scene, or null when it is too long to share as a link
+export const encodeSceneHash = (scene: SceneState): string | null => {
+  const compact = {
+    ...scene,
+    camera: scene.camera
+      ? { position: scene.camera.position.map(round), target: scene.camera.target.map(round), fov: round(scene.camera.fov) }
+      : null,
+    rois: scene.rois.map(roi => ({
+      ...roi,
+      polygons: roi.polygons.map(rings => rings.map(ring => ring.map(p => ({ lat: roundDegrees(p.lat), lon: roundDegrees(p.lon) })))),
+    })),
+  };
+  const json = JSON.stringify(compact);
+  // Base64 takes 4 characters per 3 bytes, and there are at least as many bytes as characters
+  if ((json.length * 4) / 3 > MAX_HASH_LENGTH) return null;
+  const hash = `#${HASH_KEY}=${toBase64Url(json)}`;
+  return hash.length <= MAX_HASH_LENGTH ? hash : null;
+};
+
+// Scene from a location hash, or null when the hash carries none
+export const decodeSceneHash = (hash: string, fallback: SceneState): SceneState | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(HASH_KEY);
+  if (!encoded) return null;
+  return migrateScene(JSON.parse(fromBase64Url(encoded)), fallback);
+};
+
+export const loadSessions = (): SavedSession[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SESSIONS_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(s => typeof s?.name === 'string' && s.scene) : [];
+  } catch (err) {
+    console.warn('Ignoring unreadable saved sessions:', err);
+    return [];
+  }
+};
+
+export const saveSessions = (sessions: SavedSession[]) => {
+  try {
+    localStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+  } catch (err) {
+    console.error('Could not save sessions:', err);
+  }
+};
+
+/**
+ * Read an exported session file. Accepts a session ({ name, scene }) or a
+ * bare scene; the file name stands in when there is no session name.
+ */
+export const parseSessionFile = async (file: File, fallback: SceneState): Promise<SavedSession> => {
+  const json = JSON.parse(await file.text());
+  const isSession = json && typeof json === 'object' && 'scene' in json;
+  return {
+    name: isSession && typeof json.name === 'string' ? json.name : file.name.replace(/\.json$/i, ''),
+    savedAt: isSession && typeof json.savedAt === 'string' ? json.savedAt : new Date().toISOString(),
+    scene: migrateScene(isSession ? json.scene : json, fallback),
+  };
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { parseShapefilePolygons } from './shapefile';
+
+type Ring = [number, number][]; // [lon, lat]
+
+// Minimal .shp: 100-byte header, then one record per shape (rings as parts)
+const shapefile = (shapes: (Ring[] | null)[], fileType = 5): ArrayBuffer => {
+  const records = shapes.map(rings => (rings ? 44 + rings.length * 4 + rings.flat().length * 16 : 4));
+  const buffer = new ArrayBuffer(100 + records.reduce((sum, n) => sum + 8 + n, 0));
+  const view = new DataView(buffer);
+  view.setInt32(0, 9994);
+  view.setInt32(24, buffer.byteLength / 2);
+  view.setInt32(28, 1000, true);
+  view.setInt32(32, fileType, true);
+  let offset = 100;
+  shapes.forEach((rings, r) => {
+    view.setInt32(offset, r + 1);
+    view.setInt32(offset + 4, records[r] / 2);
+    const record = offset + 8;
+    view.setInt32(record, rings ? fileType : 0, true);
+    if (rings) {
+      view.setInt32(record + 36, rings.length, true);
+      view.setInt32(record + 40, rings.flat().length, true);
+      let start = 0;
+      rings.forEach((ring, p) => {
+        view.setInt32(record + 44 + p * 4, start, true);
+        start += ring.length;
+      });
+      rings.flat().forEach(([lon, lat], i) => {
+        view.setFloat64(record + 44 + rings.length * 4 + i * 16, lon, true);
+        view.setFloat64(record + 44 + rings.length * 4 + i * 16 + 8, lat, true);
+      });
+    }
+    offset = record + records[r];
+  });
+  return buffer;
+};
+
+// Shapefile winding: outer rings clockwise, holes counter-clockwise
+const OUTER: Ring = [[108, 40], [108, 41], [109, 41], [109, 40], [108, 40]];
+const HOLE: Ring = [[108.4, 40.4], [108.6, 40.4], [108.6, 40.6], [108.4, 40.6], [108.4, 40.4]];
+const SECOND: Ring = [[110, 40], [110, 40.5], [110.5, 40.5], [110, 40]];
+
+describe('parseShapefilePolygons', () => {
+  it('reads a closed ring as lat/lon points in file order', () => {
+    const [polygon] = parseShapefilePolygons(shapefile([[OUTER]]));
+    expect(polygon).toHaveLength(1);
+    expect(polygon[0]).toEqual(OUTER.map(([lon, lat]) => ({ lat, lon })));
+    expect(polygon[0][0]).toEqual(polygon[0][polygon[0].length - 1]);
+  });
+
+  it('attaches counter-clockwise rings to the polygon before them as holes', () => {
+    const polygons = parseShapefilePolygons(shapefile([[OUTER, HOLE, SECOND]]));
+    expect(polygons.map(rings => rings.length)).toEqual([2, 1]);
+    expect(polygons[0][1][0]).toEqual({ lat: 40.4, lon: 108.4 });
+    expect(polygons[1][0][1]).toEqual({ lat: 40.5, lon: 110 });
+  });
+
+  it('reads every record and skips null shapes', () => {
+    const polygons = parseShapefilePolygons(shapefile([[OUTER], null, [SECOND]]));
+    expect(polygons).toHaveLength(2);
+  });
+
+  it('drops rings with fewer than four points', () => {
+    const polygons = parseShapefilePolygons(shapefile([[OUTER, [[108.4, 40.4], [108.6, 40.4], [108.4, 40.4]]]]));
+    expect(polygons).toEqual([[OUTER.map(([lon, lat]) => ({ lat, lon }))]]);
+  });
+
+  it('accepts the Z and M polygon variants', () => {
+    expect(parseShapefilePolygons(shapefile([[OUTER]], 15))).toHaveLength(1);
+    expect(parseShapefilePolygons(shapefile([[OUTER]], 25))).toHaveLength(1);
+  });
+
+  it('rejects files it cannot read', () => {
+    expect(() => parseShapefilePolygons(new ArrayBuffer(50))).toThrow(/not an ESRI shapefile/);
+    expect(() => parseShapefilePolygons(shapefile([[OUTER]], 1))).toThrow(/not a polygon layer/);
+    expect(() => parseShapefilePolygons(shapefile([null]))).toThrow(/no polygons/);
+    const projected: Ring = [[500000, 4400000], [500000, 4500000], [600000, 4500000], [500000, 4400000]];
+    expect(() => parseShapefilePolygons(shapefile([[projected]]))).toThrow(/not lon\/lat degrees/);
+  });
+});
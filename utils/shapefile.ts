@@ -0,0 +1,67 @@
+import { LatLon } from '../types';
+
+// ESRI shape types that carry polygon rings (plain, Z and M variants)
+const POLYGON_TYPES = new Set([5, 15, 25]);
+
+// Shoelace sum in lon/lat; shapefile outer rings are clockwise (negative here)
+const signedArea = (ring: LatLon[]) => {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) sum += ring[i].lon * ring[i + 1].lat - ring[i + 1].lon * ring[i].lat;
+  return sum / 2;
+};
+
+/**
+ * Read the polygons of a .shp file as lists of rings (outer ring first,
+ * holes after it). Only geographic lon/lat coordinates are supported; the
+ * .prj is not read, so projected files are rejected by their coordinate range.
+ */
+export const parseShapefilePolygons = (buffer: ArrayBuffer): LatLon[][][] => {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 100 || view.getInt32(0) !== 9994) throw new Error('not an ESRI shapefile (.shp)');
+  const fileType = view.getInt32(32, true);
+  if (!POLYGON_TYPES.has(fileType)) throw new Error(`shape type ${fileType} is not a polygon layer`);
+
+  const polygons: LatLon[][][] = [];
+  let offset = 100;
+  while (offset + 8 <= buffer.byteLength) {
+    const contentLength = view.getInt32(offset + 4) * 2; // 16-bit words, big-endian
+    const record = offset + 8;
+    offset = record + contentLength;
+    const shapeType = view.getInt32(record, true);
+    if (shapeType === 0) continue; // null shape
+    if (!POLYGON_TYPES.has(shapeType)) throw new Error(`record with shape type ${shapeType} in a polygon layer`);
+
+    const numParts = view.getInt32(record + 36, true);
+    const numPoints = view.getInt32(record + 40, true);
+    const partsStart = record + 44;
+    const pointsStart = partsStart + numParts * 4;
+    const rings: LatLon[][] = [];
+    for (let p = 0; p < numParts; p++) {
+      const from = view.getInt32(partsStart + p * 4, true);
+      const to = p + 1 < numParts ? view.getInt32(partsStart + (p + 1) * 4, true) : numPoints;
+      const ring: LatLon[] = [];
+      for (let i = from; i < to; i++) {
+        const lon = view.getFloat64(pointsStart + i * 16, true);
+        const lat = view.getFloat64(pointsStart + i * 16 + 8, true);
+        if (Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+          throw new Error('coordinates are not lon/lat degrees (reproject the shapefile to WGS 84)');
+        }
+        ring.push({ lat, lon });
+      }
+      if (ring.length >= 4) rings.push(ring);
+    }
+
+    // Clockwise rings start a new polygon; counter-clockwise ones are its holes
+    let current: LatLon[][] | null = null;
+    for (const ring of rings) {
+      if (signedArea(ring) <= 0 || !current) {
+        current = [ring];
+        polygons.push(current);
+      } else {
+        current.push(ring);
+      }
+    }
+  }
+  if (polygons.length === 0) throw new Error('shapefile contains no polygons');
+  return polygons;
+};
@@ -0,0 +1,131 @@
+import { LatLon } from '../types';
+
+const DEG = Math.PI / 180;
+
+// Solar constant at 1 AU (W/m²)
+const SOLAR_CONSTANT = 1361;
+
+const wrap = (v: number, period: number) => ((v % period) + period) % period;
+const wrapLon = (lon: number) => wrap(lon + 180, 360) - 180;
+
+export interface SolarEphemeris {
+  declination: number; // degrees
+  rightAscension: number; // degrees
+  gmst: number; // Greenwich mean sidereal time, degrees
+  distance: number; // Earth–Sun distance, AU
+}
+
+/**
+ * Low-precision solar ephemeris (Astronomical Almanac, good to ~0.01° from
+ * 1950 to 2050), which is far finer than the globe can show.
+ */
+export const solarEphemeris = (date: Date): SolarEphemeris => {
+  const n = date.getTime() / 86400000 + 2440587.5 - 2451545.0; // days since J2000
+  const meanLon = wrap(280.460 + 0.9856474 * n, 360);
+  const anomaly = wrap(357.528 + 0.9856003 * n, 360) * DEG;
+  const eclipticLon = (meanLon + 1.915 * Math.sin(anomaly) + 0.020 * Math.sin(2 * anomaly)) * DEG;
+  const obliquity = (23.439 - 0.0000004 * n) * DEG;
+  return {
+    declination: Math.asin(Math.sin(obliquity) * Math.sin(eclipticLon)) / DEG,
+    rightAscension: wrap(Math.atan2(Math.cos(obliquity) * Math.sin(eclipticLon), Math.cos(eclipticLon)) / DEG, 360),
+    gmst: wrap(280.46061837 + 360.98564736629 * n, 360),
+    distance: 1.00014 - 0.01671 * Math.cos(anomaly) - 0.00014 * Math.cos(2 * anomaly),
+  };
+};
+
+// Point where the Sun is overhead
+export const subsolarPoint = (date: Date): LatLon => {
+  const { declination, rightAscension, gmst } = solarEphemeris(date);
+  return { lat: declination, lon: wrapLon(rightAscension - gmst) };
+};
+
+export interface SolarPosition {
+  elevation: number; // degrees above the horizon (no refraction)
+  azimuth: number; // degrees clockwise from north
+  solarTime: number; // local apparent solar time, hours
+}
+
+// Sun position at a place for a precomputed ephemeris, for sweeps over many places
+export const solarPositionFrom = ({ declination, rightAscension, gmst }: SolarEphemeris, at: LatLon): SolarPosition => {
+  const hourAngle = wrapLon(gmst + at.lon - rightAscension) * DEG;
+  const lat = at.lat * DEG;
+  const dec = declination * DEG;
+  const elevation = Math.asin(Math.sin(lat) * Math.sin(dec) + Math.cos(lat) * Math.cos(dec) * Math.cos(hourAngle));
+  const azimuth = Math.atan2(Math.sin(hourAngle), Math.cos(hourAngle) * Math.sin(lat) - Math.tan(dec) * Math.cos(lat));
+  return {
+    elevation: elevation / DEG,
+    azimuth: wrap(azimuth / DEG + 180, 360),
+    solarTime: wrap(12 + hourAngle / DEG / 15, 24),
+  };
+};
+
+export const solarPosition = (date: Date, at: LatLon): SolarPosition => solarPositionFrom(solarEphemeris(date), at);
+
+// Relative optical air mass (Kasten–Young), 1 with the sun overhead
+export const airMass = (elevation: number) => {
+  const zenith = 90 - elevation;
+  return 1 / (Math.cos(zenith * DEG) + 0.50572 * Math.pow(96.07995 - zenith, -1.6364));
+};
+
+export interface Irradiance {
+  ghi: number; // global horizontal, W/m²
+  dni: number; // direct normal
+  dhi: number; // diffuse horizontal
+}
+
+/**
+ * Clear-sky irradiance for a cloudless, average-turbidity sky: Kasten–Young
+ * air mass, Meinel beam attenuation and diffuse taken as 10% of the beam.
+ */
+export const clearSkyIrradiance = (elevation: number, distance = 1): Irradiance => {
+  if (elevation <= 0) return { ghi: 0, dni: 0, dhi: 0 };
+  const dni = (SOLAR_CONSTANT / (distance * distance)) * Math.pow(0.7, Math.pow(airMass(elevation), 0.678));
+  const dhi = 0.1 * dni;
+  return { ghi: dni * Math.sin(elevation * DEG) + dhi, dni, dhi };
+};
+
+// Rayleigh optical thickness of the whole atmosphere along an air mass (Kasten 1996)
+const rayleighThickness = (m: number) =>
+  m <= 20
+    ? 1 / (6.6296 + 1.7513 * m - 0.1202 * m ** 2 + 0.0065 * m ** 3 - 0.00013 * m ** 4)
+    : 1 / (10.4 + 0.718 * m);
+
+/**
+ * Clear-sky irradiance for a clean, dry sky with no aerosols: the ESRA model
+ * (Rigollier et al. 2000) at Linke turbidity 1, i.e. Rayleigh scattering
+ * only. Unlike clearSkyIrradiance this carries no aerosol load, so an
+ * aerosol extinction can be applied on top without counting it twice.
+ */
+export const aerosolFreeIrradiance = (elevation: number, distance = 1): Irradiance => {
+  if (elevation <= 0) return { ghi: 0, dni: 0, dhi: 0 };
+  const linke = 1;
+  const extraterrestrial = SOLAR_CONSTANT / (distance * distance);
+  const m = airMass(elevation);
+  const dni = extraterrestrial * Math.exp(-0.8662 * linke * m * rayleighThickness(m));
+  // Diffuse transmission at zenith and its angular function
+  const trd = -1.5843e-2 + 3.0543e-2 * linke + 3.797e-4 * linke ** 2;
+  const a0 = Math.max(2e-3 / trd, 2.6463e-1 - 6.1581e-2 * linke + 3.1408e-3 * linke ** 2);
+  const a1 = 2.0402 + 1.8945e-2 * linke - 1.1161e-2 * linke ** 2;
+  const a2 = -1.3025 + 3.9231e-2 * linke + 8.5079e-3 * linke ** 2;
+  const sinElevation = Math.sin(elevation * DEG);
+  const dhi = extraterrestrial * trd * (a0 + a1 * sinElevation + a2 * sinElevation ** 2);
+  return { ghi: dni * sinElevation + dhi, dni, dhi };
+};
+
+// Scene clock as a Date; `timeUtc` is hours into the UTC day
+export const clockDate = (date: string, timeUtc: number): Date => {
+  const midnight = Date.parse(`${date}T00:00:00Z`);
+  return new Date((Number.isFinite(midnight) ? midnight : 0) + timeUtc * 3600000);
+};
+
+// Clock fields (UTC day and hour) for a moment in time
+export const clockFromDate = (d: Date) => ({
+  date: d.toISOString().slice(0, 10),
+  timeUtc: d.getUTCHours() + d.getUTCMinutes() / 60 + d.getUTCSeconds() / 3600,
+});
+
+// Advance a clock by `seconds`, rolling the date over at midnight
+export const advanceClock = (date: string, timeUtc: number, seconds: number) =>
+  clockFromDate(clockDate(date, timeUtc + seconds / 3600));
+
+export const isClockDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && Number.isFinite(Date.parse(`${value}T00:00:00Z`));
@@ -0,0 +1,174 @@
+import { AODLayer, AODRaster, LatLon, PVStationData, RegionOfInterest, StationZoneStats, ZoneStats } from '../types';
+import { EARTH_RADIUS_KM, toRadians } from './geodesy';
+import { isNoData } from './geotiff';
+import { insideFootprint } from './query';
+import { forEachPixelInRois } from './roi';
+
+export const DEFAULT_BUFFERS_KM = [1, 5, 10];
+
+const KM_PER_DEG = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+// Parse "1, 5, 10" into sorted, positive, distinct distances
+export const parseBuffers = (text: string): number[] =>
+  [...new Set(text.split(/[\s,;/]+/).map(Number).filter(v => Number.isFinite(v) && v > 0))].sort((a, b) => a - b);
+
+/**
+ * Local flat projection (km east/north of the station centre). Station
+ * buffers are at most tens of km across, where this is well within a pixel.
+ */
+const projector = (origin: LatLon) => {
+  const cosLat = Math.cos(toRadians(origin.lat));
+  return (p: LatLon) => ({ x: (p.lon - origin.lon) * cosLat * KM_PER_DEG, y: (p.lat - origin.lat) * KM_PER_DEG });
+};
+
+const segmentDistance = (p: { x: number; y: number }, a: { x: number; y: number }, b: { x: number; y: number }) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.min(1, Math.max(0, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+/**
+ * Distance (km) from a point to the station footprint, 0 inside it. Point
+ * stations are treated as a disc with the station's area.
+ */
+const footprintDistance = (station: PVStationData) => {
+  const project = projector(station);
+  if (!station.footprint) {
+    const radius = Math.sqrt(Math.max(station.area, 0) / Math.PI);
+    return (p: LatLon) => {
+      const q = project(p);
+      return Math.max(0, Math.hypot(q.x, q.y) - radius);
+    };
+  }
+  const rings = station.footprint.map(ring => ring.map(project));
+  return (p: LatLon) => {
+    if (insideFootprint(station.footprint!, p)) return 0;
+    const q = project(p);
+    let best = Infinity;
+    for (const ring of rings) {
+      for (let i = 0; i < ring.length - 1; i++) best = Math.min(best, segmentDistance(q, ring[i], ring[i + 1]));
+    }
+    return best;
+  };
+};
+
+const summarize = (values: number[]): Pick<ZoneStats, 'count' | 'mean' | 'median' | 'std'> => {
+  const count = values.length;
+  if (count === 0) return { count, mean: null, median: null, std: null };
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((sum, v) => sum + v, 0) / count;
+  const median = count % 2 ? sorted[(count - 1) / 2] : (sorted[count / 2 - 1] + sorted[count / 2]) / 2;
+  const std = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / count);
+  return { count, mean, median, std };
+};
+
+export const zoneLabel = (inner: number, outer: number) => (outer === 0 ? 'Footprint' : `${inner}–${outer} km`);
+
+/**
+ * Pixel statistics for the footprint and for concentric rings measured from
+ * the footprint edge (0–b1, b1–b2, ... km). Pixels are assigned by their
+ * centre; footprints smaller than a pixel may come back empty.
+ */
+export const stationZoneStats = (
+  station: PVStationData,
+  raster: AODRaster,
+  layer: AODLayer,
+  buffersKm: number[]
+): StationZoneStats => {
+  const edges = [0, ...buffersKm];
+  const samples: number[][] = edges.map(() => []);
+  const outer = edges[edges.length - 1];
+  const distanceTo = footprintDistance(station);
+
+  // Only visit pixels inside the station's bounding box grown by the widest buffer
+  const points = station.footprint ? station.footprint[0] : [station];
+  const reach = outer + Math.sqrt(Math.max(station.area, 0) / Math.PI);
+  const cosLat = Math.max(0.01, Math.cos(toRadians(station.lat)));
+  // A loop rather than Math.min(...points): traced footprints can exceed the argument limit
+  let south = Infinity, north = -Infinity, west = Infinity, east = -Infinity;
+  for (const p of points) {
+    south = Math.min(south, p.lat);
+    north = Math.max(north, p.lat);
+    west = Math.min(west, p.lon);
+    east = Math.max(east, p.lon);
+  }
+  south -= reach / KM_PER_DEG;
+  north += reach / KM_PER_DEG;
+  west -= reach / (KM_PER_DEG * cosLat);
+  east += reach / (KM_PER_DEG * cosLat);
+
+  const { bounds, width, height } = raster;
+  const pxW = (bounds.east - bounds.west) / width;
+  const pxH = (bounds.north - bounds.south) / height;
+  const col0 = Math.max(0, Math.floor((west - bounds.west) / pxW));
+  const col1 = Math.min(width - 1, Math.floor((east - bounds.west) / pxW));
+  const row0 = Math.max(0, Math.floor((bounds.north - north) / pxH));
+  const row1 = Math.min(height - 1, Math.floor((bounds.north - south) / pxH));
+
+  for (let row = row0; row <= row1; row++) {
+    const lat = bounds.north - (row + 0.5) * pxH;
+    for (let col = col0; col <= col1; col++) {
+      const value = raster.data[row * width + col];
+      if (isNoData(value, raster.noData)) continue;
+      const d = distanceTo({ lat, lon: bounds.west + (col + 0.5) * pxW });
+      if (d > outer) continue;
+      // Zone 0 is the footprint itself, zone k the ring up to edges[k]
+      const zone = d === 0 ? 0 : edges.findIndex((edge, k) => k > 0 && d <= edge);
+      samples[zone].push(value);
+    }
+  }
+
+  return {
+    station,
+    layer,
+    zones: edges.map((edge, k) => ({
+      zone: zoneLabel(k === 0 ? 0 : edges[k - 1], edge),
+      innerKm: k === 0 ? 0 : edges[k - 1],
+      outerKm: edge,
+      ...summarize(samples[k]),
+    })),
+  };
+};
+
+export const computeZoneStats = (
+  stations: PVStationData[],
+  raster: AODRaster,
+  layer: AODLayer,
+  buffersKm: number[]
+): StationZoneStats[] => stations.map(station => stationZoneStats(station, raster, layer, buffersKm));
+
+// Summary of the valid pixels whose centre lies inside the ROI
+export const roiZonalStats = (roi: RegionOfInterest, raster: AODRaster) => {
+  const values: number[] = [];
+  forEachPixelInRois(raster, [roi], i => {
+    if (!isNoData(raster.data[i], raster.noData)) values.push(raster.data[i]);
+  });
+  return summarize(values);
+};
+
+// Pool all stations' per-zone means into one summary per zone
+export const poolZones = (rows: StationZoneStats[]): ZoneStats[] =>
+  (rows[0]?.zones ?? []).map((zone, k) => {
+    const means = rows.map(r => r.zones[k].mean).filter((m): m is number => m !== null);
+    return { ...zone, ...summarize(means) };
+  });
+
+const csvCell = (v: string | number | null) => {
+  if (v === null) return '';
+  const text = String(v);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Long-format table: one line per station and zone
+export const zoneStatsToCsv = (rows: StationZoneStats[]): string => {
+  const header = ['station_id', 'type', 'lat', 'lon', 'area_km2', 'layer', 'zone', 'inner_km', 'outer_km', 'pixel_count', 'mean', 'median', 'std'];
+  const lines = rows.flatMap(({ station, layer, zones }) =>
+    zones.map(z => [
+      station.id, station.type, station.lat.toFixed(5), station.lon.toFixed(5), station.area.toFixed(4),
+      layer, z.zone, z.innerKm, z.outerKm, z.count, z.mean, z.median, z.std,
+    ].map(csvCell).join(','))
+  );
+  return [header.join(','), ...lines].join('\n');
+};
@@ -0,0 +1,214 @@
+import * as THREE from 'three';
+import { DEMRaster, GeoBounds } from '../types';
+import { EARTH_RADIUS, HOBQ_BOUNDS } from '../constants';
+import { EARTH_RADIUS_KM, latLonToVector3 } from './geodesy';
+import { isNoData, loadGeoTiffFile } from './geotiff';
+
+// Scene units per metre of real elevation
+export const METRES_TO_SCENE = EARTH_RADIUS / (EARTH_RADIUS_KM * 1000);
+
+// Fraction of the patch (per side) over which relief fades out into the sphere
+const EDGE_BLEND = 0.1;
+
+// Keeps the patch above the faceted base sphere (128 segments sag ~0.015 units)
+export const TERRAIN_BASE_LIFT = 0.02;
+
+const MAX_SEGMENTS = 256;
+
+// Slippy-map tile bounds (web mercator), e.g. "8-207-96.png" or "8_207_96.png"
+const TILE_PATTERN = /(\d{1,2})[-_](\d+)[-_](\d+)\.png$/i;
+
+const tileLat = (y: number, z: number) => {
+  const n = Math.PI - (2 * Math.PI * y) / 2 ** z;
+  return (180 / Math.PI) * Math.atan(Math.sinh(n));
+};
+
+const tileBounds = (z: number, x: number, y: number): GeoBounds => ({
+  west: (x / 2 ** z) * 360 - 180,
+  east: ((x + 1) / 2 ** z) * 360 - 180,
+  north: tileLat(y, z),
+  south: tileLat(y + 1, z),
+});
+
+// Mercator y in [0, 1] from the top of the tile, for a latitude inside it
+const mercatorRow = (lat: number, bounds: GeoBounds) => {
+  const merc = (l: number) => Math.log(Math.tan(Math.PI / 4 + (l * Math.PI) / 360));
+  return (merc(bounds.north) - merc(lat)) / (merc(bounds.north) - merc(bounds.south));
+};
+
+/**
+ * Decode a terrain-RGB PNG (height = -10000 + (R*65536 + G*256 + B) * 0.1 m).
+ * Slippy-map tiles named z-x-y are resampled from mercator rows to an even
+ * lat grid; any other PNG is assumed to cover HOBQ_BOUNDS.
+ */
+export const decodeTerrainRgb = async (file: File): Promise<DEMRaster> => {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+
+  const { width, height } = canvas;
+  const tile = file.name.match(TILE_PATTERN);
+  const bounds = tile ? tileBounds(Number(tile[1]), Number(tile[2]), Number(tile[3])) : HOBQ_BOUNDS;
+
+  const data = new Float32Array(width * height);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let row = 0; row < height; row++) {
+    const lat = bounds.north - ((row + 0.5) / height) * (bounds.north - bounds.south);
+    const srcRow = tile ? Math.min(height - 1, Math.floor(mercatorRow(lat, bounds) * height)) : row;
+    for (let col = 0; col < width; col++) {
+      const i = (srcRow * width + col) * 4;
+      const h = -10000 + (pixels[i] * 65536 + pixels[i + 1] * 256 + pixels[i + 2]) * 0.1;
+      data[row * width + col] = h;
+      if (h < min) min = h;
+      if (h > max) max = h;
+    }
+  }
+
+  return { name: file.name, width, height, data, bounds, noData: null, min, max };
+};
+
+export const loadDemFile = (file: File): Promise<DEMRaster> =>
+  /\.png$/i.test(file.name) ? decodeTerrainRgb(file) : loadGeoTiffFile(file);
+
+// Bilinear elevation in metres; nodata falls back to the DEM minimum
+const sampleElevation = (dem: DEMRaster, lat: number, lon: number): number => {
+  const { west, south, east, north } = dem.bounds;
+  const fx = Math.min(dem.width - 1, Math.max(0, ((lon - west) / (east - west)) * dem.width - 0.5));
+  const fy = Math.min(dem.height - 1, Math.max(0, ((north - lat) / (north - south)) * dem.height - 0.5));
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(dem.width - 1, x0 + 1);
+  const y1 = Math.min(dem.height - 1, y0 + 1);
+  const at = (x: number, y: number) => {
+    const v = dem.data[y * dem.width + x];
+    return isNoData(v, dem.noData) ? dem.min : v;
+  };
+  const tx = fx - x0;
+  const ty = fy - y0;
+  const top = at(x0, y0) + (at(x1, y0) - at(x0, y0)) * tx;
+  const bottom = at(x0, y1) + (at(x1, y1) - at(x0, y1)) * tx;
+  return top + (bottom - top) * ty;
+};
+
+const smoothstep = (t: number) => {
+  const c = Math.min(1, Math.max(0, t));
+  return c * c * (3 - 2 * c);
+};
+
+// 0 at the patch border rising to 1 inside the blend band
+const edgeWeight = (dem: DEMRaster, lat: number, lon: number) => {
+  const { west, south, east, north } = dem.bounds;
+  const u = (lon - west) / (east - west);
+  const v = (lat - south) / (north - south);
+  return smoothstep(Math.min(u, 1 - u) / EDGE_BLEND) * smoothstep(Math.min(v, 1 - v) / EDGE_BLEND);
+};
+
+/**
+ * Height of the terrain patch above EARTH_RADIUS at a lat/lon, in scene
+ * units. Relief is measured from the DEM minimum so the lowest ground sits on
+ * the sphere, then exaggerated and faded out towards the patch edges.
+ */
+export const terrainLift = (dem: DEMRaster | undefined, lat: number, lon: number, exaggeration: number): number => {
+  if (!dem) return 0;
+  const { west, south, east, north } = dem.bounds;
+  if (lat < south || lat > north || lon < west || lon > east) return 0;
+  const w = edgeWeight(dem, lat, lon);
+  const relief = sampleElevation(dem, lat, lon) - dem.min;
+  return TERRAIN_BASE_LIFT + relief * METRES_TO_SCENE * exaggeration * w;
+};
+
+// Highest point of the patch, for keeping draped layers above it
+export const maxTerrainLift = (dem: DEMRaster | undefined, exaggeration: number) =>
+  dem ? TERRAIN_BASE_LIFT + (dem.max - dem.min) * METRES_TO_SCENE * exaggeration : 0;
+
+/**
+ * Grid mesh over the DEM footprint in the globe frame, with equirectangular
+ * UVs so the global colour texture lines up with the base sphere.
+ */
+export const buildTerrainGeometry = (dem: DEMRaster, exaggeration: number): THREE.BufferGeometry => {
+  const { west, south, east, north } = dem.bounds;
+  const cols = Math.min(MAX_SEGMENTS, dem.width - 1) + 1;
+  const rows = Math.min(MAX_SEGMENTS, dem.height - 1) + 1;
+
+  const positions = new Float32Array(cols * rows * 3);
+  const uvs = new Float32Array(cols * rows * 2);
+  const v = new THREE.Vector3();
+
+  for (let r = 0; r < rows; r++) {
+    const lat = north - (r / (rows - 1)) * (north - south);
+    for (let c = 0; c < cols; c++) {
+      const lon = west + (c / (cols - 1)) * (east - west);
+      const i = r * cols + c;
+      latLonToVector3(lat, lon, EARTH_RADIUS + terrainLift(dem, lat, lon, exaggeration), v);
+      positions.set([v.x, v.y, v.z], i * 3);
+      uvs.set([(lon + 180) / 360, (lat + 90) / 180], i * 2);
+    }
+  }
+
+  const indices: number[] = [];
+  for (let r = 0; r < rows - 1; r++) {
+    for (let c = 0; c < cols - 1; c++) {
+      const a = r * cols + c;
+      const b = a + 1;
+      const d = a + cols;
+      const e = d + 1;
+      indices.push(a, d, b, b, d, e);
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+};
+
+// Grid spacing for patches draped over the globe and terrain (degrees)
+const DRAPE_STEP_DEG = 0.02;
+
+/**
+ * Grid mesh over `bounds` that follows the sphere and the exaggerated DEM,
+ * `offset` scene units above the ground so it neither floats nor z-fights.
+ */
+export const buildDrapedGeometry = (
+  bounds: GeoBounds,
+  dem: DEMRaster | undefined,
+  exaggeration: number,
+  offset: number
+): THREE.BufferGeometry => {
+  const { west, south, east, north } = bounds;
+  const cols = Math.min(MAX_SEGMENTS, Math.max(8, Math.ceil((east - west) / DRAPE_STEP_DEG))) + 1;
+  const rows = Math.min(MAX_SEGMENTS, Math.max(8, Math.ceil((north - south) / DRAPE_STEP_DEG))) + 1;
+
+  const positions = new Float32Array(cols * rows * 3);
+  const v = new THREE.Vector3();
+  for (let r = 0; r < rows; r++) {
+    const lat = north - (r / (rows - 1)) * (north - south);
+    for (let c = 0; c < cols; c++) {
+      const lon = west + (c / (cols - 1)) * (east - west);
+      latLonToVector3(lat, lon, EARTH_RADIUS + terrainLift(dem, lat, lon, exaggeration) + offset, v);
+      positions.set([v.x, v.y, v.z], (r * cols + c) * 3);
+    }
+  }
+
+  const indices: number[] = [];
+  for (let r = 0; r < rows - 1; r++) {
+    for (let c = 0; c < cols - 1; c++) {
+      const a = r * cols + c;
+      const d = a + cols;
+      indices.push(a, d, a + 1, a + 1, d, d + 1);
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+  geometry.setIndex(indices);
+  return geometry;
+};
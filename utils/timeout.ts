@@ -0,0 +1,9 @@
+// Reject unless the promise settles within `ms`; DOM-free so the hand-tracking worker can use it
+export const withTimeout = <T,>(promise: Promise<T>, ms: number, what: string): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${what} timed out after ${ms / 1000}s`)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      err => { clearTimeout(timer); reject(err); }
+    );
+  });
@@ -0,0 +1,107 @@
+import { AODFrame, AODRaster, AODTimeSeries, TimeResolution } from '../types';
+import { isNoData } from './geotiff';
+
+// Matches 2005, 2005-03, 2005_03 or 200503 anywhere in a file name
+const DATE_PATTERN = /(?:^|[^0-9])((?:19|20)\d{2})(?:[-_.]?(0[1-9]|1[0-2]))?(?![0-9])/;
+
+export const parseFrameDate = (name: string): { year: number; month?: number } | null => {
+  const match = name.match(DATE_PATTERN);
+  if (!match) return null;
+  return { year: Number(match[1]), month: match[2] ? Number(match[2]) : undefined };
+};
+
+export const formatMonthIndex = (monthIndex: number, resolution: TimeResolution): string => {
+  const year = Math.floor(monthIndex / 12);
+  const month = (monthIndex % 12) + 1;
+  return resolution === 'yearly' ? String(year) : `${year}-${String(month).padStart(2, '0')}`;
+};
+
+const sameGrid = (a: AODRaster, b: AODRaster) =>
+  a.width === b.width && a.height === b.height &&
+  a.bounds.west === b.bounds.west && a.bounds.east === b.bounds.east &&
+  a.bounds.south === b.bounds.south && a.bounds.north === b.bounds.north;
+
+/**
+ * Order a set of rasters in time using the date in each file name. All frames
+ * must share one grid so they can be interpolated pixel by pixel.
+ */
+export const buildTimeSeries = (rasters: AODRaster[]): AODTimeSeries => {
+  if (rasters.length < 2) throw new Error('a time series needs at least two rasters');
+
+  const dated = rasters.map(raster => {
+    const date = parseFrameDate(raster.name);
+    if (!date) throw new Error(`${raster.name}: no year (YYYY) or month (YYYY-MM) found in the file name`);
+    return { raster, date };
+  });
+
+  const monthly = dated.some(d => d.date.month !== undefined);
+  if (monthly && dated.some(d => d.date.month === undefined)) {
+    throw new Error('mixed yearly and monthly file names in one series');
+  }
+  const resolution: TimeResolution = monthly ? 'monthly' : 'yearly';
+
+  const frames: AODFrame[] = dated
+    .map(({ raster, date }) => {
+      const monthIndex = date.year * 12 + ((date.month ?? 1) - 1);
+      return { monthIndex, label: formatMonthIndex(monthIndex, resolution), raster };
+    })
+    .sort((a, b) => a.monthIndex - b.monthIndex);
+
+  for (let i = 1; i < frames.length; i++) {
+    if (frames[i].monthIndex === frames[i - 1].monthIndex) {
+      throw new Error(`two rasters for ${frames[i].label}: ${frames[i - 1].raster.name}, ${frames[i].raster.name}`);
+    }
+    if (!sameGrid(frames[0].raster, frames[i].raster)) {
+      throw new Error(`${frames[i].raster.name}: grid differs from ${frames[0].raster.name}`);
+    }
+  }
+
+  return {
+    frames,
+    resolution,
+    min: Math.min(...frames.map(f => f.raster.min)),
+    max: Math.max(...frames.map(f => f.raster.max)),
+  };
+};
+
+const clampCursor = (series: AODTimeSeries, cursor: number) =>
+  Math.min(series.frames.length - 1, Math.max(0, cursor));
+
+// Date under a fractional frame cursor, interpolated between frame dates
+export const cursorLabel = (series: AODTimeSeries, cursor: number): string => {
+  const c = clampCursor(series, cursor);
+  const i = Math.floor(c);
+  const t = c - i;
+  const a = series.frames[i];
+  const b = series.frames[Math.min(i + 1, series.frames.length - 1)];
+  if (t === 0 || a === b) return a.label;
+  return formatMonthIndex(Math.round(a.monthIndex + (b.monthIndex - a.monthIndex) * t), 'monthly');
+};
+
+/**
+ * Linear interpolation between the two frames around the cursor. A pixel is
+ * nodata if either neighbour is. min/max are the series-wide range.
+ */
+export const interpolateFrame = (series: AODTimeSeries, cursor: number): AODRaster => {
+  const c = clampCursor(series, cursor);
+  const i = Math.floor(c);
+  const t = c - i;
+  const a = series.frames[i].raster;
+  const b = series.frames[Math.min(i + 1, series.frames.length - 1)].raster;
+
+  const data = new Float32Array(a.data.length);
+  for (let p = 0; p < data.length; p++) {
+    const va = a.data[p];
+    const vb = b.data[p];
+    data[p] = isNoData(va, a.noData) || isNoData(vb, b.noData) ? NaN : va + (vb - va) * t;
+  }
+
+  return {
+    ...a,
+    name: cursorLabel(series, c),
+    data,
+    noData: NaN,
+    min: series.min,
+    max: series.max,
+  };
+};
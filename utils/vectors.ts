@@ -0,0 +1,129 @@
+import * as THREE from 'three';
+import { LatLon, MapLabel, VectorLayerData } from '../types';
+import { latLonToVector3, normalizeLon } from './geodesy';
+
+// Max angular step between draped vertices, so long edges follow the curvature
+const DRAPE_STEP_DEG = 0.05;
+
+/**
+ * Line-segment pairs for a set of polylines at a fixed radius, subdividing
+ * each edge along lat/lon. `stepDeg` trades vertex count for smoothness.
+ */
+export const drapedLinePositions = (lines: LatLon[][], radius: number, stepDeg = DRAPE_STEP_DEG): Float32Array => {
+  const points: number[] = [];
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  lines.forEach(line => {
+    for (let i = 0; i < line.length - 1; i++) {
+      const from = line[i];
+      const to = line[i + 1];
+      const steps = Math.max(1, Math.ceil(Math.hypot(to.lat - from.lat, to.lon - from.lon) / stepDeg));
+      for (let s = 0; s < steps; s++) {
+        const t0 = s / steps;
+        const t1 = (s + 1) / steps;
+        latLonToVector3(from.lat + (to.lat - from.lat) * t0, from.lon + (to.lon - from.lon) * t0, radius, a);
+        latLonToVector3(from.lat + (to.lat - from.lat) * t1, from.lon + (to.lon - from.lon) * t1, radius, b);
+        points.push(a.x, a.y, a.z, b.x, b.y, b.z);
+      }
+    }
+  });
+  return new Float32Array(points);
+};
+
+const toLatLon = (p: number[]): LatLon => ({ lat: p[1], lon: p[0] });
+
+// Every coordinate sequence in a geometry, polygon rings included
+const geometryLines = (geometry: any): number[][][] => {
+  switch (geometry?.type) {
+    case 'LineString': return [geometry.coordinates];
+    case 'MultiLineString':
+    case 'Polygon': return geometry.coordinates;
+    case 'MultiPolygon': return geometry.coordinates.flat();
+    case 'GeometryCollection': return geometry.geometries.flatMap(geometryLines);
+    default: return [];
+  }
+};
+
+const lineLengthDeg = (line: LatLon[]) => {
+  let sum = 0;
+  for (let i = 0; i < line.length - 1; i++) sum += Math.hypot(line[i + 1].lat - line[i].lat, line[i + 1].lon - line[i].lon);
+  return sum;
+};
+
+/**
+ * Lines from a GeoJSON FeatureCollection. Each distinct feature name gets one
+ * label at the middle vertex of its longest line; Natural Earth's English
+ * name (`name_en`) is preferred over the local one.
+ */
+export const parseVectorLayer = (json: unknown, layerId: string, labelPriority = 1): VectorLayerData => {
+  const features: any[] = Array.isArray((json as any)?.features) ? (json as any).features : [];
+  const lines: LatLon[][] = [];
+  const longest = new Map<string, LatLon[]>();
+  for (const feature of features) {
+    const name = feature?.properties?.name_en ?? feature?.properties?.name;
+    for (const coords of geometryLines(feature?.geometry)) {
+      if (!Array.isArray(coords) || coords.length < 2) continue;
+      const line = coords.map(toLatLon);
+      lines.push(line);
+      if (typeof name === 'string' && name !== '') {
+        const best = longest.get(name);
+        if (!best || lineLengthDeg(line) > lineLengthDeg(best)) longest.set(name, line);
+      }
+    }
+  }
+  const labels: MapLabel[] = [...longest].map(([text, line]) => ({
+    id: `${layerId}:${text}`,
+    text,
+    at: line[Math.floor(line.length / 2)],
+    kind: 'feature',
+    // Longer features are more useful for orientation
+    priority: labelPriority + Math.min(0.9, lineLengthDeg(line) / 100),
+  }));
+  return { lines, labels };
+};
+
+/**
+ * Meridians (pole to pole) and parallels every `stepDeg` degrees, built from
+ * vertices at most 1° apart so they follow the sphere.
+ */
+export const graticuleLines = (stepDeg: number): LatLon[][] => {
+  const lines: LatLon[][] = [];
+  for (let lon = -180; lon < 180; lon += stepDeg) {
+    const line: LatLon[] = [];
+    for (let lat = -90; lat <= 90 + 1e-9; lat += Math.min(1, stepDeg)) line.push({ lat, lon });
+    lines.push(line);
+  }
+  for (let lat = -90 + stepDeg; lat < 90 - 1e-9; lat += stepDeg) {
+    const line: LatLon[] = [];
+    for (let lon = -180; lon <= 180; lon += Math.min(1, stepDeg)) line.push({ lat, lon });
+    lines.push(line);
+  }
+  return lines;
+};
+
+// 0° and 180° take no hemisphere letter
+export const formatDegrees = (value: number, positive: string, negative: string) => {
+  const abs = Math.abs(Math.round(value * 100) / 100);
+  return `${abs}°${abs === 0 || abs === 180 ? '' : value > 0 ? positive : negative}`;
+};
+
+/**
+ * Graticule labels around a view centre: parallels labelled along the
+ * meridian nearest the centre, meridians along the nearest parallel.
+ */
+export const graticuleLabels = (centre: LatLon, stepDeg: number, reach = 8): MapLabel[] => {
+  const lat0 = Math.round(centre.lat / stepDeg) * stepDeg;
+  const lon0 = Math.round(centre.lon / stepDeg) * stepDeg;
+  const labels: MapLabel[] = [];
+  for (let k = -reach; k <= reach; k++) {
+    const lat = lat0 + k * stepDeg;
+    if (Math.abs(lat) < 90) {
+      labels.push({ id: `lat:${lat}`, text: formatDegrees(lat, 'N', 'S'), at: { lat, lon: lon0 }, kind: 'graticule', priority: 0 });
+    }
+    const lon = normalizeLon(lon0 + k * stepDeg);
+    const latForLon = Math.abs(lat0) < 90 ? lat0 : lat0 - Math.sign(lat0) * stepDeg;
+    labels.push({ id: `lon:${lon}`, text: formatDegrees(lon, 'E', 'W'), at: { lat: latForLon, lon }, kind: 'graticule', priority: 0 });
+  }
+  // A full turn of meridians can wrap onto itself at coarse steps
+  return labels.filter((label, i) => labels.findIndex(l => l.id === label.id) === i);
+};
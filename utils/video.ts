@@ -0,0 +1,79 @@
+import { ArrayBufferTarget, Muxer } from 'webm-muxer';
+
+// Encoder configurations to try, best first, with the matching WebM codec id
+const CODECS = [
+  { encoder: 'vp09.00.10.08', webm: 'V_VP9' },
+  { encoder: 'vp8', webm: 'V_VP8' },
+];
+
+// Frames waiting in the encoder before we stop feeding it
+const MAX_QUEUE = 4;
+
+// Seconds between key frames, so the file can be scrubbed
+const KEYFRAME_INTERVAL = 2;
+
+export const supportsWebmExport = () => typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+
+export interface WebmWriter {
+  addFrame: (canvas: HTMLCanvasElement, index: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+  abort: () => void;
+}
+
+/**
+ * Frame-by-frame WebM encoder (WebCodecs + webm-muxer). Timestamps come from
+ * the frame index, not the wall clock, so the output plays at exactly `fps`
+ * however long each frame took to render.
+ */
+export const createWebmWriter = async (width: number, height: number, fps: number): Promise<WebmWriter> => {
+  let chosen: { config: VideoEncoderConfig; webm: string } | null = null;
+  for (const codec of CODECS) {
+    const config: VideoEncoderConfig = {
+      codec: codec.encoder,
+      width,
+      height,
+      framerate: fps,
+      bitrate: Math.round(width * height * fps * 0.15),
+    };
+    if ((await VideoEncoder.isConfigSupported(config)).supported) {
+      chosen = { config, webm: codec.webm };
+      break;
+    }
+  }
+  if (!chosen) throw new Error(`No WebM encoder available for ${width}×${height}`);
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: chosen.webm, width, height, frameRate: fps },
+  });
+  let failure: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: err => { failure = err; },
+  });
+  encoder.configure(chosen.config);
+
+  const frameDuration = 1e6 / fps; // microseconds
+
+  return {
+    addFrame: async (canvas, index) => {
+      if (failure) throw failure;
+      while (encoder.encodeQueueSize > MAX_QUEUE) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      const frame = new VideoFrame(canvas, { timestamp: Math.round(index * frameDuration), duration: Math.round(frameDuration) });
+      encoder.encode(frame, { keyFrame: index % Math.round(fps * KEYFRAME_INTERVAL) === 0 });
+      frame.close();
+    },
+    finish: async () => {
+      await encoder.flush();
+      if (failure) throw failure;
+      encoder.close();
+      muxer.finalize();
+      return new Blob([muxer.target.buffer], { type: 'video/webm' });
+    },
+    abort: () => {
+      if (encoder.state !== 'closed') encoder.close();
+    },
+  };
+};
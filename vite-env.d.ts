@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 'offline' serves textures, WASM and models from /assets only
+  readonly VITE_ASSET_MODE?: 'online' | 'offline';
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}